@@ -1,12 +1,15 @@
 import './src/location/backgroundLocation'; // Register background location task once
-import React from 'react';
+import React, { useEffect } from 'react';
 import { StatusBar, useColorScheme } from 'react-native';
 import { GestureHandlerRootView } from 'react-native-gesture-handler';
 import { SafeAreaProvider } from 'react-native-safe-area-context';
 import { NavigationContainer } from '@react-navigation/native';
 import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
 import { AuthProvider } from './src/shared/context/AuthContext';
+import { AppLockProvider } from './src/shared/context/AppLockContext';
 import RootStackNavigator from './src/app/navigation/RootStackNavigator';
+import { startOutboxSync } from './src/offline/driverOutbox';
+import { startSessionManager } from './src/api/session';
 
 // Create a client for React Query
 const queryClient = new QueryClient({
@@ -21,15 +24,23 @@ const queryClient = new QueryClient({
 function App() {
   const isDarkMode = useColorScheme() === 'dark';
 
+  // Replay queued driver actions when connectivity returns
+  useEffect(() => startOutboxSync(), []);
+
+  // Refresh the access token ahead of expiry and when the app returns to the foreground
+  useEffect(() => startSessionManager(), []);
+
   return (
     <GestureHandlerRootView style={{ flex: 1 }}>
       <SafeAreaProvider>
         <QueryClientProvider client={queryClient}>
           <AuthProvider>
-            <StatusBar barStyle={isDarkMode ? 'light-content' : 'dark-content'} />
-            <NavigationContainer>
-              <RootStackNavigator />
-            </NavigationContainer>
+            <AppLockProvider>
+              <StatusBar barStyle={isDarkMode ? 'light-content' : 'dark-content'} />
+              <NavigationContainer>
+                <RootStackNavigator />
+              </NavigationContainer>
+            </AppLockProvider>
           </AuthProvider>
         </QueryClientProvider>
       </SafeAreaProvider>
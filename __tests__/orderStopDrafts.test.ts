@@ -0,0 +1,46 @@
+import { StopDraft, getSlotRange, newStopDraft, validateStopDrafts } from '../src/features/orders/orderStopDrafts';
+import { StopType } from '../src/api/types';
+
+function draft(type: StopType, extra: Partial<StopDraft> = {}): StopDraft {
+  return { ...newStopDraft(type), addressLine1: '1 Example Road', postalCode: '123456', ...extra };
+}
+
+test('accepts a pickup followed by a delivery', () => {
+  expect(validateStopDrafts([draft('PICKUP'), draft('DELIVERY')])).toEqual({});
+});
+
+test('requires a pickup before each delivery', () => {
+  const delivery = draft('DELIVERY');
+  const pickup = draft('PICKUP');
+  expect(validateStopDrafts([delivery, pickup])).toEqual({
+    [delivery.key]: { sequence: 'Add a pickup before this delivery' },
+  });
+});
+
+test('requires an address and a six-digit postal code', () => {
+  const pickup = draft('PICKUP', { addressLine1: ' ', postalCode: '12345' });
+  const delivery = draft('DELIVERY', { postalCode: '' });
+  const errors = validateStopDrafts([pickup, delivery]);
+  expect(errors[pickup.key]).toEqual({
+    addressLine1: 'Address is required',
+    postalCode: 'Postal code must be exactly 6 digits (Singapore)',
+  });
+  expect(errors[delivery.key]).toEqual({ postalCode: 'Postal code is required' });
+});
+
+test('rejects a delivery slot that ends before the pickup slot starts', () => {
+  const pickup = draft('PICKUP', { slot: { day: 1, startHour: 16 } });
+  const delivery = draft('DELIVERY', { slot: { day: 1, startHour: 10 } });
+  expect(validateStopDrafts([pickup, delivery])).toEqual({
+    [delivery.key]: { slot: 'Delivery slot is before the pickup slot' },
+  });
+});
+
+test('rejects a slot that has already passed', () => {
+  const slot = { day: 0, startHour: 8 };
+  const pickup = draft('PICKUP', { slot });
+  const now = getSlotRange(slot).end.getTime() + 1;
+  expect(validateStopDrafts([pickup, draft('DELIVERY')], now)[pickup.key]).toEqual({
+    slot: 'This slot has already passed. Pick a later one.',
+  });
+});
@@ -0,0 +1,108 @@
+import { optimizeStopOrder } from '../src/features/driver/routeOptimizer';
+import { Stop } from '../src/api/types';
+
+const START = { lat: 1.3, lng: 103.8 };
+const START_TIME = new Date('2030-01-07T08:00:00Z').getTime();
+
+/** Stop east of START; each 0.01° of longitude is about 1.1 km */
+function stop(id: string, east: number, extra: Partial<Stop> = {}): Stop {
+  return {
+    id,
+    sequence: 0,
+    type: 'DELIVERY',
+    addressLine1: id,
+    plannedAt: '',
+    lat: START.lat,
+    lng: START.lng + east,
+    ...extra,
+  };
+}
+
+function ids(stops: Stop[]): string[] {
+  return stops.map((s) => s.id);
+}
+
+function inMinutes(minutes: number): string {
+  return new Date(START_TIME + minutes * 60 * 1000).toISOString();
+}
+
+test('suggests a shorter order', () => {
+  const result = optimizeStopOrder([stop('c', 0.03), stop('a', 0.01), stop('b', 0.02)], {
+    start: START,
+    startTime: START_TIME,
+  });
+  expect(ids(result.stops)).toEqual(['a', 'b', 'c']);
+  expect(result.changed).toBe(true);
+  expect(result.afterMeters).toBeLessThan(result.beforeMeters);
+});
+
+test('keeps an order that cannot be improved', () => {
+  const stops = [stop('a', 0.01), stop('b', 0.02), stop('c', 0.03)];
+  const result = optimizeStopOrder(stops, { start: START, startTime: START_TIME });
+  expect(result.stops).toBe(stops);
+  expect(result.changed).toBe(false);
+});
+
+test('keeps pickups before the deliveries of the same order', () => {
+  const result = optimizeStopOrder(
+    [
+      stop('delivery-1', 0.01, { transportOrderId: 'o1' }),
+      stop('pickup-1', 0.04, { type: 'PICKUP', transportOrderId: 'o1' }),
+      stop('delivery-2', 0.02, { transportOrderId: 'o2' }),
+      stop('pickup-2', 0.03, { type: 'PICKUP', transportOrderId: 'o2' }),
+    ],
+    { start: START, startTime: START_TIME }
+  );
+  const order = ids(result.stops);
+  expect(order.indexOf('pickup-1')).toBeLessThan(order.indexOf('delivery-1'));
+  expect(order.indexOf('pickup-2')).toBeLessThan(order.indexOf('delivery-2'));
+  expect(result.changed).toBe(true);
+});
+
+test('keeps pickups first when the route has no fixed start', () => {
+  const result = optimizeStopOrder(
+    [
+      stop('pickup', 0.05, { type: 'PICKUP', transportOrderId: 'o1' }),
+      stop('delivery', 0, { transportOrderId: 'o1' }),
+      stop('other', 0.02),
+    ],
+    { startTime: START_TIME }
+  );
+  const order = ids(result.stops);
+  expect(order.indexOf('pickup')).toBeLessThan(order.indexOf('delivery'));
+});
+
+test('visits a stop with an earlier window first even when that is longer', () => {
+  const result = optimizeStopOrder(
+    [
+      stop('near', 0.01, { windowStart: inMinutes(120), windowEnd: inMinutes(240) }),
+      stop('far', 0.05, { windowStart: inMinutes(0), windowEnd: inMinutes(30) }),
+    ],
+    { start: START, startTime: START_TIME }
+  );
+  expect(ids(result.stops)).toEqual(['far', 'near']);
+  expect(result.lateBefore).toBe(1);
+  expect(result.lateAfter).toBe(0);
+  expect(result.afterMeters).toBeGreaterThan(result.beforeMeters);
+});
+
+test('leaves stops without coordinates, and deliveries of their pickups, at the end', () => {
+  const result = optimizeStopOrder(
+    [
+      stop('pickup', 0.01, { type: 'PICKUP', transportOrderId: 'o1', lat: undefined, lng: undefined }),
+      stop('delivery', 0.01, { transportOrderId: 'o1' }),
+      stop('b', 0.02),
+      stop('a', 0.01),
+    ],
+    { start: START, startTime: START_TIME }
+  );
+  expect(ids(result.unplaced)).toEqual(['pickup', 'delivery']);
+  expect(ids(result.stops)).toEqual(['a', 'b', 'pickup', 'delivery']);
+});
+
+test('handles a long route', () => {
+  const stops = Array.from({ length: 60 }, (_, i) => stop(`s${i}`, ((i * 37) % 60) / 1000));
+  const result = optimizeStopOrder(stops, { startTime: START_TIME });
+  expect(result.stops).toHaveLength(60);
+  expect(result.afterMeters).toBeLessThan(result.beforeMeters);
+});
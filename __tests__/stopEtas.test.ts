@@ -0,0 +1,78 @@
+import { averageMovingSpeedKmh, estimateStopEtas, formatStopWindow } from '../src/features/trips/stopEtas';
+import { Stop } from '../src/api/types';
+import { LatLng, distanceMeters } from '../src/shared/utils/geo';
+
+const FROM = { lat: 1.3, lng: 103.8 };
+const NOW = new Date('2030-01-07T08:00:00Z').getTime();
+const SERVICE_MS = 5 * 60 * 1000;
+
+/** Point east of FROM; each 0.01° of longitude is about 1.1 km */
+function at(east: number): LatLng {
+  return { lat: FROM.lat, lng: FROM.lng + east };
+}
+
+function stop(id: string, sequence: number, east: number | null, extra: Partial<Stop> = {}): Stop {
+  return { id, sequence, type: 'DELIVERY', addressLine1: id, plannedAt: '', ...(east == null ? {} : at(east)), ...extra };
+}
+
+/** Driving time at 30 km/h over the road distance (1.3 × straight line) */
+function driveMs(a: LatLng, b: LatLng): number {
+  return (distanceMeters(a, b) * 3600 * 1.3) / 30;
+}
+
+test('projects arrivals through pending stops in sequence order', () => {
+  const etas = estimateStopEtas([stop('b', 2, 0.02), stop('a', 1, 0.01)], FROM, { now: NOW });
+
+  const firstEta = NOW + driveMs(FROM, at(0.01));
+  expect(etas.a.eta).toBeCloseTo(firstEta);
+  expect(etas.b.eta).toBeCloseTo(firstEta + SERVICE_MS + driveMs(at(0.01), at(0.02)));
+  expect(etas.a.late).toBe(false);
+});
+
+test('flags stops projected after their window', () => {
+  const etas = estimateStopEtas(
+    [stop('a', 1, 0.1, { windowStart: new Date(NOW).toISOString(), windowEnd: new Date(NOW + 60000).toISOString() })],
+    FROM,
+    { now: NOW }
+  );
+  expect(etas.a.late).toBe(true);
+  expect(etas.a.lateMinutes).toBeGreaterThan(0);
+});
+
+test('waits for a window to open before the next stop', () => {
+  const opens = NOW + 2 * 60 * 60 * 1000;
+  const etas = estimateStopEtas(
+    [stop('a', 1, 0.01, { windowStart: new Date(opens).toISOString() }), stop('b', 2, 0.02)],
+    FROM,
+    { now: NOW }
+  );
+  expect(etas.b.eta).toBeCloseTo(opens + SERVICE_MS + driveMs(at(0.01), at(0.02)));
+});
+
+test('skips finished stops, counts an arrived stop as reached and stops at one without coordinates', () => {
+  const etas = estimateStopEtas(
+    [
+      stop('done', 1, 0.05, { status: 'Completed' }),
+      stop('here', 2, 0.01, { status: 'Arrived' }),
+      stop('unknown', 3, null),
+      stop('later', 4, 0.02),
+    ],
+    FROM,
+    { now: NOW }
+  );
+  expect(Object.keys(etas)).toEqual(['here']);
+  expect(etas.here.eta).toBe(NOW);
+});
+
+test('projects nothing without a driver location', () => {
+  expect(estimateStopEtas([stop('a', 1, 0.01)], null, { now: NOW })).toEqual({});
+});
+
+test('averages moving speed samples only once there are enough', () => {
+  expect(averageMovingSpeedKmh([40, 40, 40, 40])).toBeNull();
+  expect(averageMovingSpeedKmh([20, 40, 20, 40, 30, 0, 2, null, undefined])).toBe(30);
+});
+
+test('formats no window when a bound is missing', () => {
+  expect(formatStopWindow({ windowStart: new Date(NOW).toISOString() })).toBeNull();
+});
@@ -0,0 +1,14 @@
+import { matchesStatusFilter, toStatusQuery } from '../src/features/trips/tripStatusFilters';
+
+test('queries the API spelling of a filter', () => {
+  expect(toStatusQuery('In Transit')).toBe('InTransit');
+  expect(toStatusQuery('Scheduled')).toBe('Scheduled');
+  expect(toStatusQuery('All')).toBeUndefined();
+});
+
+test('matches trips whatever the spelling of their status', () => {
+  expect(matchesStatusFilter('InTransit', 'In Transit')).toBe(true);
+  expect(matchesStatusFilter('In Transit', 'In Transit')).toBe(true);
+  expect(matchesStatusFilter('Completed', 'In Transit')).toBe(false);
+  expect(matchesStatusFilter(undefined, 'All')).toBe(true);
+});
@@ -1,8 +1,17 @@
 import axios from 'axios';
 import { apiClient, getErrorMessage } from './client';
-import { LoginRequest, LoginResponse } from './types';
+import { LoginRequest } from './types';
+import { decode, isApiDecodeError, toApiError } from './decode';
+import { loginResponseSchema } from './schemas';
 import { setToken, setRefreshToken, setExpiresAt, getRefreshToken, storeUser, setCurrentTenantId } from '../shared/utils/authStorage';
-import { ENV } from '../config/env';
+import { getApiBaseUrl } from '../config/apiEnvironment';
+import { createLogger } from '../shared/utils/logger';
+import { endSession, startSession } from './session';
+
+const log = createLogger('auth');
+
+/** Refresh responses that mean the refresh token itself was rejected (anything else is retried) */
+const REFRESH_REJECTED_STATUSES = [400, 401, 403];
 
 /**
  * Login with email and password
@@ -12,7 +21,7 @@ export async function login(
   credentials: LoginRequest
 ): Promise<{ user: any; token: string }> {
   try {
-    console.log('🔐 Starting login process...');
+    log.info('🔐 Starting login');
     
     // Call login endpoint. Send both email and username so backends that expect
     // Passport's default "username" field (e.g. NestJS LocalStrategy) still work.
@@ -21,91 +30,69 @@ export async function login(
       username: credentials.email,
       password: credentials.password,
     };
-    const response = await apiClient.post<LoginResponse>(
-      '/auth/login',
-      body
-    );
+    const response = await apiClient.post('/auth/login', body);
+
+    // Normalizes access_token / accessToken, snake_case user fields etc.; throws ApiDecodeError if no token
+    const loginData = decode('POST /auth/login', loginResponseSchema, response.data);
 
-    console.log('📦 Login response received:', {
-      hasAccessToken: !!response.data.access_token,
-      hasUser: !!response.data.user,
+    log.debug('📦 Login response received', {
+      hasAccessToken: !!loginData.accessToken,
+      hasUser: !!loginData.user,
     });
 
-    // Handle both accessToken (camelCase) and access_token (snake_case)
-    const accessToken =
-      response.data.access_token ||
-      (response.data as any).accessToken ||
-      null;
-    const refreshToken =
-      (response.data as any).refresh_token ?? (response.data as any).refreshToken ?? null;
-
-    if (!accessToken) {
-      console.error('❌ No access token in response:', response.data);
-      throw new Error('Login response missing access token');
-    }
+    const { accessToken, expiresAt } = loginData;
 
-    console.log('💾 Storing token...');
     const tokenStored = setToken(accessToken);
-    if (refreshToken) setRefreshToken(refreshToken);
-    const expiresAt = (response.data as { expires_at?: string | number; expiresAt?: string | number }).expires_at
-      ?? (response.data as { expires_at?: string | number; expiresAt?: string | number }).expiresAt;
+    if (loginData.refreshToken) setRefreshToken(loginData.refreshToken);
     if (expiresAt != null) setExpiresAt(expiresAt);
 
     if (!tokenStored) {
-      console.error('❌ Failed to store token - setToken returned false');
+      log.error('❌ Failed to store token - setToken returned false');
       throw new Error('Failed to store authentication token');
     }
 
-    console.log('✅ Token stored successfully');
+    log.debug('✅ Token stored');
+    startSession();
 
     // Extract and store tenantId IMMEDIATELY from login response (before /auth/me)
-    const loginUser = response.data.user;
-    const data = response.data as any;
-    // Extract from every possible shape the API might use
+    const loginUser = loginData.user;
     const tenantId =
       loginUser?.tenantId ??
-      loginUser?.tenant_id ??
       loginUser?.currentTenantId ??
-      (Array.isArray(loginUser?.tenants) && loginUser.tenants[0]
-        ? loginUser.tenants[0].tenantId ?? loginUser.tenants[0].tenant_id
-        : null) ??
-      data?.tenantId ??
-      data?.tenant_id;
+      loginUser?.tenants?.[0]?.tenantId ??
+      loginData.tenantId;
 
     if (tenantId) {
-      console.log(`💾 Storing tenantId from login response: ${tenantId}`);
       setCurrentTenantId(tenantId);
-      console.log('✅ TenantId stored successfully');
+      log.debug('✅ Tenant from login response stored');
     } else {
-      console.warn('⚠️ No tenantId in login response; /auth/me may require X-Tenant-Id');
+      log.warn('⚠️ No tenantId in login response; /auth/me may require X-Tenant-Id');
     }
 
     // Store user data if provided (include normalized tenant and role for RBAC / restart)
     if (loginUser) {
       const userToStore = {
         ...loginUser,
-        role: (loginUser as { role?: string }).role ?? (loginUser as { user_role?: string }).user_role,
-        tenantId: tenantId ?? loginUser.tenantId ?? loginUser.tenant_id,
+        username: loginUser.username ?? loginUser.email ?? '',
+        tenantId: tenantId ?? loginUser.tenantId,
         currentTenantId: tenantId ?? loginUser.currentTenantId,
-        tenants: loginUser.tenants ?? loginUser.tenant_list,
       };
-      console.log('💾 Storing user data...');
       const userStored = storeUser(userToStore);
       if (!userStored) {
-        console.warn('⚠️ Failed to store user data, but continuing...');
+        log.warn('⚠️ Failed to store user data, but continuing');
       } else {
-        console.log('✅ User data stored successfully');
+        log.debug('✅ User data stored');
       }
     }
 
     // Call /auth/me to verify token and get full user profile
     // NOTE: tenantId is already set above, so interceptor will include x-tenant-id header
-    console.log('🔍 Fetching user profile from /auth/me...');
+    log.debug('🔍 Fetching user profile from /auth/me');
     try {
       const userResponse = await apiClient.get('/auth/me');
       const fullUser = userResponse.data;
 
-      console.log('✅ User profile fetched successfully:', {
+      log.debug('✅ User profile fetched', {
         userId: fullUser?.id || fullUser?.user?.id,
       });
 
@@ -114,17 +101,16 @@ export async function login(
         token: accessToken,
       };
     } catch (meError) {
-      console.warn('⚠️ /auth/me failed, but login succeeded:', getErrorMessage(meError));
+      log.warn('⚠️ /auth/me failed, but login succeeded', { message: getErrorMessage(meError) });
       // Return with user from login response if /auth/me fails
       return {
-        user: response.data.user,
+        user: loginUser,
         token: accessToken,
       };
     }
   } catch (error) {
-    console.error('❌ Login error:', error);
-    const errorMessage = getErrorMessage(error);
-    throw new Error(errorMessage);
+    log.error('❌ Login failed', { message: getErrorMessage(error) });
+    throw toApiError(error);
   }
 }
 
@@ -132,10 +118,11 @@ export async function login(
  * Logout - clears stored auth data
  */
 export async function logout(): Promise<void> {
-  console.log('🚪 Logging out...');
+  log.info('🚪 Logging out');
   const { clearAuth } = await import('../shared/utils/authStorage');
   clearAuth();
-  console.log('✅ Logout complete');
+  endSession();
+  log.debug('✅ Logout complete');
 }
 
 /**
@@ -150,40 +137,40 @@ export async function getCurrentUser() {
   }
 }
 
-const cleanBaseUrl = ENV.API_BASE_URL.replace(/\/+$/, '').replace(/\/api$/, '');
-
 /**
  * Refresh JWT token using stored refresh token.
  * Calls POST /auth/refresh with body { refreshToken } (no apiClient to avoid 401 interceptor).
- * Stores new access_token and optional refresh_token from response.
+ * Stores new access token and optional refresh token from response (decoded like login).
+ * Returns null when there is no refresh token or the server rejected it (400 / 401 / 403, or a body
+ * without a token); throws when the server could not be reached or failed (5xx), so callers can keep
+ * the session and retry. Use refreshSession() (session.ts)
+ * rather than calling this directly.
  */
 export async function refreshToken(): Promise<string | null> {
   const stored = getRefreshToken();
   if (!stored) return null;
 
   try {
-    const response = await axios.post<{
-      access_token?: string;
-      accessToken?: string;
-      refresh_token?: string;
-      refreshToken?: string;
-      expires_at?: string | number;
-      expiresAt?: string | number;
-    }>(`${cleanBaseUrl}/api/auth/refresh`, { refreshToken: stored }, {
+    const response = await axios.post(`${getApiBaseUrl()}/api/auth/refresh`, { refreshToken: stored }, {
       headers: { 'Content-Type': 'application/json' },
       timeout: 10000,
     });
 
-    const accessToken = response.data.access_token ?? response.data.accessToken ?? null;
-    if (!accessToken) return null;
+    // Same token fields as login; a body without a token fails decoding and is treated as a failed refresh
+    const { accessToken, refreshToken: newRefresh, expiresAt } = decode(
+      'POST /auth/refresh',
+      loginResponseSchema,
+      response.data
+    );
 
     setToken(accessToken);
-    const newRefresh = response.data.refresh_token ?? response.data.refreshToken;
     if (newRefresh) setRefreshToken(newRefresh);
-    const expiresAt = response.data.expires_at ?? response.data.expiresAt;
     if (expiresAt != null) setExpiresAt(expiresAt);
     return accessToken;
-  } catch {
-    return null;
+  } catch (error) {
+    if (isApiDecodeError(error)) return null;
+    const status = axios.isAxiosError(error) ? error.response?.status : undefined;
+    if (status != null && REFRESH_REJECTED_STATUSES.includes(status)) return null;
+    throw error;
   }
 }
@@ -1,57 +1,60 @@
 import axios, { AxiosError, InternalAxiosRequestConfig } from 'axios';
-import { ENV } from '../config/env';
-import { getToken, clearToken } from '../shared/utils/authStorage';
+import { getApiBaseUrl, getApiEnvironment, subscribeApiEnvironment } from '../config/apiEnvironment';
+import { getToken, initAuthStorage } from '../shared/utils/authStorage';
 import { getCurrentTenantId } from '../shared/utils/authStorage';
-import { refreshToken } from './auth';
-
-/** In-memory lock: only one refresh in flight; concurrent 401s wait on the same promise */
-let refreshPromise: Promise<string | null> | null = null;
-
-// Request log storage for diagnostics (in-memory, last 10 requests)
-interface RequestLog {
-  method: string;
-  fullUrl: string;
-  status?: number;
-  error?: string;
-  timestamp: number;
-}
-
-const requestLogs: RequestLog[] = [];
-const MAX_LOGS = 10;
-
-function addRequestLog(log: RequestLog) {
-  requestLogs.unshift(log);
-  if (requestLogs.length > MAX_LOGS) {
-    requestLogs.pop();
-  }
-}
-
-export function getRequestLogs(): RequestLog[] {
-  return [...requestLogs];
-}
-
-// Ensure ENV.API_BASE_URL doesn't have trailing slash or /api
-const cleanBaseUrl = ENV.API_BASE_URL.replace(/\/+$/, '').replace(/\/api$/, '');
-
-// Create axios instance with base configuration
+import { expireSession, getValidToken, isSessionLockedError, refreshSession } from './session';
+import { createLogger } from '../shared/utils/logger';
+import { IDEMPOTENCY_KEY_HEADER, getRetryDelayFor, isMutatingMethod } from './retry';
+import {
+  createRequestId,
+  startNetworkLogEntry,
+  completeNetworkLogEntry,
+  estimateBodySize,
+} from '../shared/utils/networkLog';
+
+const log = createLogger('api');
+
+/** Per-request metadata for the network diagnostics log (see shared/utils/networkLog.ts) */
+type TrackedRequestConfig = InternalAxiosRequestConfig & {
+  _requestId?: string;
+  _retried?: boolean;
+  /** Retries made by the retry policy (see retry.ts) */
+  _retryCount?: number;
+};
+
+/** Statuses after which a mutation may or may not have been applied (gateway gave up waiting) */
+const MAYBE_COMMITTED_STATUSES = [502, 504];
+
+// Create axios instance with base configuration; baseURL follows the active API environment
 export const apiClient = axios.create({
-  baseURL: `${cleanBaseUrl}/api`,
+  baseURL: `${getApiBaseUrl()}/api`,
   timeout: 10000,
   headers: {
     'Content-Type': 'application/json',
   },
 });
 
-// Log API configuration
-console.log('🔧 API Configuration:');
-console.log('  ENV.API_BASE_URL:', ENV.API_BASE_URL);
-console.log('  Axios baseURL:', `${cleanBaseUrl}/api`);
+/** Full URL of a request, including its query params (for logging) */
+function getRequestUrl(config: InternalAxiosRequestConfig | undefined): string {
+  return config ? apiClient.getUri(config) : '';
+}
+
+log.info('🔧 API configuration', { environment: getApiEnvironment(), axiosBaseUrl: apiClient.defaults.baseURL });
+
+subscribeApiEnvironment((environment) => {
+  apiClient.defaults.baseURL = `${getApiBaseUrl()}/api`;
+  log.info('🔧 API environment switched', { environment, axiosBaseUrl: apiClient.defaults.baseURL });
+});
 
 // Request interceptor: Add JWT token and x-tenant-id header
 apiClient.interceptors.request.use(
-  (config: InternalAxiosRequestConfig) => {
+  async (config: TrackedRequestConfig) => {
+    // Tokens are loaded from the keychain at startup; requests fired earlier (outbox replay,
+    // background location) wait for that instead of going out unauthenticated
+    await initAuthStorage();
     const isLoginRequest = typeof config.url === 'string' && config.url.includes('/auth/login');
-    const token = isLoginRequest ? null : getToken();
+    // Waits for an in-flight refresh and refreshes ahead of expiry (see session.ts)
+    const token = isLoginRequest ? null : await getValidToken();
     const tenantId = isLoginRequest ? null : getCurrentTenantId();
 
     if (token && config.headers) {
@@ -61,29 +64,35 @@ apiClient.interceptors.request.use(
       config.headers['x-tenant-id'] = tenantId; // Exact header name: lowercase
     }
 
+    // Only for calls that opted in; the same key goes out on every retry so the server can deduplicate
+    if (config.idempotencyKey && config.headers) {
+      config.headers[IDEMPOTENCY_KEY_HEADER] = config.idempotencyKey;
+    }
+
     // Construct full URL for logging
-    const fullUrl = config.baseURL
-      ? `${config.baseURL}${config.url || ''}`
-      : config.url || '';
-
-    // Log request to console with auth and tenant info
-    const hasToken = !!token;
-    const hasTenantId = !!tenantId;
-    console.log(`📤 API Request: ${config.method?.toUpperCase()} ${fullUrl}`);
-    console.log(`   Auth token present: ${hasToken}`);
-    console.log(`   Tenant ID present: ${hasTenantId}${tenantId ? ` (${tenantId})` : ''}`);
-
-    // Store log for diagnostics
-    addRequestLog({
+    const fullUrl = getRequestUrl(config);
+
+    // Presence only: the token and tenant id themselves are never logged
+    log.debug(`📤 ${config.method?.toUpperCase()} ${fullUrl}`, { hasToken: !!token, hasTenantId: !!tenantId });
+
+    // Each attempt (including the retry after a token refresh) gets its own id and log entry
+    const requestId = createRequestId();
+    config._requestId = requestId;
+    if (config.headers) {
+      config.headers['x-request-id'] = requestId;
+    }
+    startNetworkLogEntry({
+      id: requestId,
       method: config.method?.toUpperCase() || 'UNKNOWN',
-      fullUrl,
-      timestamp: Date.now(),
+      url: fullUrl,
+      startedAt: Date.now(),
+      requestSize: estimateBodySize(config.data),
     });
 
     return config;
   },
   (error) => {
-    console.error('❌ API Request Error:', error);
+    log.error('❌ Request setup failed', error);
     return Promise.reject(error);
   }
 );
@@ -92,97 +101,85 @@ apiClient.interceptors.request.use(
 apiClient.interceptors.response.use(
   (response) => {
     // Log successful response
-    const fullUrl = response.config.baseURL
-      ? `${response.config.baseURL}${response.config.url || ''}`
-      : response.config.url || '';
-    console.log(
-      `📥 API Response: ${response.config.method?.toUpperCase()} ${fullUrl} - Status: ${response.status}`
-    );
-
-    // Update log with status
-    if (requestLogs.length > 0) {
-      requestLogs[0].status = response.status;
+    const fullUrl = getRequestUrl(response.config);
+    log.debug(`📥 ${response.config.method?.toUpperCase()} ${fullUrl} - ${response.status}`);
+
+    const requestId = (response.config as TrackedRequestConfig)._requestId;
+    if (requestId) {
+      const contentLength = Number(response.headers?.['content-length']);
+      completeNetworkLogEntry(requestId, {
+        status: response.status,
+        responseSize: Number.isFinite(contentLength) ? contentLength : estimateBodySize(response.data),
+      });
     }
 
     return response;
   },
   async (error: AxiosError) => {
-    const config = error.config as (InternalAxiosRequestConfig & { _retried?: boolean }) | undefined;
-    const fullUrl = config?.baseURL
-      ? `${config.baseURL}${config.url || ''}`
-      : config?.url || '';
+    const config = error.config as TrackedRequestConfig | undefined;
+    const fullUrl = getRequestUrl(config);
     const status = error.response?.status;
     const method = config?.method?.toUpperCase() || 'UNKNOWN';
 
-    // Log error to console
+    // Response bodies are not logged (401 bodies can echo auth context); only the server message
     if (error.response) {
-      console.error(
-        `❌ API Error: ${method} ${fullUrl} - Status: ${status} -`,
-        error.response.data
-      );
+      const body = error.response.data as { message?: string; error?: string } | undefined;
+      log.warn(`❌ ${method} ${fullUrl} - ${status}`, { message: body?.message ?? body?.error });
     } else {
-      console.error(`❌ Network Error: ${method} ${fullUrl} -`, error.message);
+      log.warn(`❌ Network error: ${method} ${fullUrl}`, { message: error.message });
     }
 
-    // Update log with error
-    if (requestLogs.length > 0) {
-      requestLogs[0].status = status;
-      requestLogs[0].error = error.message || 'Unknown error';
+    if (config?._requestId) {
+      completeNetworkLogEntry(config._requestId, {
+        status,
+        responseSize: error.response ? estimateBodySize(error.response.data) : undefined,
+        error: error.message || 'Unknown error',
+      });
     }
 
-    // 401: refresh token (POST /auth/refresh), retry request once, in-memory refresh lock.
-    // Only clear tokens and surface auth error if refresh fails or retry still returns 401.
-    if (error.response?.status === 401 && config) {
-      const data = error.response?.data;
-      const isTokenExpired = (() => {
-        if (data == null || typeof data !== 'object') return true; // 401 with no body: assume token expiry
-        const msg = String(
-          (data as { message?: string; error?: string }).message ??
-            (data as { message?: string; error?: string }).error ??
-            ''
-        ).toLowerCase();
-        if (!msg) return true; // 401 with empty message: assume token expiry
-        return (
-          (msg.includes('expired') || msg.includes('invalid')) &&
-          (msg.includes('token') || msg.includes('jwt'))
-        );
-      })();
-
-      if (!isTokenExpired) {
-        clearToken();
-        return Promise.reject({
-          message: 'Session expired. Please sign in again.',
-          isAuthError: true,
-          statusCode: 401,
-        });
+    // Transient failure of a repeatable request: back off and retry (see retry.ts)
+    if (config) {
+      const attempt = config._retryCount ?? 0;
+      const delay = getRetryDelayFor(config, error, attempt);
+      if (delay != null) {
+        config._retryCount = attempt + 1;
+        log.info(`🔁 Retrying ${method} ${fullUrl} in ${delay} ms`, { attempt: attempt + 1 });
+        await new Promise<void>((resolve) => setTimeout(resolve, delay));
+        return apiClient.request(config);
       }
-
-      // Already retried once with new token and still 401: clear and logout
-      if (config._retried) {
-        clearToken();
-        return Promise.reject({
-          message: 'Session expired. Please sign in again.',
-          isAuthError: true,
-          statusCode: 401,
-        });
-      }
-
-      // In-memory lock: only one refresh in flight; concurrent 401s wait on the same promise
-      if (!refreshPromise) {
-        refreshPromise = refreshToken().finally(() => {
-          refreshPromise = null;
-        });
-      }
-      try {
-        const newToken = await refreshPromise;
-        if (newToken) {
-          config._retried = true;
-          return apiClient.request(config);
+    }
+    // A mutation without a definitive answer may still have been applied by the server
+    const maybeCommitted =
+      isMutatingMethod(config?.method) && (status == null || MAYBE_COMMITTED_STATUSES.includes(status));
+
+    // 401 on an authenticated request: refresh (shared with session.ts, so concurrent 401s and
+    // proactive refreshes use one request) and retry once. A 401 after that ends the session.
+    const sentToken = String(config?.headers?.Authorization ?? '').replace(/^Bearer\s+/, '');
+    if (error.response?.status === 401 && config && sentToken) {
+      if (!config._retried) {
+        try {
+          // Another request may have refreshed while this one was in flight
+          const current = getToken();
+          const newToken = current && current !== sentToken ? current : await refreshSession();
+          if (newToken) {
+            config._retried = true;
+            return apiClient.request(config);
+          }
+        } catch (refreshError) {
+          // App lock holds the refresh token back: keep the session until the user unlocks
+          if (isSessionLockedError(refreshError)) {
+            return Promise.reject({ message: refreshError.message, isAuthError: true, isLocked: true, statusCode: 401 });
+          }
+          // Refresh failed without rejecting the token (offline / 5xx): keep the session, surface as a network error
+          return Promise.reject({
+            message: 'Cannot reach API. Check Render URL / connectivity.',
+            isNetworkError: true,
+            maybeCommitted,
+            originalError: error.message,
+          });
         }
-      } catch (_e) {
-        // refresh failed; fall through to clearToken
       }
-      clearToken();
+      expireSession();
       return Promise.reject({
         message: 'Session expired. Please sign in again.',
         isAuthError: true,
@@ -196,6 +193,7 @@ apiClient.interceptors.response.use(
         message:
           'Cannot reach API. Check Render URL / connectivity.',
         isNetworkError: true,
+        maybeCommitted,
         originalError: error.message,
       });
     }
@@ -233,6 +231,7 @@ apiClient.interceptors.response.use(
     return Promise.reject({
       message: apiError?.message || apiError?.error || 'An error occurred',
       statusCode: error.response.status,
+      maybeCommitted,
       data: error.response.data,
     });
   }
@@ -0,0 +1,169 @@
+/**
+ * Admin dashboard metrics.
+ * Uses the aggregated GET /transport/dashboard endpoint when the backend has it; otherwise (404 / 405)
+ * the same numbers are computed from the list endpoints (unassigned orders, trips, drivers, vehicles,
+ * admin driver locations). After the first 404 / 405 the aggregated endpoint is not tried again
+ * until the app restarts.
+ */
+import { apiClient } from './client';
+import { toApiError } from './decode';
+import { getUnassignedOrders, getTransportTrips } from './transport';
+import { getDrivers, Driver } from './drivers';
+import { getVehicles } from './vehicles';
+import { getDriverLocations, DriverLocation } from './admin';
+import { Stop, Trip } from './types';
+import { createLogger } from '../shared/utils/logger';
+
+export interface DashboardStats {
+  /** Orders for the day not yet on a trip */
+  unassignedOrders: number;
+  /** Trips with status In Transit */
+  inTransitTrips: number;
+  drivers: number;
+  vehicles: number;
+  /** Completed stops delivered by their window end / planned time (0–100); null when none can be measured */
+  onTimePercent: number | null;
+  failedStops: number;
+  /** Drivers on an active trip whose last location is older than STALE_PING_MS (or missing) */
+  staleDriverIds: string[];
+}
+
+/** A location older than this counts as "no recent ping" */
+export const STALE_PING_MS = 10 * 60 * 1000;
+/** Grace period after the planned time / window end that still counts as on time */
+const ON_TIME_GRACE_MS = 15 * 60 * 1000;
+
+const ACTIVE_TRIP_STATUSES = ['dispatched', 'intransit'];
+
+const log = createLogger('dashboard');
+
+let aggregatedEndpointAvailable = true;
+
+function normalizeStatus(status: string | undefined): string {
+  return (status ?? '').toLowerCase().replace(/\s+/g, '');
+}
+
+/** When the stop was completed: last Completed history entry, else the POD signature time */
+function getCompletedAt(stop: Stop): number | null {
+  const event = [...(stop.statusHistory ?? [])].reverse().find((e) => e.status === 'Completed');
+  const iso = event?.at ?? stop.pod?.signedAt;
+  const time = iso ? new Date(iso).getTime() : NaN;
+  return Number.isFinite(time) ? time : null;
+}
+
+function getDeadline(stop: Stop): number | null {
+  const iso = stop.windowEnd ?? stop.plannedAt;
+  const time = iso ? new Date(iso).getTime() : NaN;
+  return Number.isFinite(time) ? time + ON_TIME_GRACE_MS : null;
+}
+
+/** Location for a driver: matched by id, falling back to the display name */
+export function findDriverLocation(driver: Driver, locations: DriverLocation[]): DriverLocation | undefined {
+  return (
+    locations.find((l) => l.driverUserId === driver.id) ??
+    locations.find((l) => l.driverLabel && l.driverLabel === driver.name)
+  );
+}
+
+export function hasRecentPing(location: DriverLocation | undefined, now: number = Date.now()): boolean {
+  if (!location) return false;
+  const updatedAt = new Date(location.updatedAt).getTime();
+  return Number.isFinite(updatedAt) && now - updatedAt <= STALE_PING_MS;
+}
+
+/**
+ * Dashboard numbers from the list endpoints (see module comment).
+ */
+export function computeDashboardStats(input: {
+  unassignedOrders: number;
+  trips: Trip[];
+  drivers: Driver[];
+  vehicles: number;
+  locations: DriverLocation[];
+  now?: number;
+}): DashboardStats {
+  const { trips, drivers, locations, now = Date.now() } = input;
+  const stops = trips.flatMap((t) => t.stops ?? []);
+
+  let measured = 0;
+  let onTime = 0;
+  for (const stop of stops) {
+    if (stop.status !== 'Completed') continue;
+    const completedAt = getCompletedAt(stop);
+    const deadline = getDeadline(stop);
+    if (completedAt == null || deadline == null) continue;
+    measured += 1;
+    if (completedAt <= deadline) onTime += 1;
+  }
+
+  const activeDriverIds = new Set(
+    trips
+      .filter((t) => ACTIVE_TRIP_STATUSES.includes(normalizeStatus(t.status)) && t.driverId)
+      .map((t) => t.driverId as string)
+  );
+  const staleDriverIds = drivers
+    .filter((d) => activeDriverIds.has(d.id) && !hasRecentPing(findDriverLocation(d, locations), now))
+    .map((d) => d.id);
+
+  return {
+    unassignedOrders: input.unassignedOrders,
+    inTransitTrips: trips.filter((t) => normalizeStatus(t.status) === 'intransit').length,
+    drivers: drivers.length,
+    vehicles: input.vehicles,
+    onTimePercent: measured > 0 ? Math.round((onTime / measured) * 100) : null,
+    failedStops: stops.filter((s) => s.status === 'Failed').length,
+    staleDriverIds,
+  };
+}
+
+async function computeFromLists(date: Date): Promise<DashboardStats> {
+  const [orders, trips, drivers, vehicles, locations] = await Promise.all([
+    getUnassignedOrders(date),
+    getTransportTrips(date),
+    getDrivers(),
+    getVehicles(),
+    // Locations are admin-only; the other tiles still work without them
+    getDriverLocations().catch((error) => {
+      log.warn('Driver locations unavailable for dashboard', error);
+      return [] as DriverLocation[];
+    }),
+  ]);
+  return computeDashboardStats({
+    unassignedOrders: orders.length,
+    trips,
+    drivers,
+    vehicles: vehicles.length,
+    locations,
+  });
+}
+
+/**
+ * Dashboard stats for a day
+ * GET /transport/dashboard?date=YYYY-MM-DD (falls back to the list endpoints, see module comment)
+ */
+export async function getDashboardStats(date: Date): Promise<DashboardStats> {
+  if (aggregatedEndpointAvailable) {
+    try {
+      const response = await apiClient.get<Partial<DashboardStats>>('/transport/dashboard', {
+        params: { date: date.toISOString().slice(0, 10) },
+        retry: false,
+      });
+      const data = response.data ?? {};
+      return {
+        unassignedOrders: Number(data.unassignedOrders ?? 0),
+        inTransitTrips: Number(data.inTransitTrips ?? 0),
+        drivers: Number(data.drivers ?? 0),
+        vehicles: Number(data.vehicles ?? 0),
+        onTimePercent: data.onTimePercent == null ? null : Number(data.onTimePercent),
+        failedStops: Number(data.failedStops ?? 0),
+        staleDriverIds: Array.isArray(data.staleDriverIds) ? data.staleDriverIds.map(String) : [],
+      };
+    } catch (error) {
+      const status = (error as { statusCode?: number })?.statusCode;
+      if (status !== 404 && status !== 405) throw toApiError(error);
+      aggregatedEndpointAvailable = false;
+      log.info('Aggregated dashboard endpoint not available; computing from lists');
+    }
+  }
+  return computeFromLists(date);
+}
@@ -0,0 +1,184 @@
+/**
+ * Response decoding layer.
+ * Small schema combinators that validate API bodies and normalize the variants the backend has
+ * shipped over time (snake_case keys, 'Pickup' vs 'PICKUP', list envelopes) into the canonical
+ * types in types.ts. A mismatch throws ApiDecodeError naming the route and the offending field,
+ * so backend drift shows up as an error instead of an empty list.
+ */
+import { getErrorMessage } from './client';
+
+/**
+ * Thrown when an API response does not match the expected schema.
+ */
+export class ApiDecodeError extends Error {
+  /** e.g. "GET /driver/trips" */
+  route: string;
+  /** Path of the offending value, e.g. "trips[2].stops[0].type" */
+  path: string;
+  constructor(route: string, path: string, detail: string) {
+    super(`Unexpected response from ${route}: ${path ? `${path} ` : ''}${detail}`);
+    this.name = 'ApiDecodeError';
+    this.route = route;
+    this.path = path;
+  }
+}
+
+export function isApiDecodeError(error: unknown): error is ApiDecodeError {
+  return error instanceof ApiDecodeError;
+}
+
+/** Raised inside decoders; decode() attaches the route */
+class DecodeIssue extends Error {
+  path: string;
+  constructor(path: string, detail: string) {
+    super(detail);
+    this.path = path;
+  }
+}
+
+export type Decoder<T> = (value: unknown, path: string) => T;
+
+function describe(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function toSnakeCase(key: string): string {
+  return key.replace(/[A-Z]/g, (c) => `_${c.toLowerCase()}`);
+}
+
+/** Lowercase and drop spaces/underscores/dashes: "In Transit", "IN_TRANSIT" and "inTransit" compare equal */
+function normalizeToken(value: string): string {
+  return value.toLowerCase().replace(/[\s_-]+/g, '');
+}
+
+export const string: Decoder<string> = (value, path) => {
+  if (typeof value === 'string') return value;
+  throw new DecodeIssue(path, `expected string, got ${describe(value)}`);
+};
+
+/** Accepts numbers and numeric strings (some endpoints serialize decimals as strings) */
+export const number: Decoder<number> = (value, path) => {
+  if (typeof value === 'number' && Number.isFinite(value)) return value;
+  if (typeof value === 'string' && value.trim() !== '' && Number.isFinite(Number(value))) return Number(value);
+  throw new DecodeIssue(path, `expected number, got ${describe(value)}`);
+};
+
+export const boolean: Decoder<boolean> = (value, path) => {
+  if (typeof value === 'boolean') return value;
+  throw new DecodeIssue(path, `expected boolean, got ${describe(value)}`);
+};
+
+/** IDs may come back as numbers from some tables; canonical type is string */
+export const id: Decoder<string> = (value, path) => {
+  if (typeof value === 'string' && value) return value;
+  if (typeof value === 'number') return String(value);
+  throw new DecodeIssue(path, `expected id, got ${describe(value)}`);
+};
+
+/** Pass the value through untouched (fields the app does not interpret) */
+export const unknownValue: Decoder<unknown> = (value) => value;
+
+/** null / undefined become undefined */
+export function optional<T>(decoder: Decoder<T>): Decoder<T | undefined> {
+  return (value, path) => (value == null ? undefined : decoder(value, path));
+}
+
+/** null / undefined become the fallback */
+export function withDefault<T>(decoder: Decoder<T>, fallback: T): Decoder<T> {
+  return (value, path) => (value == null ? fallback : decoder(value, path));
+}
+
+export function oneOf<A, B>(a: Decoder<A>, b: Decoder<B>): Decoder<A | B> {
+  return (value, path) => {
+    try {
+      return a(value, path);
+    } catch {
+      return b(value, path);
+    }
+  };
+}
+
+/**
+ * Case/separator-insensitive enum: maps "Pickup", "pickup" and "PICKUP" to the canonical value.
+ */
+export function enumOf<T extends string>(values: readonly T[]): Decoder<T> {
+  const byToken = new Map(values.map((v) => [normalizeToken(v), v] as const));
+  return (value, path) => {
+    const match = typeof value === 'string' ? byToken.get(normalizeToken(value)) : undefined;
+    if (match) return match;
+    throw new DecodeIssue(path, `expected one of ${values.join(' | ')}, got ${JSON.stringify(value)}`);
+  };
+}
+
+export function array<T>(decoder: Decoder<T>): Decoder<T[]> {
+  return (value, path) => {
+    if (!Array.isArray(value)) throw new DecodeIssue(path, `expected array, got ${describe(value)}`);
+    return value.map((item, i) => decoder(item, `${path}[${i}]`));
+  };
+}
+
+/**
+ * List that may be returned bare or inside an envelope ({ data }, { items }, or the given keys).
+ */
+export function list<T>(decoder: Decoder<T>, envelopeKeys: string[] = []): Decoder<T[]> {
+  const keys = [...envelopeKeys, 'data', 'items'];
+  const decodeArray = array(decoder);
+  return (value, path) => {
+    if (Array.isArray(value)) return decodeArray(value, path);
+    if (isRecord(value)) {
+      const key = keys.find((k) => Array.isArray(value[k]));
+      if (key) return decodeArray(value[key], path ? `${path}.${key}` : key);
+    }
+    throw new DecodeIssue(path, `expected a list (array or { ${keys.join(' | ')} }), got ${describe(value)}`);
+  };
+}
+
+type Shape<T> = { [K in keyof T]: Decoder<T[K]> };
+
+/**
+ * Object decoder. Each canonical key is read from the key itself, then its snake_case form,
+ * then any extra aliases. Keys not in the shape are kept as-is so screens relying on
+ * optional extras keep working.
+ */
+export function object<T>(shape: Shape<T>, aliases: Partial<Record<keyof T, string[]>> = {}): Decoder<T> {
+  const keys = Object.keys(shape) as (keyof T & string)[];
+  return (value, path) => {
+    if (!isRecord(value)) throw new DecodeIssue(path, `expected object, got ${describe(value)}`);
+    const result: Record<string, unknown> = { ...value };
+    for (const key of keys) {
+      const candidates = [key, toSnakeCase(key), ...(aliases[key] ?? [])];
+      const source = candidates.find((k) => value[k] != null);
+      const decoded = shape[key](source != null ? value[source] : undefined, path ? `${path}.${key}` : key);
+      if (source != null && source !== key) delete result[source];
+      if (decoded === undefined) delete result[key];
+      else result[key] = decoded;
+    }
+    return result as T;
+  };
+}
+
+/**
+ * Decode an API response body. Throws ApiDecodeError (with route and field path) on mismatch.
+ */
+export function decode<T>(route: string, decoder: Decoder<T>, value: unknown): T {
+  try {
+    return decoder(value, '');
+  } catch (error) {
+    if (error instanceof DecodeIssue) throw new ApiDecodeError(route, error.path, error.message);
+    throw error;
+  }
+}
+
+/**
+ * For catch blocks in API functions: keep decode errors typed, wrap everything else as before.
+ */
+export function toApiError(error: unknown): Error {
+  if (error instanceof ApiDecodeError) return error;
+  return new Error(getErrorMessage(error));
+}
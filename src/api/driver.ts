@@ -1,5 +1,38 @@
+/**
+ * Driver API client - the single client for backend routes under /api/driver.
+ * Request bodies follow one canonical schema (shared with the offline outbox via driverRoutes),
+ * and trip responses are decoded at runtime (schemas.ts) so a backend change surfaces as an
+ * ApiDecodeError instead of a half-rendered screen.
+ */
 import { apiClient, getErrorMessage } from './client';
-import { Trip } from './types';
+import { decode, toApiError } from './decode';
+import { driverSettingsSchema, stopFailureReasonListSchema, tripSchema, tripListSchema } from './schemas';
+import { Trip, StopFailureReason } from './types';
+import { createLogger } from '../shared/utils/logger';
+
+const log = createLogger('driver');
+
+/** Route builders for /api/driver; also used by the offline outbox so both send to the same URLs */
+export const driverRoutes = {
+  location: () => '/driver/location',
+  locationBatch: () => '/driver/location/batch',
+  trips: () => '/driver/trips',
+  trip: (tripId: string) => `/driver/trips/${tripId}`,
+  acceptTrip: (tripId: string) => `/driver/trips/${tripId}/accept`,
+  startTrip: (tripId: string) => `/driver/trips/${tripId}/start`,
+  startStop: (stopId: string) => `/driver/stops/${stopId}/start`,
+  completeStop: (stopId: string) => `/driver/stops/${stopId}/complete`,
+  failStop: (stopId: string) => `/driver/stops/${stopId}/fail`,
+  stopGeofenceEvent: (stopId: string) => `/driver/stops/${stopId}/geofence-events`,
+  settings: () => '/driver/settings',
+  stopFailureReasons: () => '/driver/stop-failure-reasons',
+  wallet: () => '/driver/wallet',
+};
+
+/** Date as YYYY-MM-DD for query params */
+function formatDateForApi(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
 
 /**
  * Update driver location
@@ -19,54 +52,48 @@ export interface UpdateLocationRequest {
  */
 export async function updateLocation(location: UpdateLocationRequest): Promise<void> {
   try {
-    await apiClient.post('/driver/location', location);
+    await apiClient.post(driverRoutes.location(), location);
   } catch (error) {
-    throw new Error(getErrorMessage(error));
+    throw toApiError(error);
   }
 }
 
-/** Date as YYYY-MM-DD for query params */
-function formatDateForApi(date: Date): string {
-  return date.toISOString().slice(0, 10);
+/**
+ * Upload several buffered fixes in one request, oldest first
+ * POST /api/driver/location/batch
+ * Body: { locations: UpdateLocationRequest[] }
+ * Rejects with the apiClient rejection as is, so the caller can tell a missing endpoint (statusCode
+ * 404 / 405) from other failures.
+ */
+export async function updateLocationBatch(locations: UpdateLocationRequest[]): Promise<void> {
+  await apiClient.post(driverRoutes.locationBatch(), { locations }, { retry: false });
 }
 
 /**
- * Get trips for the driver for a given date
+ * Get trips assigned to the current driver for a given date
  * GET /api/driver/trips?date=YYYY-MM-DD
  */
-export async function getTrips(date: Date): Promise<Trip[]> {
+export async function getDriverTrips(date: Date): Promise<Trip[]> {
   try {
-    const response = await apiClient.get("/driver/trips", {
+    const response = await apiClient.get(driverRoutes.trips(), {
       params: { date: formatDateForApi(date) },
     });
-
-    const data: any = response.data;
-
-    // support common shapes: Trip[], { trips: Trip[] }, { data: Trip[] }, { items: Trip[] }
-    const trips =
-      Array.isArray(data) ? data :
-      Array.isArray(data?.trips) ? data.trips :
-      Array.isArray(data?.data) ? data.data :
-      Array.isArray(data?.items) ? data.items :
-      [];
-
-    return trips;
+    return decode('GET /driver/trips', tripListSchema, response.data);
   } catch (error) {
-    throw new Error(getErrorMessage(error));
+    throw toApiError(error);
   }
 }
 
-
 /**
  * Get a single trip by ID (driver context)
  * GET /api/driver/trips/:tripId
  */
 export async function getTrip(tripId: string): Promise<Trip> {
   try {
-    const response = await apiClient.get<Trip>(`/driver/trips/${tripId}`);
-    return response.data;
+    const response = await apiClient.get(driverRoutes.trip(tripId));
+    return decode('GET /driver/trips/:tripId', tripSchema, response.data);
   } catch (error) {
-    throw new Error(getErrorMessage(error));
+    throw toApiError(error);
   }
 }
 
@@ -84,23 +111,28 @@ export async function acceptTrip(
   payload: AcceptTripPayload
 ): Promise<Trip> {
   try {
-    const response = await apiClient.post<Trip>(`/driver/trips/${tripId}/accept`, payload);
-    return response.data;
+    const response = await apiClient.post(driverRoutes.acceptTrip(tripId), payload);
+    return decode('POST /driver/trips/:tripId/accept', tripSchema, response.data);
   } catch (error) {
-    throw new Error(getErrorMessage(error));
+    throw toApiError(error);
   }
 }
 
+/** Body for start trip / start stop */
+export interface DriverActionPayload {
+  /** Client timestamp (ISO); set by the outbox so replayed actions keep their original time */
+  occurredAt?: string;
+}
+
 /**
  * Driver starts a trip
  * POST /api/driver/trips/:tripId/start
  */
-export async function startTrip(tripId: string): Promise<Trip> {
+export async function startTrip(tripId: string, payload: DriverActionPayload = {}): Promise<void> {
   try {
-    const response = await apiClient.post<Trip>(`/driver/trips/${tripId}/start`);
-    return response.data;
+    await apiClient.post(driverRoutes.startTrip(tripId), payload);
   } catch (error) {
-    throw new Error(getErrorMessage(error));
+    throw toApiError(error);
   }
 }
 
@@ -108,18 +140,23 @@ export async function startTrip(tripId: string): Promise<Trip> {
  * Driver starts a stop (e.g. arrived at stop)
  * POST /api/driver/stops/:stopId/start
  */
-export async function startStop(stopId: string): Promise<void> {
+export async function startStop(stopId: string, payload: DriverActionPayload = {}): Promise<void> {
   try {
-    await apiClient.post(`/driver/stops/${stopId}/start`);
+    await apiClient.post(driverRoutes.startStop(stopId), payload);
   } catch (error) {
-    throw new Error(getErrorMessage(error));
+    throw toApiError(error);
   }
 }
 
-export interface CompleteStopPayload {
-  /** MVP: pass local image URIs (e.g. file://...). Later: storage keys */
+export interface CompleteStopPayload extends DriverActionPayload {
+  /** Storage keys returned by uploadPodPhoto (never local file:// URIs) */
   podPhotoKeys?: string[];
+  /** Recipient name */
   signedBy?: string;
+  /** Recipient signature as SVG markup (from SignaturePad) */
+  signatureSvg?: string;
+  signedAt?: string; // ISO date string
+  note?: string;
 }
 
 /**
@@ -131,8 +168,183 @@ export async function completeStop(
   payload: CompleteStopPayload
 ): Promise<void> {
   try {
-    await apiClient.post(`/driver/stops/${stopId}/complete`, payload);
+    await apiClient.post(driverRoutes.completeStop(stopId), payload);
+  } catch (error) {
+    throw toApiError(error);
+  }
+}
+
+export interface FailStopPayload extends DriverActionPayload {
+  /** Code from getStopFailureReasons (tenant-configurable) */
+  reasonCode: string;
+  note?: string;
+  /** Storage keys of evidence photos returned by uploadPodPhoto */
+  evidencePhotoKeys?: string[];
+}
+
+/**
+ * Driver marks a stop as failed (cannot deliver)
+ * POST /api/driver/stops/:stopId/fail
+ */
+export async function failStop(stopId: string, payload: FailStopPayload): Promise<void> {
+  try {
+    await apiClient.post(driverRoutes.failStop(stopId), payload);
+  } catch (error) {
+    throw toApiError(error);
+  }
+}
+
+export interface GeofenceEventPayload extends DriverActionPayload {
+  /** arrival = entered the stop's geofence, departure = left it */
+  event: 'arrival' | 'departure';
+  /** Position that triggered the event */
+  lat: number;
+  lng: number;
+  accuracy?: number;
+}
+
+/**
+ * Arrival at / departure from a stop detected by its geofence. occurredAt is the capture time of
+ * the location fix that crossed the boundary, not the time the event was sent.
+ * POST /api/driver/stops/:stopId/geofence-events
+ */
+export async function recordGeofenceEvent(stopId: string, payload: GeofenceEventPayload): Promise<void> {
+  try {
+    await apiClient.post(driverRoutes.stopGeofenceEvent(stopId), payload);
+  } catch (error) {
+    throw toApiError(error);
+  }
+}
+
+/** Used when the tenant has not configured its own list (or the list cannot be loaded offline) */
+export const DEFAULT_STOP_FAILURE_REASONS: StopFailureReason[] = [
+  { code: 'CUSTOMER_ABSENT', label: 'Customer absent' },
+  { code: 'ADDRESS_WRONG', label: 'Address wrong' },
+  { code: 'REFUSED', label: 'Refused by customer' },
+  { code: 'DAMAGED', label: 'Goods damaged' },
+];
+
+/**
+ * Get the tenant's reason codes for failed deliveries
+ * GET /api/driver/stop-failure-reasons
+ * Falls back to DEFAULT_STOP_FAILURE_REASONS when none are configured or the request fails.
+ */
+export async function getStopFailureReasons(): Promise<StopFailureReason[]> {
+  try {
+    const response = await apiClient.get(driverRoutes.stopFailureReasons());
+    const reasons = decode('GET /driver/stop-failure-reasons', stopFailureReasonListSchema, response.data);
+    return reasons.length ? reasons : DEFAULT_STOP_FAILURE_REASONS;
+  } catch (error) {
+    log.warn('Failed to load stop failure reasons, using defaults:', getErrorMessage(error));
+    return DEFAULT_STOP_FAILURE_REASONS;
+  }
+}
+
+/** Adaptive background tracking knobs (see location/adaptiveTracking.ts) */
+export interface TrackingPolicy {
+  /** Seconds between fixes while stationary or parked at a stop */
+  stationaryIntervalS: number;
+  movingIntervalS: number;
+  fastIntervalS: number;
+  /** Used at or below lowBatteryPercent (or in battery saver), whatever the driver is doing */
+  lowBatteryIntervalS: number;
+  /** Above this speed the driver counts as moving fast (km/h) */
+  fastSpeedKmh: number;
+  /** Below this speed for stationaryAfterS seconds the driver counts as stationary (km/h) */
+  stationarySpeedKmh: number;
+  stationaryAfterS: number;
+  lowBatteryPercent: number;
+  /** Buffered fixes are uploaded together at most this often (seconds) */
+  uploadIntervalS: number;
+}
+
+/** Tenant policy for driver devices */
+export interface DriverSettings {
+  /** Radius of the geofence around each stop (metres) */
+  geofenceRadiusM: number;
+  /** auto = entering a stop's geofence starts the stop; prompt = the driver is asked to confirm */
+  geofenceArrivalMode: 'auto' | 'prompt';
+  tracking: TrackingPolicy;
+}
+
+export const DEFAULT_TRACKING_POLICY: TrackingPolicy = {
+  stationaryIntervalS: 60,
+  movingIntervalS: 10,
+  fastIntervalS: 5,
+  lowBatteryIntervalS: 60,
+  fastSpeedKmh: 60,
+  stationarySpeedKmh: 3,
+  stationaryAfterS: 120,
+  lowBatteryPercent: 20,
+  uploadIntervalS: 30,
+};
+
+/** Used when the tenant has not configured driver settings (or they cannot be loaded offline) */
+export const DEFAULT_DRIVER_SETTINGS: DriverSettings = {
+  geofenceRadiusM: 100,
+  geofenceArrivalMode: 'prompt',
+  tracking: DEFAULT_TRACKING_POLICY,
+};
+
+/** Tenant values for each knob over the defaults; missing or negative values keep the default */
+function withTrackingDefaults(tenant: Partial<TrackingPolicy> = {}): TrackingPolicy {
+  const policy = { ...DEFAULT_TRACKING_POLICY };
+  for (const key of Object.keys(policy) as (keyof TrackingPolicy)[]) {
+    const value = tenant[key];
+    if (value != null && value >= 0) policy[key] = value;
+  }
+  policy.lowBatteryPercent = Math.min(100, policy.lowBatteryPercent);
+  return policy;
+}
+
+/** Geofences smaller than GPS accuracy in built-up areas would flap; larger ones overlap neighbours */
+const GEOFENCE_RADIUS_RANGE_M = [30, 1000];
+
+/**
+ * Get the tenant's driver settings
+ * GET /api/driver/settings
+ * Values the tenant has not set keep their defaults; a failed request or a body that does not decode
+ * falls back to DEFAULT_DRIVER_SETTINGS.
+ */
+export async function getDriverSettings(): Promise<DriverSettings> {
+  try {
+    const response = await apiClient.get(driverRoutes.settings());
+    const body = (response.data as { settings?: unknown } | undefined)?.settings ?? response.data ?? {};
+    const data = decode('GET /driver/settings', driverSettingsSchema, body);
+    const [minRadius, maxRadius] = GEOFENCE_RADIUS_RANGE_M;
+    return {
+      geofenceRadiusM:
+        data.geofenceRadiusM != null
+          ? Math.min(maxRadius, Math.max(minRadius, data.geofenceRadiusM))
+          : DEFAULT_DRIVER_SETTINGS.geofenceRadiusM,
+      geofenceArrivalMode: data.geofenceArrivalMode ?? DEFAULT_DRIVER_SETTINGS.geofenceArrivalMode,
+      tracking: withTrackingDefaults(data.tracking),
+    };
+  } catch (error) {
+    log.warn('Failed to load driver settings, using defaults:', getErrorMessage(error));
+    return DEFAULT_DRIVER_SETTINGS;
+  }
+}
+
+export interface WalletSummary {
+  month: string;
+  totalEarnings?: number;
+  tripsCompleted?: number;
+  [key: string]: unknown;
+}
+
+/**
+ * Get driver wallet/summary for a month
+ * GET /api/driver/wallet?month=YYYY-MM
+ */
+export async function getWallet(month: Date): Promise<WalletSummary> {
+  try {
+    const monthStr = month.getFullYear() + '-' + String(month.getMonth() + 1).padStart(2, '0');
+    const response = await apiClient.get<WalletSummary>(driverRoutes.wallet(), {
+      params: { month: monthStr },
+    });
+    return response.data;
   } catch (error) {
-    throw new Error(getErrorMessage(error));
+    throw toApiError(error);
   }
 }
@@ -1,5 +1,6 @@
 // Export all API functions and types
 export * from './client';
+export { ApiDecodeError, isApiDecodeError } from './decode';
 export * from './types';
 export * from './auth';
 export * from './trips';
@@ -9,8 +10,9 @@ export * from './drivers';
 export * from './vehicles';
 export * from './stops';
 export * from './driver';
-export * from './driverMvp';
 export * from './admin';
 export * from './places';
 export * from './inventory';
-export * from './transport';
\ No newline at end of file
+export * from './transport';
+export * from './pod';
+export * from './dashboard';
\ No newline at end of file
@@ -1,18 +1,30 @@
-import { AxiosError } from 'axios';
 import { apiClient, getErrorMessage } from './client';
+import { decode, toApiError } from './decode';
+import { orderListSchema, orderSchema } from './schemas';
 import { Order, CreateOrderRequest } from './types';
 
 const DUPLICATE_ORDER_REF_CODE = 'DUPLICATE_ORDER_REF';
 
-/** Error with optional code for 409 duplicate orderRef */
+/**
+ * Error with optional code for 409 duplicate orderRef.
+ * maybeCommitted: the request timed out / lost its connection (after retries) so the order may or may
+ * not exist; resubmitting with the same idempotencyKey is safe and returns the original order if it was created.
+ */
 export class CreateOrderError extends Error {
   code?: string;
   statusCode?: number;
-  constructor(message: string, opts?: { code?: string; statusCode?: number }) {
+  maybeCommitted: boolean;
+  idempotencyKey?: string;
+  constructor(
+    message: string,
+    opts?: { code?: string; statusCode?: number; maybeCommitted?: boolean; idempotencyKey?: string }
+  ) {
     super(message);
     this.name = 'CreateOrderError';
     this.code = opts?.code;
     this.statusCode = opts?.statusCode;
+    this.maybeCommitted = opts?.maybeCommitted ?? false;
+    this.idempotencyKey = opts?.idempotencyKey;
   }
 }
 
@@ -21,15 +33,26 @@ export function isDuplicateOrderRefError(error: unknown): boolean {
   return (error as { code?: string })?.code === DUPLICATE_ORDER_REF_CODE;
 }
 
+export function isMaybeCommittedOrderError(error: unknown): boolean {
+  return error instanceof CreateOrderError && error.maybeCommitted;
+}
+
+/** Rejections from apiClient interceptors are plain objects; see client.ts */
+type ApiRejection = {
+  statusCode?: number;
+  maybeCommitted?: boolean;
+  data?: { code?: string; error?: string; message?: string };
+};
+
 /**
  * Get all orders (authenticated)
  */
 export async function getOrders(): Promise<Order[]> {
   try {
-    const response = await apiClient.get<Order[]>('/transport/orders');
-    return response.data;
+    const response = await apiClient.get('/transport/orders');
+    return decode('GET /transport/orders', orderListSchema, response.data);
   } catch (error) {
-    throw new Error(getErrorMessage(error));
+    throw toApiError(error);
   }
 }
 
@@ -38,28 +61,41 @@ export async function getOrders(): Promise<Order[]> {
  */
 export async function getOrderById(orderId: string): Promise<Order> {
   try {
-    const response = await apiClient.get<Order>(`/transport/orders/${orderId}`);
-    return response.data;
+    const response = await apiClient.get(`/transport/orders/${orderId}`);
+    return decode('GET /transport/orders/:orderId', orderSchema, response.data);
   } catch (error) {
-    throw new Error(getErrorMessage(error));
+    throw toApiError(error);
   }
 }
 
 /**
  * Create a new order. On 409 with DUPLICATE_ORDER_REF, throws CreateOrderError with code DUPLICATE_ORDER_REF.
+ * Pass the same idempotencyKey when resubmitting the same order (e.g. after a maybeCommitted error)
+ * so the server cannot create it twice.
  */
-export async function createOrder(orderData: CreateOrderRequest): Promise<Order> {
+export async function createOrder(
+  orderData: CreateOrderRequest,
+  options: { idempotencyKey?: string } = {}
+): Promise<Order> {
   try {
-    const response = await apiClient.post<Order>('/transport/orders', orderData);
+    const response = await apiClient.post<Order>('/transport/orders', orderData, {
+      idempotencyKey: options.idempotencyKey,
+    });
     return response.data;
   } catch (err) {
-    const axiosError = err as AxiosError<{ code?: string; error?: string; message?: string }>;
-    const status = axiosError.response?.status;
-    const data = axiosError.response?.data;
-    const code = data?.code ?? data?.error;
-    if (status === 409 && (code === DUPLICATE_ORDER_REF_CODE || String(code).toUpperCase() === DUPLICATE_ORDER_REF_CODE)) {
+    const rejection = (err ?? {}) as ApiRejection;
+    const status = rejection.statusCode;
+    const code = rejection.data?.code ?? rejection.data?.error;
+    if (status === 409 && String(code).toUpperCase() === DUPLICATE_ORDER_REF_CODE) {
       throw new CreateOrderError(getErrorMessage(err), { code: DUPLICATE_ORDER_REF_CODE, statusCode: 409 });
     }
-    throw new Error(getErrorMessage(err));
+    if (rejection.maybeCommitted) {
+      throw new CreateOrderError(
+        'The connection dropped before the server confirmed the order, so it may already have been created. ' +
+          'Submitting again is safe and will not create a duplicate.',
+        { statusCode: status, maybeCommitted: true, idempotencyKey: options.idempotencyKey }
+      );
+    }
+    throw new CreateOrderError(getErrorMessage(err), { statusCode: status });
   }
 }
@@ -27,7 +27,7 @@ interface GoogleAutocompleteResponse {
 }
 
 /**
- * Google Place Details response shape (address_components).
+ * Google Place Details response shape (address_components, geometry).
  * @see https://developers.google.com/maps/documentation/places/web-service/details
  */
 interface GooglePlaceDetailsResponse {
@@ -39,6 +39,9 @@ interface GooglePlaceDetailsResponse {
       short_name: string;
       types: string[];
     }>;
+    geometry?: {
+      location?: { lat: number; lng: number };
+    };
   };
   error_message?: string;
 }
@@ -87,7 +90,7 @@ export async function searchPlacesAutocomplete(input: string): Promise<PlacePred
 }
 
 /**
- * Get place details (formatted address + postal code) for a selected prediction.
+ * Get place details (formatted address, postal code and coordinates) for a selected prediction.
  * Uses API key from config. If key is missing or request fails, returns null
  * so UI allows manual entry.
  */
@@ -99,7 +102,7 @@ export async function getPlaceDetails(placeId: string): Promise<PlaceDetails | n
   const params = new URLSearchParams({
     place_id: placeId.trim(),
     key,
-    fields: 'formatted_address,address_components',
+    fields: 'formatted_address,address_components,geometry',
   });
 
   try {
@@ -113,10 +116,13 @@ export async function getPlaceDetails(placeId: string): Promise<PlaceDetails | n
 
     const formattedAddress = data.result.formatted_address?.trim();
     const postalCode = extractPostalCode(data.result.address_components);
+    const location = data.result.geometry?.location;
 
     return {
       formattedAddress: formattedAddress ?? '',
       postalCode,
+      lat: location?.lat,
+      lng: location?.lng,
     };
   } catch (e) {
     return null;
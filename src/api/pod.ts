@@ -0,0 +1,49 @@
+import { apiClient } from './client';
+
+/** Local POD photo file (compressed JPEG on device) */
+export interface PodPhotoFile {
+  uri: string;
+  fileName?: string;
+  mimeType?: string;
+}
+
+export interface UploadPodPhotoResponse {
+  /** Storage key to send in completeStop podPhotoKeys */
+  key: string;
+  /** Optional signed URL for preview */
+  url?: string;
+}
+
+/**
+ * Upload a single POD photo for a stop and get back its storage key.
+ * POST /api/driver/stops/:stopId/pod/photos (multipart/form-data, field "file")
+ * Response: { key } (or { storageKey }), optional { url }.
+ * Rejects with the apiClient error object (isNetworkError / statusCode) rather than a plain Error,
+ * so the driver outbox can tell an interrupted upload (resume later) from a rejected one.
+ */
+export async function uploadPodPhoto(stopId: string, file: PodPhotoFile): Promise<UploadPodPhotoResponse> {
+  const form = new FormData();
+  // React Native FormData accepts { uri, name, type } file descriptors
+  form.append('file', {
+    uri: file.uri,
+    name: file.fileName ?? file.uri.split('/').pop() ?? 'pod.jpg',
+    type: file.mimeType ?? 'image/jpeg',
+  } as unknown as Blob);
+
+  const response = await apiClient.post<{ key?: string; storageKey?: string; url?: string }>(
+    `/driver/stops/${stopId}/pod/photos`,
+    form,
+    {
+      headers: { 'Content-Type': 'multipart/form-data' },
+      timeout: 60000,
+    }
+  );
+  const key = response.data?.key ?? response.data?.storageKey;
+  if (!key) {
+    return Promise.reject({
+      message: 'Photo upload response missing storage key',
+      statusCode: response.status,
+    });
+  }
+  return { key, url: response.data?.url };
+}
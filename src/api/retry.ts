@@ -0,0 +1,95 @@
+/**
+ * Retry policy for apiClient.
+ * Requests are retried with jittered exponential backoff when the network fails or the server
+ * answers with a transient status (408 / 429 / 502 / 503 / 504), but only if the request is safe to
+ * repeat: read-only methods, or mutations whose caller opted in with a stable `idempotencyKey`
+ * (driver outbox entries, order creation). The key is sent as the Idempotency-Key header on every
+ * retry, so the server can return the original result instead of applying the mutation twice.
+ * Other mutations (login, photo uploads, ...) are never retried automatically.
+ */
+import { AxiosError, InternalAxiosRequestConfig } from 'axios';
+
+export interface RetryPolicy {
+  /** Retries after the first attempt (0 disables retrying) */
+  retries: number;
+  /** Backoff cap for the first retry; doubles each attempt (ms) */
+  baseDelayMs: number;
+  maxDelayMs: number;
+  /** HTTP statuses treated as transient */
+  retryStatuses: number[];
+}
+
+declare module 'axios' {
+  interface AxiosRequestConfig {
+    /** Per-request override of the retry policy; false disables retries */
+    retry?: Partial<RetryPolicy> | false;
+    /**
+     * Idempotency-Key for a mutation; setting it opts the call into automatic retries. Pass a stable
+     * value (e.g. an outbox entry id) so replays across app restarts are deduplicated too.
+     */
+    idempotencyKey?: string;
+  }
+}
+
+export const IDEMPOTENCY_KEY_HEADER = 'Idempotency-Key';
+
+const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  retries: 2,
+  baseDelayMs: 500,
+  maxDelayMs: 5000,
+  retryStatuses: [408, 429, 502, 503, 504],
+};
+
+const SAFE_METHODS = ['get', 'head', 'options'];
+const MUTATING_METHODS = ['post', 'put', 'patch', 'delete'];
+
+let retryPolicy: RetryPolicy = DEFAULT_RETRY_POLICY;
+
+export function getRetryPolicy(): RetryPolicy {
+  return retryPolicy;
+}
+
+/** Change the default policy for all requests (per-request `retry` still wins) */
+export function setRetryPolicy(policy: Partial<RetryPolicy>): void {
+  retryPolicy = { ...retryPolicy, ...policy };
+}
+
+export function isMutatingMethod(method?: string): boolean {
+  return MUTATING_METHODS.includes((method ?? 'get').toLowerCase());
+}
+
+/**
+ * Full-jitter backoff: random delay in [0, min(maxDelay, baseDelay * 2^attempt)].
+ * A Retry-After header (seconds) takes precedence when present.
+ */
+function getRetryDelay(attempt: number, policy: RetryPolicy, error: AxiosError): number {
+  const retryAfter = Number(error.response?.headers?.['retry-after']);
+  if (Number.isFinite(retryAfter) && retryAfter > 0) {
+    return Math.min(retryAfter * 1000, policy.maxDelayMs);
+  }
+  const cap = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** attempt);
+  return Math.round(Math.random() * cap);
+}
+
+/**
+ * Delay before the next attempt, or null when the request must not be retried.
+ * `attempt` is the number of retries already made for this request.
+ */
+export function getRetryDelayFor(
+  config: InternalAxiosRequestConfig,
+  error: AxiosError,
+  attempt: number
+): number | null {
+  if (config.retry === false) return null;
+  const policy = { ...retryPolicy, ...config.retry };
+  if (attempt >= policy.retries) return null;
+  if (error.code === AxiosError.ERR_CANCELED) return null;
+
+  const method = (config.method ?? 'get').toLowerCase();
+  const repeatable = SAFE_METHODS.includes(method) || !!config.idempotencyKey;
+  if (!repeatable) return null;
+
+  const status = error.response?.status;
+  const transient = status == null || policy.retryStatuses.includes(status);
+  return transient ? getRetryDelay(attempt, policy, error) : null;
+}
@@ -0,0 +1,225 @@
+/**
+ * Response schemas for the canonical types in types.ts (see decode.ts).
+ * Only fields the app interprets are declared; anything else is passed through unchanged.
+ */
+import {
+  Decoder,
+  array,
+  enumOf,
+  id,
+  list,
+  number,
+  object,
+  oneOf,
+  optional,
+  string,
+  withDefault,
+} from './decode';
+import {
+  LoginResponse,
+  LoginUser,
+  Order,
+  OrderStop,
+  Pod,
+  Stop,
+  StopFailureReason,
+  StopStatusEvent,
+  StopType,
+  TenantMembership,
+  Trip,
+  TripLocationPoint,
+} from './types';
+import type { DriverSettings, TrackingPolicy } from './driver';
+
+const optionalString = optional(string);
+
+export const stopTypeSchema: Decoder<StopType> = enumOf(['PICKUP', 'DELIVERY'] as const);
+
+export const podSchema: Decoder<Pod> = object<Pod>({
+  id: withDefault(id, ''),
+  status: withDefault(string, ''),
+  signedBy: optionalString,
+  signedAt: optionalString,
+  photoUrl: optionalString,
+  photoKeys: optional(array(string)),
+  photoUrls: optional(array(string)),
+  signatureSvg: optionalString,
+  signatureUrl: optionalString,
+  note: optionalString,
+});
+
+const stopStatusEventSchema: Decoder<StopStatusEvent> = object<StopStatusEvent>(
+  {
+    status: string,
+    at: string,
+    by: optionalString,
+    source: optionalString,
+    reason: optionalString,
+  },
+  { at: ['changedAt', 'createdAt', 'timestamp'], by: ['changedBy', 'actorName'] }
+);
+
+export const stopSchema: Decoder<Stop> = object<Stop>(
+  {
+    id: id,
+    sequence: number,
+    type: stopTypeSchema,
+    addressLine1: withDefault(string, ''),
+    city: optionalString,
+    postalCode: optionalString,
+    plannedAt: withDefault(string, ''),
+    transportOrderId: optional(id),
+    pod: optional(podSchema),
+    status: optionalString,
+    tripId: optional(id),
+    failureReasonCode: optionalString,
+    failureReason: optionalString,
+    failureNote: optionalString,
+    failedAt: optionalString,
+    failureEvidenceUrls: optional(array(string)),
+    windowStart: optionalString,
+    windowEnd: optionalString,
+    statusHistory: optional(array(stopStatusEventSchema)),
+    lat: optional(number),
+    lng: optional(number),
+  },
+  { statusHistory: ['history', 'statusEvents'], lat: ['latitude'], lng: ['longitude'] }
+);
+
+export const stopListSchema: Decoder<Stop[]> = list(stopSchema, ['stops']);
+
+const stopFailureReasonSchema: Decoder<StopFailureReason> = object<StopFailureReason>({
+  code: string,
+  label: string,
+});
+
+export const stopFailureReasonListSchema: Decoder<StopFailureReason[]> = list(stopFailureReasonSchema, ['reasons']);
+
+export const tripSchema: Decoder<Trip> = object<Trip>({
+  id: id,
+  status: string,
+  plannedStartAt: optionalString,
+  plannedEndAt: optionalString,
+  driverId: optional(id),
+  vehicleId: optional(id),
+  stops: withDefault(array(stopSchema), []),
+  routeVersion: optional(number),
+  tripNumber: optionalString,
+  origin: optionalString,
+  destination: optionalString,
+  createdAt: optionalString,
+  updatedAt: optionalString,
+});
+
+export const tripListSchema: Decoder<Trip[]> = list(tripSchema, ['trips']);
+
+const tripLocationPointSchema: Decoder<TripLocationPoint> = object<TripLocationPoint>(
+  {
+    lat: number,
+    lng: number,
+    capturedAt: string,
+    speed: optional(number),
+    heading: optional(number),
+    accuracy: optional(number),
+  },
+  { lat: ['latitude'], lng: ['longitude'], capturedAt: ['recordedAt', 'timestamp', 'createdAt'] }
+);
+
+export const tripLocationHistorySchema: Decoder<TripLocationPoint[]> = list(tripLocationPointSchema, [
+  'points',
+  'locations',
+]);
+
+const orderStopSchema: Decoder<OrderStop & { id?: string; sequence?: number }> = object<
+  OrderStop & { id?: string; sequence?: number }
+>(
+  {
+    id: optional(id),
+    sequence: optional(number),
+    type: stopTypeSchema,
+    addressLine1: withDefault(string, ''),
+    addressLine2: optionalString,
+    city: withDefault(string, ''),
+    postalCode: withDefault(string, ''),
+    country: withDefault(string, ''),
+    plannedAt: withDefault(string, ''),
+    windowStart: optionalString,
+    windowEnd: optionalString,
+    contactName: optionalString,
+    contactPhone: optionalString,
+    notes: optionalString,
+    lat: optional(number),
+    lng: optional(number),
+  },
+  { lat: ['latitude'], lng: ['longitude'] }
+);
+
+export const orderSchema: Decoder<Order> = object<Order>({
+  id: id,
+  orderNumber: optionalString,
+  customerName: withDefault(string, ''),
+  stops: withDefault(array(orderStopSchema), []),
+  status: optionalString,
+  createdAt: optionalString,
+  updatedAt: optionalString,
+});
+
+export const orderListSchema: Decoder<Order[]> = list(orderSchema, ['orders']);
+
+/** `tenant` may be a name or a nested { name } object; AuthContext handles both, so it is passed through */
+const tenantMembershipSchema: Decoder<TenantMembership> = object<TenantMembership>({
+  tenantId: id,
+  role: optionalString,
+});
+
+const loginUserSchema: Decoder<LoginUser> = object<LoginUser>(
+  {
+    id: id,
+    username: optionalString,
+    email: optionalString,
+    role: optionalString,
+    tenantId: optional(id),
+    currentTenantId: optional(id),
+    tenants: optional(array(tenantMembershipSchema)),
+  },
+  { role: ['user_role'], tenants: ['tenant_list'] }
+);
+
+/**
+ * POST /auth/login. Accepts access_token / accessToken, refresh_token / refreshToken,
+ * expires_at / expiresAt, and tenant id at the top level or on the user.
+ */
+export const loginResponseSchema: Decoder<LoginResponse> = object<LoginResponse>(
+  {
+    accessToken: string,
+    refreshToken: optionalString,
+    expiresAt: optional(oneOf(number, string)),
+    tenantId: optional(id),
+    user: optional(loginUserSchema),
+  },
+  { accessToken: ['token'] }
+);
+
+/** GET /driver/settings as sent; anything the tenant has not set is left out (driver.ts applies defaults) */
+export type DriverSettingsResponse = Partial<Omit<DriverSettings, 'tracking'>> & { tracking?: Partial<TrackingPolicy> };
+
+const trackingPolicySchema: Decoder<Partial<TrackingPolicy>> = object<Partial<TrackingPolicy>>({
+  stationaryIntervalS: optional(number),
+  movingIntervalS: optional(number),
+  fastIntervalS: optional(number),
+  lowBatteryIntervalS: optional(number),
+  fastSpeedKmh: optional(number),
+  stationarySpeedKmh: optional(number),
+  stationaryAfterS: optional(number),
+  lowBatteryPercent: optional(number),
+  uploadIntervalS: optional(number),
+});
+
+export const driverSettingsSchema: Decoder<DriverSettingsResponse> = object<DriverSettingsResponse>(
+  {
+    geofenceRadiusM: optional(number),
+    geofenceArrivalMode: optional(enumOf(['auto', 'prompt'] as const)),
+    tracking: optional(trackingPolicySchema),
+  },
+  { geofenceRadiusM: ['geofenceRadiusMeters', 'geofenceRadius'] }
+);
@@ -0,0 +1,235 @@
+/**
+ * Session manager.
+ * Keeps the access token fresh instead of waiting for a 401:
+ * - schedules a refresh REFRESH_AHEAD_MS before expiry (stored expiresAt, or the JWT `exp` claim),
+ * - re-checks when the app returns to the foreground (timers do not run while suspended),
+ * - owns the single in-flight refresh; apiClient awaits getValidToken() so outgoing requests queue
+ *   behind a running refresh instead of racing it with a soon-to-be-rejected token.
+ * A refresh that cannot reach the server, or gets a server error (5xx), keeps the session (the token
+ * may still be valid) and is retried later; only a rejected refresh or a 401 after refreshing ends
+ * it ('expired').
+ * AuthContext subscribes to the state to send the user back to sign-in when the session expires.
+ * While the app lock holds the refresh token back, refreshing fails with SessionLockedError and the
+ * session is kept until the user unlocks.
+ */
+import { AppState, AppStateStatus } from 'react-native';
+import { refreshToken } from './auth';
+import {
+  clearToken,
+  getExpiresAt,
+  getRefreshToken,
+  getToken,
+  initAuthStorage,
+  isAppLockEnabled,
+} from '../shared/utils/authStorage';
+import { createLogger } from '../shared/utils/logger';
+
+export type SessionState = 'signedOut' | 'active' | 'refreshing' | 'expired';
+
+type SessionListener = (state: SessionState) => void;
+
+/** Refresh this long before the token expires */
+const REFRESH_AHEAD_MS = 2 * 60 * 1000;
+/** Retry delay after a refresh that could not reach the server */
+const RETRY_DELAY_MS = 30 * 1000;
+/** Long timers are split so they are re-evaluated (and survive clock changes) */
+const MAX_TIMER_MS = 10 * 60 * 1000;
+
+const log = createLogger('session');
+
+/**
+ * Thrown by refreshSession while the app lock (see AppLockContext) holds the refresh token back.
+ */
+export class SessionLockedError extends Error {
+  constructor() {
+    super('App is locked. Unlock to continue.');
+    this.name = 'SessionLockedError';
+  }
+}
+
+export function isSessionLockedError(error: unknown): error is SessionLockedError {
+  return error instanceof SessionLockedError;
+}
+
+function isRefreshTokenLocked(): boolean {
+  try {
+    return !getRefreshToken() && isAppLockEnabled();
+  } catch {
+    return false;
+  }
+}
+
+let state: SessionState = 'signedOut';
+let listeners: SessionListener[] = [];
+let refreshPromise: Promise<string | null> | null = null;
+let refreshTimer: ReturnType<typeof setTimeout> | null = null;
+
+function setState(next: SessionState): void {
+  if (next === state) return;
+  state = next;
+  listeners.forEach((listener) => listener(next));
+}
+
+export function getSessionState(): SessionState {
+  return state;
+}
+
+export function subscribeSession(listener: SessionListener): () => void {
+  listeners.push(listener);
+  return () => {
+    listeners = listeners.filter((l) => l !== listener);
+  };
+}
+
+/** Expiry from the JWT payload (`exp`, Unix seconds), for backends that do not return expiresAt */
+function getJwtExpiry(token: string): number | null {
+  try {
+    const payload = token.split('.')[1];
+    // Hermes provides atob (not in the TS lib config used here)
+    const { atob } = globalThis as { atob?: (data: string) => string };
+    if (!payload || !atob) return null;
+    const json = atob(payload.replace(/-/g, '+').replace(/_/g, '/').padEnd(Math.ceil(payload.length / 4) * 4, '='));
+    const exp = Number(JSON.parse(json)?.exp);
+    return Number.isFinite(exp) ? exp : null;
+  } catch {
+    return null;
+  }
+}
+
+/** Access token expiry in epoch ms, or null if unknown */
+export function getTokenExpiry(): number | null {
+  const token = getToken();
+  if (!token) return null;
+  const seconds = getExpiresAt() ?? getJwtExpiry(token);
+  return seconds != null ? seconds * 1000 : null;
+}
+
+function isNearExpiry(): boolean {
+  const expiry = getTokenExpiry();
+  return expiry != null && expiry - Date.now() <= REFRESH_AHEAD_MS;
+}
+
+function clearTimer(): void {
+  if (refreshTimer) {
+    clearTimeout(refreshTimer);
+    refreshTimer = null;
+  }
+}
+
+function schedule(delayMs: number): void {
+  clearTimer();
+  refreshTimer = setTimeout(onTimer, Math.max(0, Math.min(delayMs, MAX_TIMER_MS)));
+}
+
+function scheduleNextRefresh(): void {
+  const expiry = getTokenExpiry();
+  if (expiry == null || !getRefreshToken()) {
+    clearTimer();
+    return;
+  }
+  schedule(expiry - REFRESH_AHEAD_MS - Date.now());
+}
+
+function onTimer(): void {
+  refreshTimer = null;
+  if (state !== 'active') return;
+  if (isNearExpiry()) {
+    refreshSession().catch(() => undefined);
+  } else {
+    scheduleNextRefresh();
+  }
+}
+
+/**
+ * Refresh the access token. Only one refresh runs at a time; concurrent callers share it.
+ * Resolves with the new token, or null if the refresh token was rejected (session expired).
+ * Rejects when the server could not be reached or failed; the session stays active and a retry is scheduled.
+ * Rejects with SessionLockedError while the app is locked.
+ */
+export function refreshSession(): Promise<string | null> {
+  if (!refreshPromise && isRefreshTokenLocked()) return Promise.reject(new SessionLockedError());
+  if (!refreshPromise) {
+    setState('refreshing');
+    refreshPromise = refreshToken()
+      .then((token) => {
+        if (token) {
+          setState('active');
+          scheduleNextRefresh();
+        } else {
+          log.warn('Refresh token rejected; session expired');
+          expireSession();
+        }
+        return token;
+      })
+      .catch((error) => {
+        log.warn('Token refresh failed (network or server error); will retry', error);
+        setState('active');
+        schedule(RETRY_DELAY_MS);
+        throw error;
+      })
+      .finally(() => {
+        refreshPromise = null;
+      });
+  }
+  return refreshPromise;
+}
+
+/**
+ * Token to send with a request: waits for a running refresh, and refreshes first when the current
+ * token is about to expire. Falls back to the current token if a proactive refresh cannot reach
+ * the server (the 401 path in apiClient still applies).
+ */
+export async function getValidToken(): Promise<string | null> {
+  if (refreshPromise || (state === 'active' && isNearExpiry() && getRefreshToken())) {
+    try {
+      return await refreshSession();
+    } catch {
+      return getToken();
+    }
+  }
+  return getToken();
+}
+
+/** Call after login stored new tokens */
+export function startSession(): void {
+  setState('active');
+  scheduleNextRefresh();
+}
+
+/** Call on logout */
+export function endSession(): void {
+  clearTimer();
+  setState('signedOut');
+}
+
+/** Tokens were rejected: clear them; AuthContext sends the user back to sign-in */
+export function expireSession(): void {
+  clearTimer();
+  clearToken();
+  setState('expired');
+}
+
+function handleAppStateChange(next: AppStateStatus): void {
+  if (next !== 'active' || state !== 'active') return;
+  if (isNearExpiry()) {
+    refreshSession().catch(() => undefined);
+  } else {
+    scheduleNextRefresh();
+  }
+}
+
+/**
+ * Resume the stored session (if any) and refresh on foreground. Call once from App; returns cleanup.
+ */
+export function startSessionManager(): () => void {
+  initAuthStorage()
+    .then(() => {
+      if (getToken()) startSession();
+    })
+    .catch(() => undefined);
+  const subscription = AppState.addEventListener('change', handleAppStateChange);
+  return () => {
+    subscription.remove();
+    clearTimer();
+  };
+}
@@ -1,21 +1,40 @@
 import { apiClient, getErrorMessage } from './client';
+import { decode, toApiError } from './decode';
+import { orderSchema, stopListSchema } from './schemas';
+import { Stop, Order } from './types';
 
 export interface PODData {
   /** Local image URI (e.g. file://...) — passed as photoUrl for now */
   photoUrl?: string;
+  /** Recipient name */
   signedBy?: string;
+  /** Recipient signature as SVG markup (from SignaturePad) */
+  signatureSvg?: string;
   signedAt?: string; // ISO date string
 }
 
+export type StopStatus = 'Scheduled' | 'In Transit' | 'Arrived' | 'Completed' | 'Failed';
+
+/** Status set by ops on the driver's behalf; the backend records it (with the reason) in the stop's history */
+export interface StopStatusOverride {
+  reason: string;
+}
+
 /**
  * Update stop status
+ * PATCH /transport/stops/:stopId/status
+ * Body: { status } or, for an ops override, { status, reason, source: 'ops' }
  */
 export async function updateStopStatus(
   stopId: string,
-  status: 'Scheduled' | 'In Transit' | 'Arrived' | 'Completed' | 'Failed'
+  status: StopStatus,
+  override?: StopStatusOverride
 ): Promise<void> {
   try {
-    await apiClient.patch(`/transport/stops/${stopId}/status`, { status });
+    await apiClient.patch(
+      `/transport/stops/${stopId}/status`,
+      override ? { status, reason: override.reason, source: 'ops' } : { status }
+    );
   } catch (error) {
     throw new Error(getErrorMessage(error));
   }
@@ -23,14 +42,15 @@ export async function updateStopStatus(
 
 /**
  * Upload POD (Proof of Delivery) for a stop.
- * POST /transport/stops/:stopId/pod with JSON body { photoUrl, signedBy, signedAt }.
+ * POST /transport/stops/:stopId/pod with JSON body { photoUrl, signedBy, signatureSvg, signedAt }.
  * For now, photoUrl is the local image URI (e.g. file://...).
  */
 export async function uploadPOD(stopId: string, podData: PODData): Promise<void> {
   try {
-    const payload: { photoUrl?: string; signedBy?: string; signedAt?: string } = {};
+    const payload: PODData = {};
     if (podData.photoUrl) payload.photoUrl = podData.photoUrl;
     if (podData.signedBy) payload.signedBy = podData.signedBy;
+    if (podData.signatureSvg) payload.signatureSvg = podData.signatureSvg;
     if (podData.signedAt) payload.signedAt = podData.signedAt;
 
     await apiClient.post(`/transport/stops/${stopId}/pod`, payload);
@@ -38,3 +58,38 @@ export async function uploadPOD(stopId: string, podData: PODData): Promise<void>
     throw new Error(getErrorMessage(error));
   }
 }
+
+/**
+ * Get failed stops (cannot deliver) that have not been re-queued yet
+ * GET /transport/stops?status=Failed
+ */
+export async function getFailedStops(): Promise<Stop[]> {
+  try {
+    const response = await apiClient.get('/transport/stops', {
+      params: { status: 'Failed' },
+    });
+    return decode('GET /transport/stops', stopListSchema, response.data);
+  } catch (error) {
+    throw toApiError(error);
+  }
+}
+
+/**
+ * Re-queue a failed stop as a new unassigned order for another day.
+ * POST /transport/stops/:stopId/requeue
+ * Body: { date: YYYY-MM-DD }
+ */
+export async function requeueFailedStop(stopId: string, date: Date): Promise<Order | undefined> {
+  try {
+    const response = await apiClient.post(`/transport/stops/${stopId}/requeue`, {
+      date: date.toISOString().slice(0, 10),
+    });
+    // Backend may answer 204 / {} instead of the created order
+    const data: unknown = response.data;
+    return data && typeof data === 'object' && 'id' in (data as object)
+      ? decode('POST /transport/stops/:stopId/requeue', orderSchema, data)
+      : undefined;
+  } catch (error) {
+    throw toApiError(error);
+  }
+}
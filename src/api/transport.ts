@@ -1,4 +1,6 @@
 import { apiClient, getErrorMessage } from './client';
+import { decode, toApiError } from './decode';
+import { orderListSchema, tripListSchema, tripSchema } from './schemas';
 import { Trip, Order } from './types';
 
 function formatDateForApi(date: Date): string {
@@ -11,10 +13,10 @@ function formatDateForApi(date: Date): string {
  */
 export async function getTransportTrip(tripId: string): Promise<Trip> {
   try {
-    const response = await apiClient.get<Trip>(`/transport/trips/${tripId}`);
-    return response.data;
+    const response = await apiClient.get(`/transport/trips/${tripId}`);
+    return decode('GET /transport/trips/:tripId', tripSchema, response.data);
   } catch (error) {
-    throw new Error(getErrorMessage(error));
+    throw toApiError(error);
   }
 }
 
@@ -25,10 +27,10 @@ export async function getTransportTrip(tripId: string): Promise<Trip> {
  */
 export async function patchTripStatus(tripId: string, status: string): Promise<Trip> {
   try {
-    const response = await apiClient.patch<Trip>(`/transport/trips/${tripId}/status`, { status });
-    return response.data;
+    const response = await apiClient.patch(`/transport/trips/${tripId}/status`, { status });
+    return decode('PATCH /transport/trips/:tripId/status', tripSchema, response.data);
   } catch (error) {
-    throw new Error(getErrorMessage(error));
+    throw toApiError(error);
   }
 }
 
@@ -42,15 +44,69 @@ export async function getTransportTrips(date: Date): Promise<Trip[]> {
     const response = await apiClient.get('/transport/trips', {
       params: { date: formatDateForApi(date) },
     });
-    const data: unknown = response.data;
-    if (Array.isArray(data)) return data as Trip[];
-    const obj = data as Record<string, unknown>;
-    if (Array.isArray(obj?.trips)) return obj.trips as Trip[];
-    if (Array.isArray(obj?.data)) return obj.data as Trip[];
-    if (Array.isArray(obj?.items)) return obj.items as Trip[];
-    return [];
+    return decode('GET /transport/trips', tripListSchema, response.data);
   } catch (error) {
-    throw new Error(getErrorMessage(error));
+    throw toApiError(error);
+  }
+}
+
+/** Page size for the admin trips list */
+export const TRIPS_PAGE_SIZE = 20;
+
+export interface TripsQuery {
+  date: Date;
+  status?: string;
+  driverId?: string;
+  vehicleId?: string;
+  /** Trip number (partial match) */
+  search?: string;
+}
+
+export interface TripsPage {
+  trips: Trip[];
+  /** 1-based page number */
+  page: number;
+  hasMore: boolean;
+}
+
+/**
+ * One page of trips for a day (admin trips list)
+ * GET /transport/trips?date=YYYY-MM-DD&page=N&limit=M[&status=&driverId=&vehicleId=&search=]
+ * Accepts a plain array or a { trips | data | items, total?, hasMore? } envelope; without paging
+ * metadata a full page is taken to mean there may be more.
+ */
+export async function getTransportTripsPage(
+  query: TripsQuery,
+  page: number,
+  pageSize: number = TRIPS_PAGE_SIZE
+): Promise<TripsPage> {
+  try {
+    const response = await apiClient.get('/transport/trips', {
+      params: {
+        date: formatDateForApi(query.date),
+        page,
+        limit: pageSize,
+        status: query.status || undefined,
+        driverId: query.driverId || undefined,
+        vehicleId: query.vehicleId || undefined,
+        search: query.search?.trim() || undefined,
+      },
+    });
+    const trips = decode('GET /transport/trips', tripListSchema, response.data);
+    const meta = (Array.isArray(response.data) ? {} : response.data ?? {}) as {
+      hasMore?: unknown;
+      total?: unknown;
+    };
+    const total = Number(meta.total);
+    const hasMore =
+      typeof meta.hasMore === 'boolean'
+        ? meta.hasMore
+        : Number.isFinite(total)
+          ? page * pageSize < total
+          : trips.length >= pageSize;
+    return { trips, page, hasMore };
+  } catch (error) {
+    throw toApiError(error);
   }
 }
 
@@ -63,15 +119,9 @@ export async function getUnassignedOrders(date: Date): Promise<Order[]> {
     const response = await apiClient.get('/transport/orders', {
       params: { unassigned: true, date: formatDateForApi(date) },
     });
-    const data: unknown = response.data;
-    if (Array.isArray(data)) return data as Order[];
-    const obj = data as Record<string, unknown>;
-    if (Array.isArray(obj?.orders)) return obj.orders as Order[];
-    if (Array.isArray(obj?.data)) return obj.data as Order[];
-    if (Array.isArray(obj?.items)) return obj.items as Order[];
-    return [];
+    return decode('GET /transport/orders', orderListSchema, response.data);
   } catch (error) {
-    throw new Error(getErrorMessage(error));
+    throw toApiError(error);
   }
 }
 
@@ -107,12 +157,12 @@ export async function unassignOrder(orderId: string): Promise<void> {
  */
 export async function reorderStops(tripId: string, stopIdsInOrder: string[]): Promise<Trip> {
   try {
-    const response = await apiClient.patch<Trip>(`/transport/trips/${tripId}/reorder-stops`, {
+    const response = await apiClient.patch(`/transport/trips/${tripId}/reorder-stops`, {
       stopIdsInOrder,
     });
-    return response.data;
+    return decode('PATCH /transport/trips/:tripId/reorder-stops', tripSchema, response.data);
   } catch (error) {
-    throw new Error(getErrorMessage(error));
+    throw toApiError(error);
   }
 }
 
@@ -1,15 +1,17 @@
 import { apiClient, getErrorMessage } from './client';
-import { Trip, Stop } from './types';
+import { decode, toApiError } from './decode';
+import { stopListSchema, stopSchema, tripListSchema, tripLocationHistorySchema, tripSchema } from './schemas';
+import { Trip, Stop, TripLocationPoint } from './types';
 
 /**
  * Get all trips (authenticated)
  */
 export async function getTrips(): Promise<Trip[]> {
   try {
-    const response = await apiClient.get<Trip[]>('/trips');
-    return response.data;
+    const response = await apiClient.get('/trips');
+    return decode('GET /trips', tripListSchema, response.data);
   } catch (error) {
-    throw new Error(getErrorMessage(error));
+    throw toApiError(error);
   }
 }
 
@@ -18,10 +20,10 @@ export async function getTrips(): Promise<Trip[]> {
  */
 export async function getTripById(tripId: string): Promise<Trip> {
   try {
-    const response = await apiClient.get<Trip>(`/trips/${tripId}`);
-    return response.data;
+    const response = await apiClient.get(`/trips/${tripId}`);
+    return decode('GET /trips/:tripId', tripSchema, response.data);
   } catch (error) {
-    throw new Error(getErrorMessage(error));
+    throw toApiError(error);
   }
 }
 
@@ -48,15 +50,30 @@ export async function getTripLocation(tripId: string): Promise<TripLocationRespo
   }
 }
 
+/**
+ * Recorded driver positions for a trip (breadcrumb trail), oldest first.
+ * GET /trips/:tripId/locations
+ * Response: TripLocationPoint[] or { points } / { locations }
+ */
+export async function getTripLocationHistory(tripId: string): Promise<TripLocationPoint[]> {
+  try {
+    const response = await apiClient.get(`/trips/${tripId}/locations`);
+    const points = decode('GET /trips/:tripId/locations', tripLocationHistorySchema, response.data);
+    return [...points].sort((a, b) => a.capturedAt.localeCompare(b.capturedAt));
+  } catch (error) {
+    throw toApiError(error);
+  }
+}
+
 /**
  * Get all stops for a trip
  */
 export async function getTripStops(tripId: string): Promise<Stop[]> {
   try {
-    const response = await apiClient.get<Stop[]>(`/trips/${tripId}/stops`);
-    return response.data;
+    const response = await apiClient.get(`/trips/${tripId}/stops`);
+    return decode('GET /trips/:tripId/stops', stopListSchema, response.data);
   } catch (error) {
-    throw new Error(getErrorMessage(error));
+    throw toApiError(error);
   }
 }
 
@@ -68,12 +85,10 @@ export async function getStopById(
   stopId: string
 ): Promise<Stop> {
   try {
-    const response = await apiClient.get<Stop>(
-      `/trips/${tripId}/stops/${stopId}`
-    );
-    return response.data;
+    const response = await apiClient.get(`/trips/${tripId}/stops/${stopId}`);
+    return decode('GET /trips/:tripId/stops/:stopId', stopSchema, response.data);
   } catch (error) {
-    throw new Error(getErrorMessage(error));
+    throw toApiError(error);
   }
 }
 
@@ -4,15 +4,25 @@ export interface LoginRequest {
   password: string;
 }
 
+/** User object embedded in the login response */
+export interface LoginUser {
+  id: string;
+  username?: string;
+  email?: string;
+  role?: string;
+  tenantId?: string; // Tenant ID from login response
+  currentTenantId?: string;
+  tenants?: TenantMembership[];
+}
+
+/** Login response after decoding (access_token / accessToken etc. normalized, see schemas.ts) */
 export interface LoginResponse {
-  access_token?: string;
-  accessToken?: string; // Support both formats
-  user: {
-    id: string;
-    username: string;
-    email?: string;
-    tenantId?: string; // Tenant ID from login response
-  };
+  accessToken: string;
+  refreshToken?: string;
+  /** Unix seconds or ISO string, as sent by the backend */
+  expiresAt?: string | number;
+  tenantId?: string;
+  user?: LoginUser;
 }
 
 /** Profile from profiles table (e.g. global_role for superadmin). */
@@ -59,16 +69,26 @@ export interface ApiError {
 export interface Pod {
   id: string;
   status: string;
+  /** Recipient name */
   signedBy?: string;
   signedAt?: string; // ISO date string
   photoUrl?: string;
+  /** Storage keys of uploaded POD photos */
+  photoKeys?: string[];
+  /** Viewable (signed) URLs for photoKeys, when the backend provides them */
+  photoUrls?: string[];
+  /** Recipient signature as SVG markup */
+  signatureSvg?: string;
+  /** Rendered signature image (PNG), when the backend stores one */
+  signatureUrl?: string;
+  note?: string;
 }
 
 // Stop types - matches backend StopDto
 export interface Stop {
   id: string;
   sequence: number;
-  type: 'PICKUP' | 'DELIVERY' | 'Pickup' | 'Delivery';
+  type: StopType;
   addressLine1: string;
   city?: string;
   postalCode?: string;
@@ -77,6 +97,42 @@ export interface Stop {
   pod?: Pod;
   status?: string;
   address?: string; // legacy / convenience
+  /** Trip the stop belongs to (set on stop lists outside a trip, e.g. failed stops) */
+  tripId?: string;
+  /** Set when status is 'Failed' */
+  failureReasonCode?: string;
+  /** Display label for failureReasonCode */
+  failureReason?: string;
+  failureNote?: string;
+  failedAt?: string; // ISO date string
+  /** Viewable URLs of evidence photos taken by the driver */
+  failureEvidenceUrls?: string[];
+  /** Booked delivery window (ISO date strings), when the order has one */
+  windowStart?: string;
+  windowEnd?: string;
+  /** Status changes, oldest first (driver actions and audited ops overrides) */
+  statusHistory?: StopStatusEvent[];
+  /** Stop coordinates, when the backend has them (geocoded address) */
+  lat?: number;
+  lng?: number;
+}
+
+/** One status change of a stop, as recorded by the backend */
+export interface StopStatusEvent {
+  status: string;
+  at: string; // ISO date string
+  /** Display name of whoever made the change */
+  by?: string;
+  /** 'driver' | 'ops' | 'system' */
+  source?: string;
+  /** Why ops changed the status on the driver's behalf */
+  reason?: string;
+}
+
+/** Tenant-configurable reason code for a failed delivery */
+export interface StopFailureReason {
+  code: string;
+  label: string;
 }
 
 // Trip types - matches backend TripDto
@@ -98,6 +154,18 @@ export interface Trip {
   updatedAt?: string;
 }
 
+/** One recorded driver position on a trip (breadcrumb) */
+export interface TripLocationPoint {
+  lat: number;
+  lng: number;
+  capturedAt: string; // ISO date string
+  /** km/h, as sent by the driver app */
+  speed?: number;
+  /** Degrees clockwise from north */
+  heading?: number;
+  accuracy?: number;
+}
+
 // Order types (matching NestJS backend structure)
 export type StopType = 'PICKUP' | 'DELIVERY';
 
@@ -109,6 +177,16 @@ export interface OrderStop {
   postalCode: string;
   country: string;
   plannedAt: string; // ISO date string
+  /** Booked delivery slot (ISO date strings); plannedAt is the slot start */
+  windowStart?: string;
+  windowEnd?: string;
+  /** Person to ask for at the stop */
+  contactName?: string;
+  contactPhone?: string;
+  notes?: string;
+  /** Coordinates from Place Details, when the address was picked from a suggestion */
+  lat?: number;
+  lng?: number;
 }
 
 /** Line item for create order (inventory item + quantity) */
@@ -145,6 +223,8 @@ export interface PlacePrediction {
 export interface PlaceDetails {
   formattedAddress: string;
   postalCode?: string;
+  lat?: number;
+  lng?: number;
 }
 
 // Inventory (for order line items)
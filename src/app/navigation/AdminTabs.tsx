@@ -1,6 +1,6 @@
 /**
  * AdminTabs - Bottom Tab Navigator for Admin interface
- * Contains: Home, Orders, Trips, Resources tabs
+ * Contains: Home, Orders, Trips, Fleet (live map), Resources tabs
  * Each tab contains a stack navigator for detail screens
  */
 import React from 'react';
@@ -16,14 +16,28 @@ import CreateOrderScreen from '../../features/orders/CreateOrderScreen';
 import OrderDetailScreen from '../../features/orders/OrderDetailScreen';
 import TripsListScreen from '../../features/trips/TripsListScreen';
 import TripDetailScreen from '../../features/trips/TripDetailScreen';
+import TripPlaybackScreen from '../../features/trips/TripPlaybackScreen';
 import StopDetailScreen from '../../features/stops/StopDetailScreen';
+import FailedStopsScreen from '../../features/stops/FailedStopsScreen';
 import DriversListScreen from '../../screens/admin/DriversListScreen';
 import DriverDetailScreen from '../../screens/admin/DriverDetailScreen';
 import VehiclesListScreen from '../../screens/admin/VehiclesListScreen';
 import VehicleDetailScreen from '../../screens/admin/VehicleDetailScreen';
 import SettingsScreen from '../../features/settings/SettingsScreen';
+import FleetMapScreen from '../../features/fleet/FleetMapScreen';
 
 // Define param lists
+export type TripsListParams = {
+  /** Initial status filter, e.g. 'In Transit' */
+  status?: string;
+};
+export type DriversListParams = {
+  /** Only show these drivers */
+  driverIds?: string[];
+  /** Header title for the filtered list */
+  title?: string;
+};
+
 export type AdminTabsParamList = {
   HomeTab: undefined;
   OrdersTab: {
@@ -33,17 +47,23 @@ export type AdminTabsParamList = {
     };
   };
   TripsTab: {
-    screen: 'TripsList' | 'TripDetail' | 'StopDetail';
+    screen: 'TripsList' | 'TripDetail' | 'TripPlayback' | 'StopDetail' | 'FailedStops';
     params?: {
       tripId?: string;
       stopId?: string;
+      /** Initial status filter for TripsList */
+      status?: string;
     };
   };
+  FleetTab: undefined;
   ResourcesTab: {
     screen: 'DriversList' | 'DriverDetail' | 'VehiclesList' | 'VehicleDetail';
     params?: {
       driverId?: string;
       vehicleId?: string;
+      /** Only show these drivers in DriversList (e.g. dashboard drill-down) */
+      driverIds?: string[];
+      title?: string;
     };
   };
   SettingsTab: undefined;
@@ -52,10 +72,12 @@ export type AdminTabsParamList = {
   OrdersList: undefined;
   CreateOrder: undefined;
   OrderDetail: { orderId: string };
-  TripsList: undefined;
+  TripsList: TripsListParams | undefined;
   TripDetail: { tripId: string };
+  TripPlayback: { tripId: string };
   StopDetail: { stopId: string; tripId: string };
-  DriversList: undefined;
+  FailedStops: undefined;
+  DriversList: DriversListParams | undefined;
   DriverDetail: { driverId: string };
   VehiclesList: undefined;
   VehicleDetail: { vehicleId: string };
@@ -67,12 +89,14 @@ export type OrdersStackParamList = {
   OrderDetail: { orderId: string };
 };
 export type TripsStackParamList = {
-  TripsList: undefined;
+  TripsList: TripsListParams | undefined;
   TripDetail: { tripId: string };
+  TripPlayback: { tripId: string };
   StopDetail: { stopId: string; tripId: string };
+  FailedStops: undefined;
 };
 type ResourcesStackParamList = {
-  DriversList: undefined;
+  DriversList: DriversListParams | undefined;
   DriverDetail: { driverId: string };
   VehiclesList: undefined;
   VehicleDetail: { vehicleId: string };
@@ -87,6 +111,7 @@ const ResourcesStack = createNativeStackNavigator<ResourcesStackParamList>();
 function HomeTabIcon() { return <Text>🏠</Text>; }
 function OrdersTabIcon() { return <Text>📦</Text>; }
 function TripsTabIcon() { return <Text>🚛</Text>; }
+function FleetTabIcon() { return <Text>🗺️</Text>; }
 function ResourcesTabIcon() { return <Text>👥</Text>; }
 function SettingsTabIcon() { return <Text>⚙️</Text>; }
 
@@ -132,11 +157,21 @@ function TripsStackNavigator() {
         component={TripDetailScreen}
         options={{ title: 'Trip Details' }}
       />
+      <TripsStack.Screen
+        name="TripPlayback"
+        component={TripPlaybackScreen}
+        options={{ title: 'Route Playback' }}
+      />
       <TripsStack.Screen
         name="StopDetail"
         component={StopDetailScreen}
         options={{ title: 'Stop Details' }}
       />
+      <TripsStack.Screen
+        name="FailedStops"
+        component={FailedStopsScreen}
+        options={{ title: 'Failed Deliveries' }}
+      />
     </TripsStack.Navigator>
   );
 }
@@ -213,6 +248,19 @@ export default function AdminTabs() {
           tabBarIcon: TripsTabIcon,
         }}
       />
+      <Tab.Screen
+        name="FleetTab"
+        component={FleetMapScreen}
+        options={{
+          tabBarLabel: 'Fleet',
+          tabBarIcon: FleetTabIcon,
+          headerShown: true,
+          headerTitle: 'Fleet',
+          headerStyle: { backgroundColor: '#6200ee' },
+          headerTintColor: '#fff',
+          headerTitleStyle: { fontWeight: 'bold' },
+        }}
+      />
       <Tab.Screen
         name="ResourcesTab"
         component={ResourcesStackNavigator}
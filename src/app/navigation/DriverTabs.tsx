@@ -16,6 +16,7 @@ import DriverTripsScreen from '../../features/driver/DriverTripsScreen';
 import TripExecutionScreen from '../../screens/driver/TripExecutionScreen';
 import DriverTripDetailScreen from '../../features/driver/DriverTripDetailScreen';
 import PODCaptureScreen from '../../screens/driver/PODCaptureScreen';
+import FailStopScreen from '../../screens/driver/FailStopScreen';
 import SettingsScreen from '../../features/settings/SettingsScreen';
 
 // Define param lists
@@ -23,7 +24,7 @@ export type DriverTabsParamList = {
   TodayTab: undefined;
   HomeTab: undefined;
   TripsTab: {
-    screen: 'MyTrips' | 'TripExecution' | 'DriverTripDetail' | 'PODCapture';
+    screen: 'MyTrips' | 'TripExecution' | 'DriverTripDetail' | 'PODCapture' | 'FailStop';
     params?: {
       tripId?: string;
       stopId?: string;
@@ -32,15 +33,17 @@ export type DriverTabsParamList = {
   Settings: undefined;
   MyTrips: undefined;
   TripExecution: { tripId: string };
-  PODCapture: { stopId: string };
+  PODCapture: { stopId: string; tripId: string };
+  FailStop: { stopId: string; tripId: string };
 };
 
-/** Param list for the Trips tab stack (MyTrips, TripExecution, DriverTripDetail, PODCapture) */
+/** Param list for the Trips tab stack (MyTrips, TripExecution, DriverTripDetail, PODCapture, FailStop) */
 export type DriverTripsStackParamList = {
   MyTrips: undefined;
   TripExecution: { tripId: string };
   DriverTripDetail: { tripId: string };
-  PODCapture: { stopId: string };
+  PODCapture: { stopId: string; tripId: string };
+  FailStop: { stopId: string; tripId: string };
 };
 
 const Tab = createBottomTabNavigator<DriverTabsParamList>();
@@ -70,6 +73,11 @@ function TripsStackNavigator() {
         component={PODCaptureScreen}
         options={{ title: 'Upload POD' }}
       />
+      <TripsStack.Screen
+        name="FailStop"
+        component={FailStopScreen}
+        options={{ title: 'Cannot Deliver' }}
+      />
     </TripsStack.Navigator>
   );
 }
@@ -1,9 +1,11 @@
 import React from 'react';
 import { createNativeStackNavigator } from '@react-navigation/native-stack';
 import { useAuth } from '../../shared/context/AuthContext';
+import { useAppLock } from '../../shared/context/AppLockContext';
 import LoginScreen from '../../features/auth/LoginScreen';
 import TenantSelectScreen from '../../features/auth/TenantSelectScreen';
 import NoAccessScreen from '../../features/auth/NoAccessScreen';
+import LockScreen from '../../features/auth/LockScreen';
 import NetworkDiagnosticsScreen from '../../features/debug/NetworkDiagnosticsScreen';
 import AuthenticatedRootNavigator from './AuthenticatedRootNavigator';
 
@@ -17,13 +19,19 @@ export type RootStackParamList = {
 
 const Stack = createNativeStackNavigator<RootStackParamList>();
 
-/** When authenticated: show NoAccess, TenantSelect, or main app. */
+/** When authenticated: show NoAccess, TenantSelect, or main app (covered by LockScreen while locked). */
 function AuthenticatedGate() {
   const { noAccess, needsTenantSelection } = useAuth();
+  const { locked } = useAppLock();
 
   if (noAccess) return <NoAccessScreen />;
   if (needsTenantSelection) return <TenantSelectScreen />;
-  return <AuthenticatedRootNavigator />;
+  return (
+    <>
+      <AuthenticatedRootNavigator />
+      {locked && <LockScreen />}
+    </>
+  );
 }
 
 export default function RootStackNavigator() {
@@ -0,0 +1,58 @@
+/**
+ * Active API environment (production / staging / local), persisted in MMKV.
+ * Switching is only allowed in non-release builds; release builds always resolve to production,
+ * even if a different environment was persisted by an earlier debug build.
+ * The API client and token refresh read the base URL from here on every use, and subscribers
+ * are notified so the axios instance can be rebuilt.
+ */
+import { createMMKV } from 'react-native-mmkv';
+import { API_ENVIRONMENTS, ApiEnvironment } from './env';
+
+const ENVIRONMENT_KEY = 'opsflow_api_environment';
+
+const storage = createMMKV({
+  id: 'opsflow-api-environment',
+});
+
+type EnvironmentListener = (environment: ApiEnvironment) => void;
+
+let listeners: EnvironmentListener[] = [];
+
+/** True when the environment can be changed at runtime (non-release builds) */
+export const canSwitchApiEnvironment = typeof __DEV__ !== 'undefined' && __DEV__;
+
+function isApiEnvironment(value: unknown): value is ApiEnvironment {
+  return typeof value === 'string' && value in API_ENVIRONMENTS;
+}
+
+export function getApiEnvironment(): ApiEnvironment {
+  if (!canSwitchApiEnvironment) return 'production';
+  const stored = storage.getString(ENVIRONMENT_KEY);
+  return isApiEnvironment(stored) ? stored : 'production';
+}
+
+/**
+ * Server origin of the active environment, without trailing slash or /api.
+ */
+export function getApiBaseUrl(): string {
+  return API_ENVIRONMENTS[getApiEnvironment()].baseUrl.replace(/\/+$/, '').replace(/\/api$/, '');
+}
+
+/**
+ * Persist the environment and notify subscribers. Callers are responsible for clearing auth and
+ * cached data (Network Diagnostics does both before switching).
+ */
+export function setApiEnvironment(environment: ApiEnvironment): void {
+  if (!canSwitchApiEnvironment) {
+    throw new Error('API environment cannot be changed in release builds.');
+  }
+  storage.set(ENVIRONMENT_KEY, environment);
+  listeners.forEach((listener) => listener(environment));
+}
+
+export function subscribeApiEnvironment(listener: EnvironmentListener): () => void {
+  listeners.push(listener);
+  return () => {
+    listeners = listeners.filter((l) => l !== listener);
+  };
+}
@@ -2,8 +2,42 @@
  * App config. API keys and secrets should be set via environment variables
  * (e.g. EXPO_PUBLIC_GOOGLE_PLACES_API_KEY in .env or EAS Secrets), not hardcoded.
  */
+import { Platform } from 'react-native';
+
+export type ApiEnvironment = 'production' | 'staging' | 'local';
+
+export interface ApiEnvironmentConfig {
+  label: string;
+  /** Server origin without trailing slash or /api */
+  baseUrl: string;
+}
+
+/**
+ * Backends the app can talk to. Release builds always use production; other builds can switch
+ * at runtime from Network Diagnostics (see config/apiEnvironment.ts).
+ * Staging / local URLs can be overridden with EXPO_PUBLIC_STAGING_API_URL / EXPO_PUBLIC_LOCAL_API_URL.
+ */
+export const API_ENVIRONMENTS: Record<ApiEnvironment, ApiEnvironmentConfig> = {
+  production: {
+    label: 'Production',
+    baseUrl: 'https://opsflow-erp-api.onrender.com',
+  },
+  staging: {
+    label: 'Staging',
+    baseUrl: process.env.EXPO_PUBLIC_STAGING_API_URL ?? 'https://opsflow-erp-api-staging.onrender.com',
+  },
+  local: {
+    label: 'Local',
+    // Android emulator reaches the host machine via 10.0.2.2
+    baseUrl:
+      process.env.EXPO_PUBLIC_LOCAL_API_URL ??
+      (Platform.OS === 'android' ? 'http://10.0.2.2:3000' : 'http://localhost:3000'),
+  },
+};
+
 export const ENV = {
-  API_BASE_URL: 'https://opsflow-erp-api.onrender.com',
+  /** Production API; the active base URL is getApiBaseUrl() in config/apiEnvironment.ts */
+  API_BASE_URL: API_ENVIRONMENTS.production.baseUrl,
   /** Google Places API key for address autocomplete (Android/iOS). Set in .env as EXPO_PUBLIC_GOOGLE_PLACES_API_KEY. */
   GOOGLE_PLACES_API_KEY: process.env.EXPO_PUBLIC_GOOGLE_PLACES_API_KEY ?? '',
-};
\ No newline at end of file
+};
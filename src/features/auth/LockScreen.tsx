@@ -0,0 +1,111 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { View, StyleSheet, Alert } from 'react-native';
+import { useAuth } from '../../shared/context/AuthContext';
+import { useAppLock } from '../../shared/context/AppLockContext';
+import Screen from '../../shared/ui/Screen';
+import Card from '../../shared/ui/Card';
+import AppText from '../../shared/ui/AppText';
+import CargoLogo from '../../shared/ui/CargoLogo';
+import Button from '../../shared/ui/Button';
+import { theme } from '../../shared/theme/theme';
+
+/**
+ * Covers the app while it is locked (see AppLockContext). The app stays mounted underneath so
+ * navigation state survives; the unlock prompt opens automatically when the overlay appears.
+ * "Switch user" signs out completely for the next person on a shared device.
+ */
+export default function LockScreen() {
+  const { user } = useAuth();
+  const { unlock, switchUser, methodLabel } = useAppLock();
+  const [unlocking, setUnlocking] = useState(false);
+  const [switching, setSwitching] = useState(false);
+  const prompted = useRef(false);
+
+  const handleUnlock = useCallback(async () => {
+    setUnlocking(true);
+    try {
+      await unlock();
+    } finally {
+      setUnlocking(false);
+    }
+  }, [unlock]);
+
+  useEffect(() => {
+    if (prompted.current) return;
+    prompted.current = true;
+    handleUnlock();
+  }, [handleUnlock]);
+
+  const performSwitchUser = async () => {
+    setSwitching(true);
+    try {
+      await switchUser();
+    } catch (error) {
+      setSwitching(false);
+      Alert.alert('Cannot switch user', error instanceof Error ? error.message : 'Please try again.');
+    }
+  };
+
+  const handleSwitchUser = () => {
+    Alert.alert('Switch user', 'Sign out so someone else can sign in on this device?', [
+      { text: 'Cancel', style: 'cancel' },
+      { text: 'Switch user', style: 'destructive', onPress: performSwitchUser },
+    ]);
+  };
+
+  return (
+    <View style={StyleSheet.absoluteFill}>
+      <Screen style={styles.container}>
+        <View style={styles.content}>
+          <View style={styles.logo}>
+            <CargoLogo />
+          </View>
+          <Card style={styles.card}>
+            <AppText variant="h2" weight="bold" color="text" style={styles.title}>
+              OpsFlow is locked
+            </AppText>
+            <AppText variant="body" color="textSecondary" style={styles.message}>
+              {user?.email ? `Signed in as ${user.email}. ` : ''}Unlock with {methodLabel} to continue.
+            </AppText>
+            <Button title="Unlock" onPress={handleUnlock} loading={unlocking} disabled={switching} />
+            <Button
+              title="Switch user"
+              onPress={handleSwitchUser}
+              variant="outline"
+              loading={switching}
+              disabled={unlocking}
+              style={styles.switchButton}
+            />
+          </Card>
+        </View>
+      </Screen>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: theme.colors.background,
+  },
+  content: {
+    flex: 1,
+    justifyContent: 'center',
+    padding: theme.spacing.lg,
+  },
+  logo: {
+    alignItems: 'center',
+    marginBottom: theme.spacing.lg,
+  },
+  card: {
+    padding: theme.spacing.lg,
+  },
+  title: {
+    marginBottom: theme.spacing.sm,
+  },
+  message: {
+    marginBottom: theme.spacing.lg,
+  },
+  switchButton: {
+    marginTop: theme.spacing.sm,
+  },
+});
@@ -17,7 +17,7 @@ import { getCurrentTenantId, getUser } from '../../shared/utils/authStorage';
 type Props = NativeStackScreenProps<RootStackParamList, 'Login'>;
 
 export default function LoginScreen({ navigation }: Props) {
-  const { refreshUser, setUser, setCurrentTenantId } = useAuth();
+  const { refreshUser, setUser, setCurrentTenantId, sessionState } = useAuth();
   const [email, setEmail] = React.useState('');
   const [password, setPassword] = React.useState('');
   const [loading, setLoading] = React.useState(false);
@@ -88,6 +88,11 @@ export default function LoginScreen({ navigation }: Props) {
 
       {/* Login Form Card */}
       <Card style={styles.formCard}>
+        {sessionState === 'expired' && (
+          <AppText variant="bodySmall" color="error" style={styles.sessionExpired}>
+            Your session expired. Please sign in again.
+          </AppText>
+        )}
         <Input
           label="Email"
           placeholder="Enter your email"
@@ -151,6 +156,9 @@ export default function LoginScreen({ navigation }: Props) {
 }
 
 const styles = StyleSheet.create({
+  sessionExpired: {
+    marginBottom: theme.spacing.md,
+  },
   container: {
     backgroundColor: theme.colors.background,
   },
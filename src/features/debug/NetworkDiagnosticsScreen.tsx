@@ -1,19 +1,109 @@
-import React, { useState, useEffect } from 'react';
-import { View, StyleSheet, ScrollView, RefreshControl } from 'react-native';
+import React, { useState, useEffect, useMemo } from 'react';
+import { View, StyleSheet, ScrollView, RefreshControl, Platform, Alert } from 'react-native';
+import Constants from 'expo-constants';
+import { File, Paths } from 'expo-file-system';
+import * as Sharing from 'expo-sharing';
+import { useQueryClient } from '@tanstack/react-query';
 import { NativeStackScreenProps } from '@react-navigation/native-stack';
 import { RootStackParamList } from '../../app/navigation/RootStackNavigator';
 import Screen from '../../shared/ui/Screen';
 import Card from '../../shared/ui/Card';
 import AppText from '../../shared/ui/AppText';
 import Button from '../../shared/ui/Button';
+import Input from '../../shared/ui/Input';
 import { theme } from '../../shared/theme/theme';
-import { ENV } from '../../config/env';
-import { apiClient, getRequestLogs } from '../../api/client';
+import { API_ENVIRONMENTS, ApiEnvironment } from '../../config/env';
+import {
+  canSwitchApiEnvironment,
+  getApiEnvironment,
+  setApiEnvironment,
+} from '../../config/apiEnvironment';
+import { apiClient } from '../../api/client';
+import { logout } from '../../api/auth';
 import { checkHealth } from '../../api/health';
+import { getOutboxEntries } from '../../offline/driverOutbox';
+import { stopBackgroundTracking } from '../../location/locationService';
+import { useAuth } from '../../shared/context/AuthContext';
+import {
+  NETWORK_LOG_LIMITS,
+  NetworkLogEntry,
+  clearNetworkLog,
+  getNetworkLog,
+  getNetworkLogLimit,
+  setNetworkLogLimit,
+  subscribeNetworkLog,
+  toHar,
+} from '../../shared/utils/networkLog';
 
 type Props = NativeStackScreenProps<RootStackParamList, 'NetworkDiagnostics'>;
 
+type StatusFilter = 'all' | 'errors' | '2xx' | '4xx' | '5xx' | 'network';
+
+const STATUS_FILTERS: { key: StatusFilter; label: string }[] = [
+  { key: 'all', label: 'All' },
+  { key: 'errors', label: 'Errors' },
+  { key: '2xx', label: '2xx' },
+  { key: '4xx', label: '4xx' },
+  { key: '5xx', label: '5xx' },
+  { key: 'network', label: 'No response' },
+];
+
+/** Rows rendered on screen; exports always include every filtered entry */
+const MAX_VISIBLE = 100;
+
+/** iOS has no font named monospace */
+const MONOSPACE_FONT = Platform.select({ ios: 'Menlo', default: 'monospace' });
+
+function matchesStatus(entry: NetworkLogEntry, filter: StatusFilter): boolean {
+  const status = entry.status;
+  switch (filter) {
+    case 'errors':
+      return !!entry.error || (status != null && status >= 400);
+    case '2xx':
+      return status != null && status >= 200 && status < 300;
+    case '4xx':
+      return status != null && status >= 400 && status < 500;
+    case '5xx':
+      return status != null && status >= 500;
+    case 'network':
+      return status == null && entry.durationMs != null;
+    default:
+      return true;
+  }
+}
+
+function statusLabel(entry: NetworkLogEntry): string {
+  if (entry.status != null) return `Status: ${entry.status}`;
+  return entry.durationMs == null ? 'In flight' : 'No response';
+}
+
+function statusColor(entry: NetworkLogEntry): 'success' | 'error' | 'textSecondary' {
+  if (entry.status == null) return entry.durationMs == null ? 'textSecondary' : 'error';
+  return entry.status >= 200 && entry.status < 300 ? 'success' : 'error';
+}
+
+function formatSize(bytes?: number): string {
+  if (bytes == null) return '—';
+  if (bytes < 1024) return `${bytes} B`;
+  return `${(bytes / 1024).toFixed(1)} KB`;
+}
+
+/**
+ * Write the export to a cache file and open the share sheet with the file. The file is shared rather
+ * than its text: a full log is larger than Android allows to pass between apps as a message.
+ */
+async function shareExport(fileName: string, content: string): Promise<void> {
+  const file = new File(Paths.cache, fileName);
+  if (file.exists) file.delete();
+  file.create();
+  file.write(content);
+  await Sharing.shareAsync(file.uri, { mimeType: 'application/json', UTI: 'public.json', dialogTitle: fileName });
+}
+
 export default function NetworkDiagnosticsScreen({}: Props) {
+  const queryClient = useQueryClient();
+  const { setUser } = useAuth();
+  const [environment, setEnvironment] = useState<ApiEnvironment>(getApiEnvironment());
   const [refreshing, setRefreshing] = useState(false);
   const [healthCheckResult, setHealthCheckResult] = useState<{
     success: boolean;
@@ -21,20 +111,109 @@ export default function NetworkDiagnosticsScreen({}: Props) {
     message: string;
     data?: unknown;
   } | null>(null);
-  const [requestLogs, setRequestLogs] = useState(getRequestLogs());
+  const [requestLogs, setRequestLogs] = useState<NetworkLogEntry[]>(getNetworkLog());
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>('all');
+  const [search, setSearch] = useState('');
+  const [logLimit, setLogLimit] = useState(getNetworkLogLimit());
+
+  useEffect(() => subscribeNetworkLog(setRequestLogs), []);
+
+  const filteredLogs = useMemo(() => {
+    const query = search.trim().toLowerCase();
+    return requestLogs.filter(
+      (entry) =>
+        matchesStatus(entry, statusFilter) &&
+        (!query ||
+          entry.url.toLowerCase().includes(query) ||
+          entry.method.toLowerCase().includes(query) ||
+          entry.id.includes(query))
+    );
+  }, [requestLogs, statusFilter, search]);
 
   const handleRefresh = () => {
     setRefreshing(true);
-    setRequestLogs(getRequestLogs());
+    setRequestLogs(getNetworkLog());
     setTimeout(() => setRefreshing(false), 500);
   };
 
+  const handleLimitChange = (limit: number) => {
+    setNetworkLogLimit(limit);
+    setLogLimit(limit);
+    setRequestLogs(getNetworkLog());
+  };
+
+  const handleClear = () => {
+    Alert.alert('Clear network log', 'Remove all logged requests from this device?', [
+      { text: 'Cancel', style: 'cancel' },
+      { text: 'Clear', style: 'destructive', onPress: clearNetworkLog },
+    ]);
+  };
+
+  const handleExport = async (format: 'json' | 'har') => {
+    const stamp = new Date().toISOString().replace(/[:.]/g, '-');
+    const appVersion = Constants.expoConfig?.version ?? 'unknown';
+    try {
+      if (format === 'har') {
+        await shareExport(`opsflow-network-${stamp}.har`, JSON.stringify(toHar(filteredLogs, appVersion), null, 2));
+      } else {
+        const payload = {
+          exportedAt: new Date().toISOString(),
+          appVersion,
+          environment,
+          apiBaseUrl: apiClient.defaults.baseURL,
+          platform: Platform.OS,
+          entries: filteredLogs,
+        };
+        await shareExport(`opsflow-network-${stamp}.json`, JSON.stringify(payload, null, 2));
+      }
+    } catch (e) {
+      Alert.alert('Export failed', e instanceof Error ? e.message : 'Could not export the network log.');
+    }
+  };
+
+  const switchEnvironment = async (next: ApiEnvironment) => {
+    // Tokens, tenant and cached data belong to the old backend: sign out and drop them before switching
+    await stopBackgroundTracking();
+    await logout();
+    queryClient.clear();
+    setApiEnvironment(next);
+    setEnvironment(next);
+    setHealthCheckResult(null);
+    setUser(null);
+  };
+
+  const handleEnvironmentSelect = (next: ApiEnvironment) => {
+    if (next === environment) return;
+    // Queued driver actions use relative URLs and would be replayed against the new backend
+    if (getOutboxEntries().length > 0) {
+      Alert.alert(
+        'Pending driver actions',
+        'Sync or discard the queued driver actions before switching environments.'
+      );
+      return;
+    }
+    Alert.alert(
+      'Switch API environment',
+      `Switch to ${API_ENVIRONMENTS[next].label}? You will be signed out and cached data will be cleared.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Switch',
+          style: 'destructive',
+          onPress: () => {
+            switchEnvironment(next).catch((e) =>
+              Alert.alert('Error', e instanceof Error ? e.message : 'Failed to switch environment.')
+            );
+          },
+        },
+      ]
+    );
+  };
+
   const handleHealthCheck = async () => {
     setHealthCheckResult(null);
     const result = await checkHealth();
     setHealthCheckResult(result);
-    // Refresh logs after health check
-    setRequestLogs(getRequestLogs());
   };
 
   const formatTimestamp = (timestamp: number) => {
@@ -57,10 +236,10 @@ export default function NetworkDiagnosticsScreen({}: Props) {
           </AppText>
           <View style={styles.infoRow}>
             <AppText variant="label" color="textSecondary">
-              ENV.API_BASE_URL:
+              Environment:
             </AppText>
             <AppText variant="body" color="text" style={styles.value}>
-              {ENV.API_BASE_URL}
+              {API_ENVIRONMENTS[environment].label}
             </AppText>
           </View>
           <View style={styles.infoRow}>
@@ -71,6 +250,19 @@ export default function NetworkDiagnosticsScreen({}: Props) {
               {axiosBaseUrl}
             </AppText>
           </View>
+          {canSwitchApiEnvironment && (
+            <View style={styles.chipRow}>
+              {(Object.keys(API_ENVIRONMENTS) as ApiEnvironment[]).map((key) => (
+                <Button
+                  key={key}
+                  title={API_ENVIRONMENTS[key].label}
+                  size="sm"
+                  variant={environment === key ? 'primary' : 'outline'}
+                  onPress={() => handleEnvironmentSelect(key)}
+                />
+              ))}
+            </View>
+          )}
         </Card>
 
         {/* Health Check Section */}
@@ -109,43 +301,106 @@ export default function NetworkDiagnosticsScreen({}: Props) {
         {/* Request Logs Section */}
         <Card style={styles.section}>
           <View style={styles.sectionHeader}>
-            <AppText variant="h2" weight="bold" color="text" style={styles.sectionTitle}>
-              Recent Requests (Last 10)
+            <AppText variant="h2" weight="bold" color="text">
+              Request Log
+            </AppText>
+            <AppText variant="caption" color="textSecondary">
+              {filteredLogs.length} of {requestLogs.length} (keeps {logLimit})
             </AppText>
+          </View>
+          <Input
+            placeholder="Filter by URL, method or request id"
+            value={search}
+            onChangeText={setSearch}
+            autoCapitalize="none"
+            autoCorrect={false}
+          />
+          <View style={styles.chipRow}>
+            {STATUS_FILTERS.map(({ key, label }) => (
+              <Button
+                key={key}
+                title={label}
+                size="sm"
+                variant={statusFilter === key ? 'primary' : 'outline'}
+                onPress={() => setStatusFilter(key)}
+              />
+            ))}
+          </View>
+          <View style={styles.chipRow}>
             <AppText variant="caption" color="textSecondary">
-              {requestLogs.length} logged
+              Keep last
             </AppText>
+            {NETWORK_LOG_LIMITS.map((limit) => (
+              <Button
+                key={limit}
+                title={String(limit)}
+                size="sm"
+                variant={logLimit === limit ? 'primary' : 'outline'}
+                onPress={() => handleLimitChange(limit)}
+              />
+            ))}
+          </View>
+          <View style={styles.chipRow}>
+            <Button
+              title="Export JSON"
+              size="sm"
+              variant="secondary"
+              onPress={() => handleExport('json')}
+              disabled={filteredLogs.length === 0}
+            />
+            <Button
+              title="Export HAR"
+              size="sm"
+              variant="secondary"
+              onPress={() => handleExport('har')}
+              disabled={filteredLogs.length === 0}
+            />
+            <Button
+              title="Clear"
+              size="sm"
+              variant="text"
+              onPress={handleClear}
+              disabled={requestLogs.length === 0}
+            />
           </View>
-          {requestLogs.length === 0 ? (
+          {filteredLogs.length === 0 ? (
             <AppText variant="body" color="textSecondary" style={styles.emptyText}>
-              No requests logged yet. Make an API call to see logs here.
+              {requestLogs.length === 0
+                ? 'No requests logged yet. Make an API call to see logs here.'
+                : 'No requests match the current filter.'}
             </AppText>
           ) : (
-            requestLogs.map((log, index) => (
-              <View key={index} style={styles.logItem}>
+            filteredLogs.slice(0, MAX_VISIBLE).map((log) => (
+              <View key={log.id} style={styles.logItem}>
                 <View style={styles.logHeader}>
-                  <AppText variant="body" weight="semibold" color="text">
-                    {log.method} {log.fullUrl}
+                  <AppText variant="body" weight="semibold" color="text" style={styles.logUrl}>
+                    {log.method} {log.url}
                   </AppText>
                   <AppText variant="caption" color="textSecondary">
-                    {formatTimestamp(log.timestamp)}
+                    {formatTimestamp(log.startedAt)}
                   </AppText>
                 </View>
-                {log.status !== undefined && (
-                  <AppText
-                    variant="caption"
-                    color={log.status >= 200 && log.status < 300 ? 'success' : 'error'}>
-                    Status: {log.status}
-                  </AppText>
-                )}
+                <AppText variant="caption" color={statusColor(log)}>
+                  {statusLabel(log)}
+                  {log.durationMs !== undefined ? ` · ${log.durationMs} ms` : ''}
+                  {` · ↑ ${formatSize(log.requestSize)} ↓ ${formatSize(log.responseSize)}`}
+                </AppText>
                 {log.error && (
                   <AppText variant="caption" color="error">
                     Error: {log.error}
                   </AppText>
                 )}
+                <AppText variant="caption" color="textSecondary" style={styles.requestId}>
+                  {log.id}
+                </AppText>
               </View>
             ))
           )}
+          {filteredLogs.length > MAX_VISIBLE && (
+            <AppText variant="caption" color="textSecondary" style={styles.emptyText}>
+              Showing the latest {MAX_VISIBLE}; export to see all {filteredLogs.length}.
+            </AppText>
+          )}
         </Card>
       </ScrollView>
     </Screen>
@@ -173,7 +428,7 @@ const styles = StyleSheet.create({
   },
   value: {
     marginTop: theme.spacing.xs,
-    fontFamily: 'monospace',
+    fontFamily: MONOSPACE_FONT,
   },
   button: {
     marginTop: theme.spacing.sm,
@@ -189,7 +444,7 @@ const styles = StyleSheet.create({
   },
   dataText: {
     marginTop: theme.spacing.sm,
-    fontFamily: 'monospace',
+    fontFamily: MONOSPACE_FONT,
   },
   logItem: {
     padding: theme.spacing.sm,
@@ -201,8 +456,23 @@ const styles = StyleSheet.create({
     flexDirection: 'row',
     justifyContent: 'space-between',
     alignItems: 'center',
+    gap: theme.spacing.sm,
     marginBottom: theme.spacing.xs,
   },
+  logUrl: {
+    flex: 1,
+  },
+  requestId: {
+    marginTop: theme.spacing.xs,
+    fontFamily: MONOSPACE_FONT,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    alignItems: 'center',
+    gap: theme.spacing.xs,
+    marginBottom: theme.spacing.sm,
+  },
   emptyText: {
     textAlign: 'center',
     paddingVertical: theme.spacing.lg,
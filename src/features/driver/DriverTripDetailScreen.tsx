@@ -37,7 +37,8 @@ import Badge from '../../shared/ui/Badge';
 import Button from '../../shared/ui/Button';
 import { theme } from '../../shared/theme/theme';
 import { Stop, Trip } from '../../api/types';
-import { StopRow, UnassignedOrderRow, EditableStopRow, getTripLabel } from './components';
+import { StopRow, UnassignedOrderRow, EditableStopRow, getTripLabel, getStopAddress } from './components';
+import { optimizeStopOrder } from './routeOptimizer';
 
 type Props = NativeStackScreenProps<DriverTripsStackParamList, 'DriverTripDetail'>;
 
@@ -54,6 +55,10 @@ function isDelivered(stop: Stop): boolean {
   return false;
 }
 
+function formatKm(meters: number): string {
+  return `${(meters / 1000).toFixed(1)} km`;
+}
+
 /** Block edit when trip is Closed or Cancelled */
 function isEditBlockedByStatus(status: string): boolean {
   const s = (status ?? '').toLowerCase();
@@ -248,12 +253,66 @@ export default function DriverTripDetailScreen({ route, navigation }: Props) {
     startTripMutation.mutate();
   }, [startTripMutation]);
 
+  const saveStopOrder = useCallback(
+    (pending: Stop[]) => {
+      if (!trip) return;
+      const delivered = sortStopsBySequence(trip.stops ?? []).filter(isDelivered);
+      const ids = [...pending.map((s) => s.id), ...delivered.map((s) => s.id)];
+      reorderMutation.mutate(ids);
+    },
+    [trip, reorderMutation]
+  );
+
   const handleSaveOrder = useCallback(() => {
+    saveStopOrder(pendingOrder);
+  }, [saveStopOrder, pendingOrder]);
+
+  const handleOptimize = useCallback(() => {
     if (!trip) return;
-    const delivered = sortStopsBySequence(trip.stops ?? []).filter(isDelivered);
-    const ids = [...pendingOrder.map((s) => s.id), ...delivered.map((s) => s.id)];
-    reorderMutation.mutate(ids);
-  }, [trip, pendingOrder, reorderMutation]);
+    // The route continues from the last delivered stop; the planned start counts for time windows
+    const lastDelivered = sortStopsBySequence(trip.stops ?? [])
+      .filter(isDelivered)
+      .reverse()
+      .find((s) => s.lat != null && s.lng != null);
+    const plannedStart = trip.plannedStartAt ? new Date(trip.plannedStartAt).getTime() : NaN;
+    // Failed stops are not driven to again: they are left out and keep their place after the rest
+    const failed = pendingOrder.filter((s) => s.status === 'Failed');
+    const undelivered = pendingOrder.filter((s) => s.status !== 'Failed');
+    const result = optimizeStopOrder(undelivered, {
+      start: lastDelivered ? { lat: lastDelivered.lat as number, lng: lastDelivered.lng as number } : null,
+      startTime: Number.isFinite(plannedStart) ? Math.max(Date.now(), plannedStart) : Date.now(),
+    });
+    if (undelivered.length - result.unplaced.length < 2) {
+      Alert.alert('Optimize route', 'At least two pending stops need coordinates to suggest an order.');
+      return;
+    }
+    if (!result.changed) {
+      Alert.alert('Optimize route', 'The current order is already the shortest found.');
+      return;
+    }
+    const lines = [
+      `Distance: ${formatKm(result.beforeMeters)} → ${formatKm(result.afterMeters)} (straight line)`,
+      ...(result.lateBefore > 0 || result.lateAfter > 0
+        ? [`Stops likely outside their window: ${result.lateBefore} → ${result.lateAfter}`]
+        : []),
+      ...(result.unplaced.length > 0
+        ? [`${result.unplaced.length} stop(s) without coordinates stay at the end.`]
+        : []),
+      '',
+      ...result.stops.map((s, i) => `${i + 1}. ${getStopAddress(s)}`),
+    ];
+    Alert.alert('Optimize route', lines.join('\n'), [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Apply',
+        onPress: () => {
+          const order = [...result.stops, ...failed];
+          setPendingOrder(order);
+          saveStopOrder(order);
+        },
+      },
+    ]);
+  }, [trip, pendingOrder, saveStopOrder]);
 
   const handleMoveToTrip = useCallback((stop: Stop) => {
     setMoveStopContext({ stopId: stop.id, orderId: stop.transportOrderId });
@@ -347,9 +406,20 @@ export default function DriverTripDetailScreen({ route, navigation }: Props) {
     <>
       {headerBlock}
       {pendingOrder.length > 0 && (
-        <AppText variant="label" color="textSecondary" style={styles.sectionLabel}>
-          Pending (drag to reorder)
-        </AppText>
+        <View style={styles.pendingHeader}>
+          <AppText variant="label" color="textSecondary" style={styles.sectionLabel}>
+            Pending (drag to reorder)
+          </AppText>
+          {pendingOrder.length > 1 && (
+            <Button
+              title="Optimize"
+              size="sm"
+              variant="outline"
+              onPress={handleOptimize}
+              disabled={reorderMutation.isPending}
+            />
+          )}
+        </View>
       )}
     </>
   );
@@ -633,6 +703,11 @@ const styles = StyleSheet.create({
     marginBottom: theme.spacing.md,
     paddingVertical: theme.spacing.xs,
   },
+  pendingHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
   sectionLabel: {
     marginTop: theme.spacing.sm,
     marginBottom: theme.spacing.xs,
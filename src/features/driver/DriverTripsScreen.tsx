@@ -13,7 +13,7 @@ import { theme } from '../../shared/theme/theme';
 import { useAuth } from '../../shared/context/AuthContext';
 import { getSelectedMode, getToken } from '../../shared/utils/authStorage';
 import { setSelectedModeGlobal } from '../../app/navigation/AuthenticatedRootNavigator';
-import { getTrips } from '../../api/driver';
+import { getDriverTrips } from '../../api/driver';
 import { Trip } from '../../api/types';
 
 type Props = NativeStackScreenProps<DriverTripsStackParamList, 'MyTrips'>;
@@ -51,7 +51,7 @@ export default function DriverTripsScreen({ navigation }: Props) {
   const hasToken = Boolean(getToken());
   const { data: trips = [], isLoading, error, refetch } = useQuery({
     queryKey: ['driverTrips', today.toISOString().slice(0, 10)],
-    queryFn: () => getTrips(today),
+    queryFn: () => getDriverTrips(today),
     enabled: hasToken,
   });
 
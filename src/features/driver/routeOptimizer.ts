@@ -0,0 +1,276 @@
+import { Stop } from '../../api/types';
+import { distanceMeters, LatLng } from '../../shared/utils/geo';
+
+/** Average speed over straight-line distance, used to estimate arrival times against time windows */
+const ESTIMATED_SPEED_KMH = 25;
+/** Time spent at each stop (parking, handover, POD) */
+const SERVICE_TIME_MS = 5 * 60 * 1000;
+/** Upper bound on 2-opt passes; a pass is O(n²) by distance alone, O(n³) when stops have time windows */
+const MAX_TWO_OPT_PASSES = 20;
+/** Nearest-neighbour starts tried when the route has no fixed start; each is followed by a full 2-opt */
+const MAX_FIRST_STOPS = 4;
+/** Smaller gains are treated as equal so rounding does not reshuffle an already good route */
+const MIN_GAIN_M = 1;
+
+type DistanceFn = (a: LatLng, b: LatLng) => number;
+
+export interface RouteOptimizationOptions {
+  /** Where the route continues from (e.g. the last delivered stop); the first stop is free when unset */
+  start?: LatLng | null;
+  /** Departure time for the time-window estimate (epoch ms); defaults to now */
+  startTime?: number;
+  /** Distance in metres; defaults to straight-line, pass cached road distances when available */
+  distance?: DistanceFn;
+}
+
+export interface RouteOptimization {
+  /** Suggested order of all given stops (stops that could not be placed keep their order at the end) */
+  stops: Stop[];
+  /** Stops left out of the optimization: no coordinates, or their pickup has none */
+  unplaced: Stop[];
+  beforeMeters: number;
+  afterMeters: number;
+  /** Stops estimated to arrive after their window, in the current / suggested order */
+  lateBefore: number;
+  lateAfter: number;
+  /** True when the suggested order differs from the given one */
+  changed: boolean;
+}
+
+interface RouteCost {
+  lateMs: number;
+  lateStops: number;
+  meters: number;
+}
+
+/** Cost so far plus the clock, after driving part of a route */
+interface RouteState extends RouteCost {
+  time: number;
+}
+
+function toTime(iso: string | undefined): number | null {
+  const time = iso ? new Date(iso).getTime() : NaN;
+  return Number.isFinite(time) ? time : null;
+}
+
+function hasCoordinates(stop: Stop): stop is Stop & LatLng {
+  return stop.lat != null && stop.lng != null;
+}
+
+/** Lateness first (an on-time route always wins), then distance */
+function isBetter(a: RouteCost, b: RouteCost): boolean {
+  if (a.lateMs !== b.lateMs) return a.lateMs < b.lateMs;
+  return a.meters < b.meters - MIN_GAIN_M;
+}
+
+/**
+ * Suggest a shorter order for pending stops: nearest-neighbour from a few likely first stops, then
+ * 2-opt. Pickups stay before the deliveries of the same order and, where stops have time windows,
+ * an order that is estimated to be late at fewer stops always wins over a shorter one.
+ * Stops are expected in their current order; the current order is returned when nothing better is found.
+ * The current order itself is also improved with 2-opt, so a hand-made order is never made worse.
+ */
+export function optimizeStopOrder(stops: Stop[], options: RouteOptimizationOptions = {}): RouteOptimization {
+  const distance = options.distance ?? distanceMeters;
+  const startTime = options.startTime ?? Date.now();
+  const start = options.start ?? null;
+
+  // A delivery can only be placed if its order's pickups are placed too
+  const unlocatedOrders = new Set(
+    stops.filter((s) => !hasCoordinates(s) && s.type === 'PICKUP' && s.transportOrderId).map((s) => s.transportOrderId)
+  );
+  const located = stops.filter(
+    (s): s is Stop & LatLng =>
+      hasCoordinates(s) && !(s.type === 'DELIVERY' && s.transportOrderId && unlocatedOrders.has(s.transportOrderId))
+  );
+  const unplaced = stops.filter((s) => !located.includes(s as Stop & LatLng));
+  const n = located.length;
+
+  const matrix = located.map((a) => located.map((b) => distance(a, b)));
+  const fromStart = located.map((s) => (start ? distance(start, s) : 0));
+  const windowStart = located.map((s) => toTime(s.windowStart));
+  const windowEnd = located.map((s) => toTime(s.windowEnd));
+  // Stops (indexes) that must come before each stop: the pickups of its order
+  const predecessors = located.map((stop) =>
+    stop.type === 'DELIVERY' && stop.transportOrderId
+      ? located.flatMap((other, j) =>
+          other.type === 'PICKUP' && other.transportOrderId === stop.transportOrderId ? [j] : []
+        )
+      : []
+  );
+  const msPerMeter = 3600 / ESTIMATED_SPEED_KMH;
+
+  const legMeters = (from: number | null, to: number) => (from == null ? fromStart[to] : matrix[from][to]);
+
+  const hasWindows = located.some((_, i) => windowStart[i] != null || windowEnd[i] != null);
+
+  /** Drives from the previous stop (null: the start) to stop and serves it, updating state in place */
+  const visit = (state: RouteState, from: number | null, stop: number) => {
+    const leg = legMeters(from, stop);
+    state.meters += leg;
+    state.time += leg * msPerMeter;
+    const opens = windowStart[stop];
+    if (opens != null && state.time < opens) state.time = opens;
+    const closes = windowEnd[stop];
+    if (closes != null && state.time > closes) {
+      state.lateMs += state.time - closes;
+      state.lateStops += 1;
+    }
+    state.time += SERVICE_TIME_MS;
+  };
+
+  /** State before each position of the order; the last entry is the cost of the whole route */
+  const progress = (order: number[]): RouteState[] => {
+    const states: RouteState[] = [{ lateMs: 0, lateStops: 0, meters: 0, time: startTime }];
+    order.forEach((stop, i) => {
+      const state = { ...states[i] };
+      visit(state, i === 0 ? null : order[i - 1], stop);
+      states.push(state);
+    });
+    return states;
+  };
+
+  const evaluate = (order: number[]): RouteCost => progress(order)[order.length];
+
+  const respectsPickups = (order: number[]): boolean => {
+    const position = new Array<number>(n);
+    order.forEach((stop, i) => (position[stop] = i));
+    return order.every((stop) => predecessors[stop].every((p) => position[p] < position[stop]));
+  };
+
+  const nearestNeighbour = (first: number | null): number[] => {
+    const order: number[] = [];
+    const placed = new Set<number>();
+    const state: RouteState = { lateMs: 0, lateStops: 0, meters: 0, time: startTime };
+    while (order.length < n) {
+      const previous = order.length ? order[order.length - 1] : null;
+      const ready = located
+        .map((_, i) => i)
+        .filter((i) => !placed.has(i) && predecessors[i].every((p) => placed.has(p)));
+      let next: number;
+      if (order.length === 0 && first != null) {
+        next = first;
+      } else {
+        const arrival = (i: number) => state.time + legMeters(previous, i) * msPerMeter;
+        const onTime = ready.filter((i) => windowEnd[i] == null || arrival(i) <= (windowEnd[i] as number));
+        next = onTime.length
+          ? onTime.reduce((best, i) => (legMeters(previous, i) < legMeters(previous, best) ? i : best))
+          : // Everything left would be late: the most urgent window first
+            ready.reduce((best, i) => ((windowEnd[i] ?? Infinity) < (windowEnd[best] ?? Infinity) ? i : best));
+      }
+      visit(state, previous, next);
+      order.push(next);
+      placed.add(next);
+    }
+    return order;
+  };
+
+  /**
+   * 2-opt over a valid order. Reversing best[i..j] only changes the two legs around the segment and the
+   * direction of the legs inside it, so the distance of each candidate is known in O(1); with time
+   * windows the route is re-simulated from position i.
+   */
+  const twoOpt = (initial: number[]): number[] => {
+    const best = [...initial];
+    const position = new Array<number>(n);
+    let states: RouteState[] = [];
+    const reindex = () => {
+      best.forEach((stop, i) => (position[stop] = i));
+      states = progress(best);
+    };
+    reindex();
+
+    // Cost of best with best[i..j] reversed, driven from the state before position i
+    const simulateReversal = (i: number, j: number): RouteCost => {
+      const state = { ...states[i] };
+      let previous = i === 0 ? null : best[i - 1];
+      for (let k = i; k < n; k++) {
+        const stop = k <= j ? best[i + j - k] : best[k];
+        visit(state, previous, stop);
+        previous = stop;
+      }
+      return state;
+    };
+
+    for (let pass = 0; pass < MAX_TWO_OPT_PASSES; pass++) {
+      let improved = false;
+      for (let i = 0; i < n - 1; i++) {
+        const before = i === 0 ? null : best[i - 1];
+        // Metres inside the segment as driven now and reversed
+        let forward = 0;
+        let backward = 0;
+        for (let j = i + 1; j < n; j++) {
+          const last = best[j];
+          // A delivery cannot be reversed ahead of its own pickup; longer segments still contain both
+          if (predecessors[last].some((p) => position[p] >= i)) break;
+          forward += matrix[best[j - 1]][last];
+          backward += matrix[last][best[j - 1]];
+          const bestCost = states[n];
+          const after = j + 1 < n ? best[j + 1] : null;
+          const meters =
+            bestCost.meters -
+            legMeters(before, best[i]) +
+            legMeters(before, last) -
+            forward +
+            backward +
+            (after == null ? 0 : matrix[best[i]][after] - matrix[last][after]);
+          const cost = hasWindows ? simulateReversal(i, j) : { lateMs: 0, lateStops: 0, meters };
+          if (isBetter(cost, bestCost)) {
+            best.splice(i, j - i + 1, ...best.slice(i, j + 1).reverse());
+            reindex();
+            improved = true;
+            break;
+          }
+        }
+      }
+      if (!improved) break;
+    }
+    return best;
+  };
+
+  /**
+   * Likely first stops when the route has no fixed start: the most urgent windows, then the stops
+   * farthest from the rest (a route without a start is usually best begun at one of its ends).
+   */
+  const pickFirstStops = (eligible: number[]): number[] => {
+    const spread = eligible.map((i) => matrix[i].reduce((sum, meters) => sum + meters, 0));
+    return eligible
+      .map((stop, k) => ({ stop, closes: windowEnd[stop] ?? Infinity, spread: spread[k] }))
+      .sort((a, b) => a.closes - b.closes || b.spread - a.spread)
+      .slice(0, MAX_FIRST_STOPS)
+      .map((entry) => entry.stop);
+  };
+
+  const current = located.map((_, i) => i);
+  const currentCost = evaluate(current);
+  // A hand-made order with a delivery before its pickup is replaced by any valid one
+  const currentValid = respectsPickups(current);
+  let best = current;
+  let bestCost = currentValid ? currentCost : { lateMs: Infinity, lateStops: Infinity, meters: Infinity };
+  if (n > 1) {
+    // With a known start the first stop follows from it; otherwise try a few stops that can go first
+    const firsts = start ? [null] : pickFirstStops(current.filter((i) => predecessors[i].length === 0));
+    const candidates = [
+      ...(currentValid ? [twoOpt(current)] : []),
+      ...firsts.map((first) => twoOpt(nearestNeighbour(first))),
+    ];
+    for (const order of candidates) {
+      const cost = evaluate(order);
+      if (isBetter(cost, bestCost)) {
+        best = order;
+        bestCost = cost;
+      }
+    }
+  }
+
+  const changed = best !== current;
+  return {
+    stops: changed ? [...best.map((i) => located[i]), ...unplaced] : stops,
+    unplaced,
+    beforeMeters: currentCost.meters,
+    afterMeters: bestCost.meters,
+    lateBefore: currentCost.lateStops,
+    lateAfter: bestCost.lateStops,
+    changed,
+  };
+}
@@ -0,0 +1,326 @@
+import React, { Component, ReactNode, useCallback, useMemo, useRef, useState } from 'react';
+import { View, StyleSheet, FlatList, Text, Alert, RefreshControl } from 'react-native';
+import MapView, { Marker, PROVIDER_GOOGLE, Region } from 'react-native-maps';
+import { BottomTabScreenProps } from '@react-navigation/bottom-tabs';
+import { useIsFocused } from '@react-navigation/native';
+import { useQuery } from '@tanstack/react-query';
+import { AdminTabsParamList } from '../../app/navigation/AdminTabs';
+import { getDriverLocations, DriverLocation } from '../../api/admin';
+import { getDrivers } from '../../api/drivers';
+import { getTransportTrips } from '../../api/transport';
+import Screen from '../../shared/ui/Screen';
+import TabScreenContainer from '../../shared/ui/TabScreenContainer';
+import Card from '../../shared/ui/Card';
+import AppText from '../../shared/ui/AppText';
+import Button from '../../shared/ui/Button';
+import { theme } from '../../shared/theme/theme';
+import { createLogger } from '../../shared/utils/logger';
+import { regionForLocations } from '../../shared/utils/geo';
+import {
+  DriverCluster,
+  clusterDriverLocations,
+  findCurrentTripId,
+  formatAge,
+  formatSpeed,
+  getFreshness,
+  getFreshnessColor,
+} from './fleetMapHelpers';
+
+type Props = BottomTabScreenProps<AdminTabsParamList, 'FleetTab'>;
+
+const POLL_INTERVAL_MS = 10 * 1000;
+
+const SINGAPORE_REGION: Region = {
+  latitude: 1.3521,
+  longitude: 103.8198,
+  latitudeDelta: 0.3,
+  longitudeDelta: 0.3,
+};
+
+const log = createLogger('fleetMap');
+
+/** Falls back to the list when the native map cannot render (e.g. missing Google Maps key / module) */
+class MapErrorBoundary extends Component<{ fallback: ReactNode; children: ReactNode }, { failed: boolean }> {
+  state = { failed: false };
+
+  static getDerivedStateFromError() {
+    return { failed: true };
+  }
+
+  componentDidCatch(error: unknown) {
+    log.warn('Fleet map unavailable, showing list', error);
+  }
+
+  render() {
+    return this.state.failed ? this.props.fallback : this.props.children;
+  }
+}
+
+export default function FleetMapScreen({ navigation }: Props) {
+  const isFocused = useIsFocused();
+  const mapRef = useRef<MapView | null>(null);
+  const [view, setView] = useState<'map' | 'list'>('map');
+  const [region, setRegion] = useState<Region | null>(null);
+  const [today] = useState(() => new Date());
+
+  const {
+    data: locations = [],
+    isLoading,
+    error,
+    refetch,
+    isRefetching,
+  } = useQuery({
+    queryKey: ['driverLocations'],
+    queryFn: getDriverLocations,
+    refetchInterval: isFocused ? POLL_INTERVAL_MS : false,
+  });
+  const { data: drivers = [] } = useQuery({ queryKey: ['drivers'], queryFn: getDrivers });
+  const { data: trips = [] } = useQuery({
+    queryKey: ['transportTrips', today.toISOString().slice(0, 10)],
+    queryFn: () => getTransportTrips(today),
+    refetchInterval: isFocused ? POLL_INTERVAL_MS * 6 : false,
+  });
+
+  const initialRegion = useMemo(() => regionForLocations(locations) ?? SINGAPORE_REGION, [locations]);
+  const clusters = useMemo(
+    () => clusterDriverLocations(locations, region ?? initialRegion),
+    [locations, region, initialRegion]
+  );
+
+  const openDriverTrip = useCallback(
+    (location: DriverLocation) => {
+      const tripId = findCurrentTripId(location, trips, drivers);
+      if (!tripId) {
+        Alert.alert(location.driverLabel, 'This driver has no active trip right now.');
+        return;
+      }
+      navigation.navigate('TripsTab', { screen: 'TripDetail', params: { tripId } });
+    },
+    [trips, drivers, navigation]
+  );
+
+  const zoomToCluster = (cluster: DriverCluster) => {
+    const next = regionForLocations(cluster.drivers);
+    if (next) mapRef.current?.animateToRegion(next, 400);
+  };
+
+  const renderListItem = ({ item }: { item: DriverLocation }) => {
+    const color = getFreshnessColor(getFreshness(item));
+    const speed = formatSpeed(item.speed);
+    return (
+      <Card onPress={() => openDriverTrip(item)} style={styles.driverCard}>
+        <View style={styles.driverRow}>
+          <View style={[styles.freshnessDot, { backgroundColor: color }]} />
+          <View style={styles.driverInfo}>
+            <AppText variant="body" weight="semibold" color="text">
+              {item.driverLabel}
+            </AppText>
+            <AppText variant="caption" color="textSecondary">
+              Updated {formatAge(item.updatedAt)}
+              {speed ? ` · ${speed}` : ''}
+            </AppText>
+          </View>
+          {item.heading != null && (
+            <Text style={[styles.listArrow, { transform: [{ rotate: `${item.heading}deg` }] }]}>▲</Text>
+          )}
+        </View>
+      </Card>
+    );
+  };
+
+  const list = (
+    <FlatList
+      data={[...locations].sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))}
+      renderItem={renderListItem}
+      keyExtractor={(item) => item.driverUserId}
+      contentContainerStyle={styles.list}
+      refreshControl={<RefreshControl refreshing={isRefetching} onRefresh={refetch} />}
+      ListEmptyComponent={
+        <AppText variant="body" color="textSecondary" style={styles.emptyText}>
+          No driver locations reported yet.
+        </AppText>
+      }
+    />
+  );
+
+  if (isLoading) {
+    return (
+      <Screen>
+        <View style={styles.center}>
+          <AppText variant="body" color="textSecondary">
+            Loading driver locations...
+          </AppText>
+        </View>
+      </Screen>
+    );
+  }
+
+  if (error && locations.length === 0) {
+    return (
+      <Screen>
+        <View style={styles.center}>
+          <AppText variant="body" color="error" style={styles.emptyText}>
+            Error loading driver locations: {(error as Error).message}
+          </AppText>
+          <Button title="Retry" onPress={() => refetch()} style={styles.retryButton} />
+        </View>
+      </Screen>
+    );
+  }
+
+  return (
+    <TabScreenContainer>
+      <View style={styles.legend}>
+        {(['live', 'recent', 'stale'] as const).map((f) => (
+          <View key={f} style={styles.legendItem}>
+            <View style={[styles.freshnessDot, { backgroundColor: getFreshnessColor(f) }]} />
+            <AppText variant="caption" color="textSecondary">
+              {f === 'live' ? '< 2 min' : f === 'recent' ? '< 10 min' : 'Older'}
+            </AppText>
+          </View>
+        ))}
+        <Button
+          title={view === 'map' ? 'List' : 'Map'}
+          size="sm"
+          variant="outline"
+          onPress={() => setView((v) => (v === 'map' ? 'list' : 'map'))}
+        />
+      </View>
+      {view === 'list' ? (
+        list
+      ) : (
+        <MapErrorBoundary fallback={list}>
+          <MapView
+            ref={mapRef}
+            provider={PROVIDER_GOOGLE}
+            style={styles.map}
+            initialRegion={initialRegion}
+            onRegionChangeComplete={setRegion}>
+            {clusters.map((cluster) => {
+              if (cluster.drivers.length > 1) {
+                return (
+                  <Marker
+                    key={cluster.id}
+                    coordinate={{ latitude: cluster.latitude, longitude: cluster.longitude }}
+                    onPress={() => zoomToCluster(cluster)}>
+                    <View style={styles.cluster}>
+                      <Text style={styles.clusterText}>{cluster.drivers.length}</Text>
+                    </View>
+                  </Marker>
+                );
+              }
+              const driver = cluster.drivers[0];
+              const color = getFreshnessColor(getFreshness(driver));
+              const speed = formatSpeed(driver.speed);
+              return (
+                <Marker
+                  key={cluster.id}
+                  coordinate={{ latitude: driver.lat, longitude: driver.lng }}
+                  title={driver.driverLabel}
+                  description={`Updated ${formatAge(driver.updatedAt)}${speed ? ` · ${speed}` : ''} · Tap for trip`}
+                  anchor={{ x: 0.5, y: 0.5 }}
+                  onCalloutPress={() => openDriverTrip(driver)}>
+                  <View style={[styles.driverMarker, { backgroundColor: color }]}>
+                    <Text
+                      style={[
+                        styles.markerArrow,
+                        { transform: [{ rotate: `${driver.heading ?? 0}deg` }] },
+                        driver.heading == null && styles.markerArrowHidden,
+                      ]}>
+                      ▲
+                    </Text>
+                  </View>
+                </Marker>
+              );
+            })}
+          </MapView>
+        </MapErrorBoundary>
+      )}
+    </TabScreenContainer>
+  );
+}
+
+const styles = StyleSheet.create({
+  center: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: theme.spacing.lg,
+  },
+  retryButton: {
+    marginTop: theme.spacing.md,
+  },
+  legend: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: theme.spacing.md,
+    paddingVertical: theme.spacing.sm,
+    backgroundColor: theme.colors.surface,
+  },
+  legendItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: theme.spacing.xs,
+  },
+  map: {
+    flex: 1,
+  },
+  list: {
+    padding: theme.spacing.md,
+  },
+  emptyText: {
+    textAlign: 'center',
+  },
+  driverCard: {
+    marginBottom: theme.spacing.sm,
+  },
+  driverRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  driverInfo: {
+    flex: 1,
+    marginLeft: theme.spacing.sm,
+  },
+  freshnessDot: {
+    width: 10,
+    height: 10,
+    borderRadius: 5,
+  },
+  listArrow: {
+    fontSize: 16,
+    color: theme.colors.textSecondary,
+  },
+  driverMarker: {
+    width: 28,
+    height: 28,
+    borderRadius: 14,
+    borderWidth: 2,
+    borderColor: theme.colors.white,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  markerArrow: {
+    fontSize: 12,
+    color: theme.colors.white,
+  },
+  markerArrowHidden: {
+    opacity: 0,
+  },
+  cluster: {
+    minWidth: 36,
+    height: 36,
+    borderRadius: 18,
+    paddingHorizontal: theme.spacing.xs,
+    backgroundColor: theme.colors.primary,
+    borderWidth: 2,
+    borderColor: theme.colors.white,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  clusterText: {
+    color: theme.colors.white,
+    fontWeight: 'bold',
+  },
+});
@@ -0,0 +1,96 @@
+import { Region } from 'react-native-maps';
+import { DriverLocation } from '../../api/admin';
+import { Driver } from '../../api/drivers';
+import { STALE_PING_MS } from '../../api/dashboard';
+import { Trip } from '../../api/types';
+import { theme } from '../../shared/theme/theme';
+
+export type LocationFreshness = 'live' | 'recent' | 'stale';
+
+/** Updated within this window counts as live */
+const LIVE_PING_MS = 2 * 60 * 1000;
+/** Markers closer than 1/CLUSTER_GRID of the visible span are grouped */
+const CLUSTER_GRID = 8;
+
+const ACTIVE_TRIP_STATUSES = ['dispatched', 'intransit'];
+
+export interface DriverCluster {
+  /** Stable key: the driver id for single markers */
+  id: string;
+  latitude: number;
+  longitude: number;
+  drivers: DriverLocation[];
+}
+
+export function getFreshness(location: DriverLocation, now: number = Date.now()): LocationFreshness {
+  const age = now - new Date(location.updatedAt).getTime();
+  if (!Number.isFinite(age) || age > STALE_PING_MS) return 'stale';
+  return age <= LIVE_PING_MS ? 'live' : 'recent';
+}
+
+export function getFreshnessColor(freshness: LocationFreshness): string {
+  switch (freshness) {
+    case 'live':
+      return theme.colors.success;
+    case 'recent':
+      return theme.colors.warning;
+    default:
+      return theme.colors.error;
+  }
+}
+
+/** "just now", "4 min ago", "2 h ago" */
+export function formatAge(updatedAt: string, now: number = Date.now()): string {
+  const seconds = Math.floor((now - new Date(updatedAt).getTime()) / 1000);
+  if (!Number.isFinite(seconds)) return 'unknown';
+  if (seconds < 60) return 'just now';
+  const minutes = Math.floor(seconds / 60);
+  if (minutes < 60) return `${minutes} min ago`;
+  return `${Math.floor(minutes / 60)} h ago`;
+}
+
+/** Speed is reported in km/h (the driver app converts before sending) */
+export function formatSpeed(speed: number | undefined): string | null {
+  if (speed == null || speed < 0) return null;
+  return `${Math.round(speed)} km/h`;
+}
+
+/**
+ * Grid clustering over the visible region: drivers in the same cell become one marker placed at
+ * their average position. Zooming in shrinks the cells, so clusters split up.
+ */
+export function clusterDriverLocations(locations: DriverLocation[], region: Region): DriverCluster[] {
+  const cellLat = region.latitudeDelta / CLUSTER_GRID;
+  const cellLng = region.longitudeDelta / CLUSTER_GRID;
+  const cells = new Map<string, DriverLocation[]>();
+  for (const location of locations) {
+    const key = `${Math.floor(location.lat / cellLat)}:${Math.floor(location.lng / cellLng)}`;
+    const cell = cells.get(key);
+    if (cell) cell.push(location);
+    else cells.set(key, [location]);
+  }
+  return [...cells.entries()].map(([key, drivers]) => ({
+    id: drivers.length === 1 ? drivers[0].driverUserId : `cluster-${key}`,
+    latitude: drivers.reduce((sum, d) => sum + d.lat, 0) / drivers.length,
+    longitude: drivers.reduce((sum, d) => sum + d.lng, 0) / drivers.length,
+    drivers,
+  }));
+}
+
+/**
+ * The driver's current trip: driver.currentTripId when set, else today's active trip assigned to
+ * the driver (matched by user id, or by the driver record found via id / display name).
+ */
+export function findCurrentTripId(location: DriverLocation, trips: Trip[], drivers: Driver[]): string | null {
+  const driver =
+    drivers.find((d) => d.id === location.driverUserId) ?? drivers.find((d) => d.name === location.driverLabel);
+  if (driver?.currentTripId) return driver.currentTripId;
+  const driverIds = [location.driverUserId, driver?.id].filter(Boolean);
+  const active = trips.filter(
+    (t) =>
+      t.driverId &&
+      driverIds.includes(t.driverId) &&
+      ACTIVE_TRIP_STATUSES.includes(t.status.toLowerCase().replace(/\s+/g, ''))
+  );
+  return active[0]?.id ?? null;
+}
@@ -1,9 +1,7 @@
-import React, { useState, useCallback, useEffect } from 'react';
+import React, { useState, useCallback, useRef } from 'react';
 import {
   View,
   StyleSheet,
-  Pressable,
-  TextInput,
   TouchableOpacity,
   ActivityIndicator,
   LayoutAnimation,
@@ -17,10 +15,9 @@ import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
 import { useFocusEffect } from '@react-navigation/native';
 import { NativeStackScreenProps } from '@react-navigation/native-stack';
 import { OrdersStackParamList } from '../../app/navigation/AdminTabs';
-import { createOrder, isDuplicateOrderRefError } from '../../api/orders';
-import { CreateOrderRequest, OrderStop, InventoryItem } from '../../api/types';
+import { createOrder, isDuplicateOrderRefError, isMaybeCommittedOrderError } from '../../api/orders';
+import { CreateOrderRequest, Order, InventoryItem, StopType } from '../../api/types';
 import { getErrorMessage } from '../../api/client';
-import { searchPlacesAutocomplete, getPlaceDetails } from '../../api/places';
 import { getInventoryItems } from '../../api/inventory';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import Card from '../../shared/ui/Card';
@@ -28,12 +25,21 @@ import Input from '../../shared/ui/Input';
 import Button from '../../shared/ui/Button';
 import AppText from '../../shared/ui/AppText';
 import { theme } from '../../shared/theme/theme';
+import { OrderStopForm } from './components';
+import {
+  StopDraft,
+  StopDraftErrors,
+  initialStopDrafts,
+  isStopDraftComplete,
+  newStopDraft,
+  toOrderStop,
+  validateStopDrafts,
+} from './orderStopDrafts';
 
 if (Platform.OS === 'android' && UIManager.setLayoutAnimationEnabledExperimental) {
   UIManager.setLayoutAnimationEnabledExperimental(true);
 }
 
-const POSTAL_CODE_REGEX = /^\d{6}$/;
 const CARD_RADIUS = 18;
 const ELEVATION_LOW = 1;
 const FOOTER_GAP_ABOVE_TAB = 8;
@@ -41,6 +47,11 @@ const FOOTER_GAP_ABOVE_TAB = 8;
 /** Crockford base32 (0-9 A-V) for short unique suffix */
 const ULID_CHARS = '0123456789ABCDEFGHJKMNPQRSTVWXYZ';
 
+/** One Idempotency-Key per orderRef: resubmitting the same order can never create it twice */
+function orderIdempotencyKey(ref: string): string {
+  return `create-order-${ref}`;
+}
+
 function genOrderRef(): string {
   const d = new Date();
   const yyyymmdd = d.getFullYear() + String(d.getMonth() + 1).padStart(2, '0') + String(d.getDate()).padStart(2, '0');
@@ -51,17 +62,12 @@ function genOrderRef(): string {
   return `OF-SG-${yyyymmdd}-${short}`;
 }
 
-function defaultPlannedAt(): string {
-  const d = new Date();
-  return `${d.toISOString().slice(0, 10)}T12:00:00`;
-}
-
 type Props = NativeStackScreenProps<OrdersStackParamList, 'CreateOrder'>;
 
 interface FormErrors {
   customerName?: string;
-  addressLine1?: string;
-  postalCode?: string;
+  /** Problems with the stop list as a whole (per-stop errors are in stopErrors) */
+  stops?: string;
   _submit?: string;
 }
 
@@ -76,19 +82,14 @@ export default function CreateOrderScreen({ navigation }: Props) {
   const dateKey = new Date().toISOString().slice(0, 10);
 
   const [orderRef, setOrderRef] = useState(() => genOrderRef());
+  /** orderRef whose last submission may have been created (connection dropped before the response) */
+  const maybeCreatedRefRef = useRef<string | null>(null);
   const [, setSubmitting] = useState(false);
   const [customerName, setCustomerName] = useState('');
-  const [addressSearchQuery, setAddressSearchQuery] = useState('');
-  const [addressLine1, setAddressLine1] = useState('');
-  const [postalCode, setPostalCode] = useState('');
-
-  const [postalCodeFromGoogle, setPostalCodeFromGoogle] = useState(false);
-  const [floor, setFloor] = useState('');
-  const [unit, setUnit] = useState('');
-  const [notes, setNotes] = useState('');
-  const [showAddressSuggestions, setShowAddressSuggestions] = useState(false);
+  const [stops, setStops] = useState<StopDraft[]>(initialStopDrafts);
 
   const [errors, setErrors] = useState<FormErrors>({});
+  const [stopErrors, setStopErrors] = useState<Record<string, StopDraftErrors>>({});
   const [toast, setToast] = useState<{ visible: boolean; message: string }>({ visible: false, message: '' });
 
   const [lineItems, setLineItems] = useState<LineItem[]>([]);
@@ -103,15 +104,9 @@ export default function CreateOrderScreen({ navigation }: Props) {
   const resetForm = useCallback((assignNewOrderRef = false) => {
     if (assignNewOrderRef) setOrderRef(genOrderRef());
     setCustomerName('');
-    setAddressSearchQuery('');
-    setAddressLine1('');
-    setPostalCode('');
-    setPostalCodeFromGoogle(false);
-    setFloor('');
-    setUnit('');
-    setNotes('');
-    setShowAddressSuggestions(false);
+    setStops(initialStopDrafts());
     setErrors({});
+    setStopErrors({});
     setToast({ visible: false, message: '' });
     setLineItems([]);
     setInventorySearch('');
@@ -133,19 +128,6 @@ export default function CreateOrderScreen({ navigation }: Props) {
     },
   });
 
-  const [debouncedAddressQuery, setDebouncedAddressQuery] = useState('');
-  useEffect(() => {
-    const t = setTimeout(() => setDebouncedAddressQuery(addressSearchQuery), 300);
-    return () => clearTimeout(t);
-  }, [addressSearchQuery]);
-
-  const { data: addressSuggestions = [], isFetching: addressSearching } = useQuery({
-    queryKey: ['placesAutocomplete', debouncedAddressQuery],
-    queryFn: () => searchPlacesAutocomplete(debouncedAddressQuery),
-    enabled: debouncedAddressQuery.length >= 2,
-    staleTime: 60 * 1000,
-  });
-
   const { data: inventoryResults = [], isFetching: inventorySearching } = useQuery({
     queryKey: ['inventoryItems', inventorySearch],
     queryFn: () => getInventoryItems(inventorySearch),
@@ -163,34 +145,41 @@ export default function CreateOrderScreen({ navigation }: Props) {
     }
   }, [orderRef]);
 
-  const handleSelectAddress = useCallback(
-    async (placeId: string) => {
-      setShowAddressSuggestions(false);
-      setAddressSearchQuery('');
-      const details = await getPlaceDetails(placeId);
-      if (details) {
-        LayoutAnimation.configureNext(LayoutAnimation.Presets.easeInEaseOut);
-        setAddressLine1(details.formattedAddress);
-        if (details.postalCode) {
-          setPostalCode(details.postalCode);
-          setPostalCodeFromGoogle(true);
-        } else {
-          setPostalCodeFromGoogle(false);
-        }
-        setErrors((e) => ({ ...e, addressLine1: undefined, postalCode: undefined }));
-      }
-    },
-    []
-  );
+  const updateStop = useCallback((key: string, patch: Partial<StopDraft>) => {
+    setStops((prev) => prev.map((s) => (s.key === key ? { ...s, ...patch } : s)));
+    setStopErrors((prev) => {
+      if (!prev[key]) return prev;
+      const cleared = { ...prev[key] };
+      if ('addressLine1' in patch) delete cleared.addressLine1;
+      if ('postalCode' in patch) delete cleared.postalCode;
+      if ('slot' in patch) delete cleared.slot;
+      if ('type' in patch) delete cleared.sequence;
+      return { ...prev, [key]: cleared };
+    });
+  }, []);
+
+  const addStop = useCallback((type: StopType) => {
+    LayoutAnimation.configureNext(LayoutAnimation.Presets.easeInEaseOut);
+    setStops((prev) => [...prev, newStopDraft(type)]);
+    setErrors((e) => ({ ...e, stops: undefined }));
+  }, []);
 
-  const addressLine2 = React.useMemo(() => {
-    const f = floor.trim();
-    const u = unit.trim();
-    if (f && u) return `#${f}-${u}`;
-    if (f) return `#${f}`;
-    if (u) return `Unit: ${u}`;
-    return undefined;
-  }, [floor, unit]);
+  const removeStop = useCallback((key: string) => {
+    LayoutAnimation.configureNext(LayoutAnimation.Presets.easeInEaseOut);
+    setStops((prev) => prev.filter((s) => s.key !== key));
+  }, []);
+
+  const moveStop = useCallback((key: string, delta: number) => {
+    LayoutAnimation.configureNext(LayoutAnimation.Presets.easeInEaseOut);
+    setStops((prev) => {
+      const from = prev.findIndex((s) => s.key === key);
+      const to = from + delta;
+      if (from < 0 || to < 0 || to >= prev.length) return prev;
+      const next = [...prev];
+      [next[from], next[to]] = [next[to], next[from]];
+      return next;
+    });
+  }, []);
 
   const addLineItem = useCallback((item: InventoryItem) => {
     LayoutAnimation.configureNext(LayoutAnimation.Presets.easeInEaseOut);
@@ -223,47 +212,29 @@ export default function CreateOrderScreen({ navigation }: Props) {
     setLineItems((prev) => prev.filter((l) => l.inventoryItemId !== inventoryItemId));
   }, []);
 
-  const isFormValid =
-    customerName.trim().length > 0 &&
-    addressLine1.trim().length > 0 &&
-    postalCode.trim().length > 0 &&
-    POSTAL_CODE_REGEX.test(postalCode.trim());
+  const isFormValid = customerName.trim().length > 0 && stops.every(isStopDraftComplete);
 
   const validate = useCallback((): boolean => {
     const newErrors: FormErrors = {};
     if (!customerName.trim()) newErrors.customerName = 'Customer name is required';
-    if (!addressLine1.trim()) newErrors.addressLine1 = 'Address is required';
-    if (!postalCode.trim()) {
-      newErrors.postalCode = 'Postal code is required';
-    } else if (!POSTAL_CODE_REGEX.test(postalCode.trim())) {
-      newErrors.postalCode = 'Postal code must be exactly 6 digits (Singapore)';
-    }
+    if (!stops.some((s) => s.type === 'DELIVERY')) newErrors.stops = 'Add at least one delivery';
+    const newStopErrors = validateStopDrafts(stops);
     setErrors(newErrors);
-    return Object.keys(newErrors).length === 0;
-  }, [customerName, addressLine1, postalCode]);
+    setStopErrors(newStopErrors);
+    return Object.keys(newErrors).length === 0 && Object.keys(newStopErrors).length === 0;
+  }, [customerName, stops]);
 
   const buildPayload = useCallback(
-    (ref: string): CreateOrderRequest => {
-      const stop: OrderStop = {
-        type: 'DELIVERY',
-        addressLine1: addressLine1.trim(),
-        addressLine2: addressLine2 || undefined,
-        postalCode: postalCode.trim(),
-        city: 'Singapore',
-        country: 'SG',
-        plannedAt: defaultPlannedAt(),
-      };
-      return {
-        orderRef: ref,
-        customerName: customerName.trim(),
-        stops: [stop],
-        items:
-          lineItems.length > 0
-            ? lineItems.map((l) => ({ inventoryItemId: l.inventoryItemId, quantity: l.quantity }))
-            : undefined,
-      };
-    },
-    [customerName, addressLine1, addressLine2, postalCode, lineItems]
+    (ref: string): CreateOrderRequest => ({
+      orderRef: ref,
+      customerName: customerName.trim(),
+      stops: stops.map(toOrderStop),
+      items:
+        lineItems.length > 0
+          ? lineItems.map((l) => ({ inventoryItemId: l.inventoryItemId, quantity: l.quantity }))
+          : undefined,
+    }),
+    [customerName, stops, lineItems]
   );
 
   const handleSubmit = useCallback(async () => {
@@ -271,38 +242,41 @@ export default function CreateOrderScreen({ navigation }: Props) {
     setErrors((e) => ({ ...e, _submit: undefined }));
     setSubmitting(true);
     let payload = buildPayload(orderRef);
-    try {
-      const createdOrder = await createOrder(payload);
+    const onCreated = (createdOrder: Order) => {
+      maybeCreatedRefRef.current = null;
       setSubmitting(false);
       invalidateAfterCreate();
       setToast({ visible: true, message: 'Order created' });
       (navigation as { replace: (screen: string, params: { orderId: string }) => void }).replace('OrderDetail', { orderId: createdOrder.id });
+    };
+    const onFailed = (failure: unknown) => {
+      if (isMaybeCommittedOrderError(failure)) maybeCreatedRefRef.current = payload.orderRef;
+      setSubmitting(false);
+      setErrors((e) => ({ ...e, _submit: getErrorMessage(failure) }));
+      setToast({ visible: true, message: getErrorMessage(failure) });
+    };
+    try {
+      onCreated(await createOrder(payload, { idempotencyKey: orderIdempotencyKey(orderRef) }));
     } catch (err) {
-      if (isDuplicateOrderRefError(err)) {
+      if (isDuplicateOrderRefError(err) && maybeCreatedRefRef.current === orderRef) {
+        // The earlier attempt with this ref did go through; creating it again under a new ref would duplicate it
+        invalidateAfterCreate();
+        onFailed(new Error(`Order ${orderRef} was already created. Check the Orders list.`));
+      } else if (isDuplicateOrderRefError(err)) {
         const newRef = genOrderRef();
         setOrderRef(newRef);
         payload = buildPayload(newRef);
         try {
-          const createdOrder = await createOrder(payload);
-          setSubmitting(false);
-          invalidateAfterCreate();
-          setToast({ visible: true, message: 'Order created' });
-          (navigation as { replace: (screen: string, params: { orderId: string }) => void }).replace('OrderDetail', { orderId: createdOrder.id });
+          onCreated(await createOrder(payload, { idempotencyKey: orderIdempotencyKey(newRef) }));
         } catch (retryErr) {
-          setSubmitting(false);
-          setErrors((e) => ({ ...e, _submit: getErrorMessage(retryErr) }));
-          setToast({ visible: true, message: getErrorMessage(retryErr) });
+          onFailed(retryErr);
         }
       } else {
-        setSubmitting(false);
-        setErrors((e) => ({ ...e, _submit: getErrorMessage(err) }));
-        setToast({ visible: true, message: getErrorMessage(err) });
+        onFailed(err);
       }
     }
   }, [validate, isFormValid, buildPayload, orderRef, invalidateAfterCreate, navigation]);
 
-  const hasParsedAddress = addressLine1.length > 0;
-
   const cardStyle = [styles.card, { borderRadius: CARD_RADIUS }];
 
   return (
@@ -358,155 +332,47 @@ export default function CreateOrderScreen({ navigation }: Props) {
             />
           </Card>
 
-          {/* 2) Delivery card */}
-          <Card style={[styles.section, cardStyle]} padding="lg">
-            <AppText variant="label" color="textSecondary" style={styles.cardTitle}>
-              Delivery
-            </AppText>
-            <AppText variant="caption" color="textSecondary" style={styles.fieldLabel}>
-              Address (search) *
-            </AppText>
-            <View style={styles.addressSearchWrap}>
-              <TextInput
-                style={[
-                  styles.filledInput,
-                  styles.input,
-                  styles.addressSearchInput,
-                  errors.addressLine1 && styles.inputError,
-                ]}
-                placeholder="Search address (Google Places)..."
-                placeholderTextColor={theme.colors.gray500}
-                value={addressSearchQuery}
-                onChangeText={(text) => {
-                  setAddressSearchQuery(text);
-                  setShowAddressSuggestions(true);
-                }}
-                onFocus={() => addressSearchQuery.length >= 2 && setShowAddressSuggestions(true)}
-                onBlur={() => setTimeout(() => setShowAddressSuggestions(false), 200)}
-                editable={!createOrderMutation.isPending}
-              />
-              {addressSearching && (
-                <ActivityIndicator size="small" color={theme.colors.primary} style={styles.searchSpinner} />
-              )}
-            </View>
-            {showAddressSuggestions && debouncedAddressQuery.length >= 2 && (
-              <View style={styles.suggestionsList}>
-                {addressSuggestions.length === 0 && !addressSearching && (
-                  <AppText variant="caption" color="textSecondary" style={styles.suggestionItem}>
-                    No results (enter address manually below)
-                  </AppText>
-                )}
-                {addressSuggestions.slice(0, 5).map((p) => (
-                  <Pressable
-                    key={p.placeId}
-                    style={styles.suggestionItem}
-                    onPress={() => handleSelectAddress(p.placeId)}>
-                    <AppText variant="body" color="text" numberOfLines={2}>
-                      {p.description}
-                    </AppText>
-                  </Pressable>
-                ))}
-              </View>
-            )}
-
-            {hasParsedAddress && (
-              <View style={styles.parsedBlock}>
-                <View style={styles.parsedBlockHeader}>
-                  <AppText variant="caption" color="textSecondary" style={styles.parsedLabel}>
-                    Parsed address
-                  </AppText>
-                  <TouchableOpacity
-                    onPress={() => {
-                      LayoutAnimation.configureNext(LayoutAnimation.Presets.easeInEaseOut);
-                      setAddressLine1('');
-                      setPostalCode('');
-                      setPostalCodeFromGoogle(false);
-                    }}>
-                    <AppText variant="caption" color="primary">Clear</AppText>
-                  </TouchableOpacity>
-                </View>
-                <AppText variant="body" color="text" style={styles.parsedLine}>
-                  {addressLine1}
-                </AppText>
-                {postalCode ? (
-                  <AppText variant="body" color="textSecondary">
-                    {postalCode}
-                    {postalCodeFromGoogle && ' (from Google)'}
-                  </AppText>
-                ) : null}
-              </View>
-            )}
-
-            {!hasParsedAddress && (
-              <Input
-                label="Address line 1 *"
-                placeholder="Or enter street address manually"
-                value={addressLine1}
-                onChangeText={(text) => {
-                  setAddressLine1(text);
-                  setPostalCodeFromGoogle(false);
-                  if (errors.addressLine1) setErrors((e) => ({ ...e, addressLine1: undefined }));
-                }}
-                error={errors.addressLine1}
-                editable={!createOrderMutation.isPending}
-                containerStyle={styles.inputContainer}
-                style={styles.filledInput}
-              />
-            )}
-
-            <Input
-              label="Postal code *"
-              placeholder="6 digits (Singapore)"
-              value={postalCode}
-              onChangeText={(text) => {
-                if (!postalCodeFromGoogle) {
-                  setPostalCode(text);
-                  if (errors.postalCode) setErrors((e) => ({ ...e, postalCode: undefined }));
-                }
-              }}
-              error={errors.postalCode}
-              keyboardType="number-pad"
-              maxLength={6}
-              editable={!createOrderMutation.isPending && !postalCodeFromGoogle}
-              containerStyle={styles.inputContainer}
-              style={styles.filledInput}
+          {/* 2) Stops: pickups and deliveries in route order */}
+          {stops.map((stop, index) => (
+            <OrderStopForm
+              key={stop.key}
+              draft={stop}
+              position={index + 1}
+              errors={stopErrors[stop.key]}
+              disabled={createOrderMutation.isPending}
+              canMoveUp={index > 0}
+              canMoveDown={index < stops.length - 1}
+              canRemove={stops.length > 1}
+              onChange={(patch) => updateStop(stop.key, patch)}
+              onMoveUp={() => moveStop(stop.key, -1)}
+              onMoveDown={() => moveStop(stop.key, 1)}
+              onRemove={() => removeStop(stop.key)}
+              style={[styles.section, cardStyle]}
             />
-
-            <View style={styles.row}>
-              <View style={styles.half}>
-                <Input
-                  label="Floor"
-                  placeholder="e.g. 05"
-                  value={floor}
-                  onChangeText={setFloor}
-                  editable={!createOrderMutation.isPending}
-                  containerStyle={styles.inputContainer}
-                  style={styles.filledInput}
-                />
-              </View>
-              <View style={styles.half}>
-                <Input
-                  label="Unit"
-                  placeholder="e.g. 12"
-                  value={unit}
-                  onChangeText={setUnit}
-                  editable={!createOrderMutation.isPending}
-                  containerStyle={styles.inputContainer}
-                  style={styles.filledInput}
-                />
-              </View>
-            </View>
-
-            <Input
-              label="Notes (optional)"
-              placeholder="Delivery notes"
-              value={notes}
-              onChangeText={setNotes}
-              editable={!createOrderMutation.isPending}
-              containerStyle={styles.inputContainer}
-              style={styles.filledInput}
+          ))}
+          <View style={styles.addStopRow}>
+            <Button
+              title="+ Add pickup"
+              variant="outline"
+              size="sm"
+              onPress={() => addStop('PICKUP')}
+              disabled={createOrderMutation.isPending}
+              style={styles.flex1}
             />
-          </Card>
+            <Button
+              title="+ Add delivery"
+              variant="outline"
+              size="sm"
+              onPress={() => addStop('DELIVERY')}
+              disabled={createOrderMutation.isPending}
+              style={styles.flex1}
+            />
+          </View>
+          {errors.stops && (
+            <AppText variant="bodySmall" color="error" style={styles.stopsError}>
+              {errors.stops}
+            </AppText>
+          )}
 
           {/* 3) Items card */}
           <Card style={[styles.section, cardStyle]} padding="lg">
@@ -665,16 +531,6 @@ const styles = StyleSheet.create({
     backgroundColor: theme.colors.gray100,
     borderWidth: 0,
   },
-  input: {
-    borderRadius: theme.radius.md,
-    padding: theme.spacing.sm,
-    color: theme.colors.text,
-    minHeight: 48,
-  },
-  inputError: {
-    borderWidth: 1,
-    borderColor: theme.colors.error,
-  },
   fieldLabel: {
     marginBottom: theme.spacing.xs,
   },
@@ -682,51 +538,14 @@ const styles = StyleSheet.create({
     marginTop: theme.spacing.xs,
     marginBottom: theme.spacing.sm,
   },
-  addressSearchWrap: {
-    position: 'relative',
-    marginBottom: theme.spacing.sm,
-  },
-  addressSearchInput: {
-    minHeight: 52,
-    paddingRight: 40,
-  },
-  searchSpinner: {
-    position: 'absolute',
-    right: theme.spacing.sm,
-    top: 16,
-  },
-  suggestionsList: {
-    backgroundColor: theme.colors.gray100,
-    borderRadius: theme.radius.md,
+  addStopRow: {
+    flexDirection: 'row',
+    gap: theme.spacing.sm,
     marginBottom: theme.spacing.md,
-    maxHeight: 200,
-  },
-  suggestionItem: {
-    padding: theme.spacing.sm,
-    borderBottomWidth: 1,
-    borderBottomColor: theme.colors.border,
   },
-  parsedBlock: {
-    backgroundColor: theme.colors.gray100,
-    borderRadius: theme.radius.md,
-    padding: theme.spacing.sm,
+  stopsError: {
     marginBottom: theme.spacing.md,
   },
-  parsedBlockHeader: {
-    flexDirection: 'row',
-    justifyContent: 'space-between',
-    alignItems: 'center',
-    marginBottom: theme.spacing.xs,
-  },
-  parsedLabel: {},
-  parsedLine: {
-    marginBottom: theme.spacing.xs,
-  },
-  row: {
-    flexDirection: 'row',
-    gap: theme.spacing.sm,
-  },
-  half: { flex: 1 },
   inlineResults: {
     marginBottom: theme.spacing.md,
   },
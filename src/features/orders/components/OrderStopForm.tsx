@@ -0,0 +1,462 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  View,
+  StyleSheet,
+  Pressable,
+  TextInput,
+  TouchableOpacity,
+  ActivityIndicator,
+  LayoutAnimation,
+  StyleProp,
+  ViewStyle,
+} from 'react-native';
+import { useQuery } from '@tanstack/react-query';
+import { searchPlacesAutocomplete, getPlaceDetails } from '../../../api/places';
+import Card from '../../../shared/ui/Card';
+import Input from '../../../shared/ui/Input';
+import Button from '../../../shared/ui/Button';
+import AppText from '../../../shared/ui/AppText';
+import { theme } from '../../../shared/theme/theme';
+import {
+  SLOT_DAYS_AHEAD,
+  SLOT_START_HOURS,
+  StopDraft,
+  StopDraftErrors,
+  formatSlotDay,
+  formatSlotHours,
+  getSlotRange,
+} from '../orderStopDrafts';
+
+interface OrderStopFormProps {
+  draft: StopDraft;
+  /** 1-based position in the order */
+  position: number;
+  errors?: StopDraftErrors;
+  disabled?: boolean;
+  canMoveUp: boolean;
+  canMoveDown: boolean;
+  canRemove: boolean;
+  onChange: (patch: Partial<StopDraft>) => void;
+  onMoveUp: () => void;
+  onMoveDown: () => void;
+  onRemove: () => void;
+  style?: StyleProp<ViewStyle>;
+}
+
+/**
+ * One pickup / delivery stop in Create Order: type, address (Google Places search or manual),
+ * floor / unit, contact, notes and delivery slot. Address search state is local; everything that is
+ * submitted lives in the draft.
+ */
+export default function OrderStopForm({
+  draft,
+  position,
+  errors = {},
+  disabled = false,
+  canMoveUp,
+  canMoveDown,
+  canRemove,
+  onChange,
+  onMoveUp,
+  onMoveDown,
+  onRemove,
+  style,
+}: OrderStopFormProps) {
+  const [addressSearchQuery, setAddressSearchQuery] = useState('');
+  const [showAddressSuggestions, setShowAddressSuggestions] = useState(false);
+  const [slotDay, setSlotDay] = useState(draft.slot?.day ?? 0);
+
+  const [debouncedAddressQuery, setDebouncedAddressQuery] = useState('');
+  useEffect(() => {
+    const t = setTimeout(() => setDebouncedAddressQuery(addressSearchQuery), 300);
+    return () => clearTimeout(t);
+  }, [addressSearchQuery]);
+
+  const { data: addressSuggestions = [], isFetching: addressSearching } = useQuery({
+    queryKey: ['placesAutocomplete', debouncedAddressQuery],
+    queryFn: () => searchPlacesAutocomplete(debouncedAddressQuery),
+    enabled: debouncedAddressQuery.length >= 2,
+    staleTime: 60 * 1000,
+  });
+
+  const handleSelectAddress = useCallback(
+    async (placeId: string) => {
+      setShowAddressSuggestions(false);
+      setAddressSearchQuery('');
+      const details = await getPlaceDetails(placeId);
+      if (details) {
+        LayoutAnimation.configureNext(LayoutAnimation.Presets.easeInEaseOut);
+        onChange({
+          addressLine1: details.formattedAddress,
+          coords: details.lat != null && details.lng != null ? { lat: details.lat, lng: details.lng } : null,
+          ...(details.postalCode
+            ? { postalCode: details.postalCode, postalCodeFromGoogle: true }
+            : { postalCodeFromGoogle: false }),
+        });
+      }
+    },
+    [onChange]
+  );
+
+  const hasParsedAddress = draft.addressLine1.length > 0;
+  const isPickup = draft.type === 'PICKUP';
+
+  return (
+    <Card style={style} padding="lg">
+      <View style={styles.header}>
+        <AppText variant="label" color="textSecondary" style={styles.title}>
+          Stop {position} · {isPickup ? 'Pickup' : 'Delivery'}
+        </AppText>
+        <View style={styles.headerActions}>
+          <TouchableOpacity
+            onPress={onMoveUp}
+            disabled={!canMoveUp || disabled}
+            style={styles.headerBtn}
+            accessibilityLabel="Move stop up">
+            <AppText variant="body" color={canMoveUp ? 'primary' : 'textSecondary'}>
+              ↑
+            </AppText>
+          </TouchableOpacity>
+          <TouchableOpacity
+            onPress={onMoveDown}
+            disabled={!canMoveDown || disabled}
+            style={styles.headerBtn}
+            accessibilityLabel="Move stop down">
+            <AppText variant="body" color={canMoveDown ? 'primary' : 'textSecondary'}>
+              ↓
+            </AppText>
+          </TouchableOpacity>
+          {canRemove && (
+            <TouchableOpacity onPress={onRemove} disabled={disabled} style={styles.headerBtn}>
+              <AppText variant="body" color="error">
+                Remove
+              </AppText>
+            </TouchableOpacity>
+          )}
+        </View>
+      </View>
+
+      <View style={styles.chipRow}>
+        <Button
+          title="Pickup"
+          size="sm"
+          variant={isPickup ? 'primary' : 'outline'}
+          onPress={() => onChange({ type: 'PICKUP' })}
+          disabled={disabled}
+        />
+        <Button
+          title="Delivery"
+          size="sm"
+          variant={!isPickup ? 'primary' : 'outline'}
+          onPress={() => onChange({ type: 'DELIVERY' })}
+          disabled={disabled}
+        />
+      </View>
+      {errors.sequence && (
+        <AppText variant="caption" color="error" style={styles.helperText}>
+          {errors.sequence}
+        </AppText>
+      )}
+
+      <AppText variant="caption" color="textSecondary" style={styles.fieldLabel}>
+        Address (search) *
+      </AppText>
+      <View style={styles.addressSearchWrap}>
+        <TextInput
+          style={[
+            styles.filledInput,
+            styles.input,
+            styles.addressSearchInput,
+            errors.addressLine1 && styles.inputError,
+          ]}
+          placeholder="Search address (Google Places)..."
+          placeholderTextColor={theme.colors.gray500}
+          value={addressSearchQuery}
+          onChangeText={(text) => {
+            setAddressSearchQuery(text);
+            setShowAddressSuggestions(true);
+          }}
+          onFocus={() => addressSearchQuery.length >= 2 && setShowAddressSuggestions(true)}
+          onBlur={() => setTimeout(() => setShowAddressSuggestions(false), 200)}
+          editable={!disabled}
+        />
+        {addressSearching && (
+          <ActivityIndicator size="small" color={theme.colors.primary} style={styles.searchSpinner} />
+        )}
+      </View>
+      {showAddressSuggestions && debouncedAddressQuery.length >= 2 && (
+        <View style={styles.suggestionsList}>
+          {addressSuggestions.length === 0 && !addressSearching && (
+            <AppText variant="caption" color="textSecondary" style={styles.suggestionItem}>
+              No results (enter address manually below)
+            </AppText>
+          )}
+          {addressSuggestions.slice(0, 5).map((p) => (
+            <Pressable key={p.placeId} style={styles.suggestionItem} onPress={() => handleSelectAddress(p.placeId)}>
+              <AppText variant="body" color="text" numberOfLines={2}>
+                {p.description}
+              </AppText>
+            </Pressable>
+          ))}
+        </View>
+      )}
+
+      {hasParsedAddress && (
+        <View style={styles.parsedBlock}>
+          <View style={styles.parsedBlockHeader}>
+            <AppText variant="caption" color="textSecondary">
+              Parsed address
+            </AppText>
+            <TouchableOpacity
+              onPress={() => {
+                LayoutAnimation.configureNext(LayoutAnimation.Presets.easeInEaseOut);
+                onChange({ addressLine1: '', postalCode: '', postalCodeFromGoogle: false, coords: null });
+              }}>
+              <AppText variant="caption" color="primary">
+                Clear
+              </AppText>
+            </TouchableOpacity>
+          </View>
+          <AppText variant="body" color="text" style={styles.parsedLine}>
+            {draft.addressLine1}
+          </AppText>
+          {draft.postalCode ? (
+            <AppText variant="body" color="textSecondary">
+              {draft.postalCode}
+              {draft.postalCodeFromGoogle && ' (from Google)'}
+            </AppText>
+          ) : null}
+        </View>
+      )}
+
+      {!hasParsedAddress && (
+        <Input
+          label="Address line 1 *"
+          placeholder="Or enter street address manually"
+          value={draft.addressLine1}
+          onChangeText={(text) => onChange({ addressLine1: text, postalCodeFromGoogle: false, coords: null })}
+          error={errors.addressLine1}
+          editable={!disabled}
+          containerStyle={styles.inputContainer}
+          style={styles.filledInput}
+        />
+      )}
+
+      <Input
+        label="Postal code *"
+        placeholder="6 digits (Singapore)"
+        value={draft.postalCode}
+        onChangeText={(text) => {
+          if (!draft.postalCodeFromGoogle) onChange({ postalCode: text });
+        }}
+        error={errors.postalCode}
+        keyboardType="number-pad"
+        maxLength={6}
+        editable={!disabled && !draft.postalCodeFromGoogle}
+        containerStyle={styles.inputContainer}
+        style={styles.filledInput}
+      />
+
+      <View style={styles.row}>
+        <View style={styles.half}>
+          <Input
+            label="Floor"
+            placeholder="e.g. 05"
+            value={draft.floor}
+            onChangeText={(text) => onChange({ floor: text })}
+            editable={!disabled}
+            containerStyle={styles.inputContainer}
+            style={styles.filledInput}
+          />
+        </View>
+        <View style={styles.half}>
+          <Input
+            label="Unit"
+            placeholder="e.g. 12"
+            value={draft.unit}
+            onChangeText={(text) => onChange({ unit: text })}
+            editable={!disabled}
+            containerStyle={styles.inputContainer}
+            style={styles.filledInput}
+          />
+        </View>
+      </View>
+
+      <View style={styles.row}>
+        <View style={styles.half}>
+          <Input
+            label="Contact name"
+            placeholder={isPickup ? 'Sender' : 'Recipient'}
+            value={draft.contactName}
+            onChangeText={(text) => onChange({ contactName: text })}
+            editable={!disabled}
+            containerStyle={styles.inputContainer}
+            style={styles.filledInput}
+          />
+        </View>
+        <View style={styles.half}>
+          <Input
+            label="Contact phone"
+            placeholder="e.g. 9123 4567"
+            value={draft.contactPhone}
+            onChangeText={(text) => onChange({ contactPhone: text })}
+            keyboardType="phone-pad"
+            editable={!disabled}
+            containerStyle={styles.inputContainer}
+            style={styles.filledInput}
+          />
+        </View>
+      </View>
+
+      <Input
+        label="Notes (optional)"
+        placeholder={isPickup ? 'Pickup notes' : 'Delivery notes'}
+        value={draft.notes}
+        onChangeText={(text) => onChange({ notes: text })}
+        editable={!disabled}
+        containerStyle={styles.inputContainer}
+        style={styles.filledInput}
+      />
+
+      <AppText variant="caption" color="textSecondary" style={styles.fieldLabel}>
+        {isPickup ? 'Pickup slot' : 'Delivery slot'}
+      </AppText>
+      <View style={styles.chipRow}>
+        {Array.from({ length: SLOT_DAYS_AHEAD + 1 }, (_, day) => (
+          <Button
+            key={day}
+            title={formatSlotDay(day)}
+            size="sm"
+            variant={slotDay === day ? 'primary' : 'outline'}
+            onPress={() => setSlotDay(day)}
+            disabled={disabled}
+          />
+        ))}
+      </View>
+      <View style={styles.chipRow}>
+        <Button
+          title="Any time"
+          size="sm"
+          variant={draft.slot == null ? 'primary' : 'outline'}
+          onPress={() => onChange({ slot: null })}
+          disabled={disabled}
+        />
+        {SLOT_START_HOURS.map((startHour) => {
+          const candidate = { day: slotDay, startHour };
+          const passed = getSlotRange(candidate).end.getTime() <= Date.now();
+          return (
+            <Button
+              key={startHour}
+              title={formatSlotHours(startHour)}
+              size="sm"
+              variant={draft.slot?.day === slotDay && draft.slot.startHour === startHour ? 'primary' : 'outline'}
+              onPress={() => onChange({ slot: candidate })}
+              disabled={passed || disabled}
+            />
+          );
+        })}
+      </View>
+      <AppText variant="caption" color={errors.slot ? 'error' : 'textSecondary'} style={styles.helperText}>
+        {errors.slot ??
+          (draft.slot
+            ? `${formatSlotDay(draft.slot.day)} ${formatSlotHours(draft.slot.startHour)}`
+            : 'No window: planned for midday today')}
+      </AppText>
+    </Card>
+  );
+}
+
+const styles = StyleSheet.create({
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: theme.spacing.sm,
+  },
+  title: {
+    textTransform: 'uppercase',
+    letterSpacing: 0.5,
+  },
+  headerActions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  headerBtn: {
+    paddingVertical: theme.spacing.xs,
+    paddingHorizontal: theme.spacing.sm,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: theme.spacing.xs,
+    marginBottom: theme.spacing.sm,
+  },
+  inputContainer: {
+    marginBottom: theme.spacing.md,
+  },
+  filledInput: {
+    backgroundColor: theme.colors.gray100,
+    borderWidth: 0,
+  },
+  input: {
+    borderRadius: theme.radius.md,
+    padding: theme.spacing.sm,
+    color: theme.colors.text,
+    minHeight: 48,
+  },
+  inputError: {
+    borderWidth: 1,
+    borderColor: theme.colors.error,
+  },
+  fieldLabel: {
+    marginBottom: theme.spacing.xs,
+  },
+  helperText: {
+    marginTop: theme.spacing.xs,
+    marginBottom: theme.spacing.sm,
+  },
+  addressSearchWrap: {
+    position: 'relative',
+    marginBottom: theme.spacing.sm,
+  },
+  addressSearchInput: {
+    minHeight: 52,
+    paddingRight: 40,
+  },
+  searchSpinner: {
+    position: 'absolute',
+    right: theme.spacing.sm,
+    top: 16,
+  },
+  suggestionsList: {
+    backgroundColor: theme.colors.gray100,
+    borderRadius: theme.radius.md,
+    marginBottom: theme.spacing.md,
+    maxHeight: 200,
+  },
+  suggestionItem: {
+    padding: theme.spacing.sm,
+    borderBottomWidth: 1,
+    borderBottomColor: theme.colors.border,
+  },
+  parsedBlock: {
+    backgroundColor: theme.colors.gray100,
+    borderRadius: theme.radius.md,
+    padding: theme.spacing.sm,
+    marginBottom: theme.spacing.md,
+  },
+  parsedBlockHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: theme.spacing.xs,
+  },
+  parsedLine: {
+    marginBottom: theme.spacing.xs,
+  },
+  row: {
+    flexDirection: 'row',
+    gap: theme.spacing.sm,
+  },
+  half: { flex: 1 },
+});
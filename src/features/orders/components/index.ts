@@ -0,0 +1 @@
+export { default as OrderStopForm } from './OrderStopForm';
@@ -0,0 +1,162 @@
+import { OrderStop, StopType } from '../../api/types';
+import { LatLng } from '../../shared/utils/geo';
+
+const POSTAL_CODE_REGEX = /^\d{6}$/;
+
+/** Bookable two-hour delivery slots (start hour, local time) */
+export const SLOT_START_HOURS = [8, 10, 12, 14, 16, 18];
+const SLOT_HOURS = 2;
+/** Slots can be booked for today and this many days ahead */
+export const SLOT_DAYS_AHEAD = 6;
+
+export interface DeliverySlot {
+  /** Days from today */
+  day: number;
+  startHour: number;
+}
+
+/** One stop being entered in Create Order */
+export interface StopDraft {
+  /** Stable key for the form list (stops can be reordered) */
+  key: string;
+  type: StopType;
+  addressLine1: string;
+  postalCode: string;
+  postalCodeFromGoogle: boolean;
+  /** Coordinates of the picked suggestion; dropped when the address is edited by hand */
+  coords: LatLng | null;
+  floor: string;
+  unit: string;
+  contactName: string;
+  contactPhone: string;
+  notes: string;
+  /** Booked slot; null = no window (planned for midday) */
+  slot: DeliverySlot | null;
+}
+
+export interface StopDraftErrors {
+  addressLine1?: string;
+  postalCode?: string;
+  slot?: string;
+  /** Ordering problems (delivery without a pickup before it) */
+  sequence?: string;
+}
+
+let draftCounter = 0;
+
+export function newStopDraft(type: StopType): StopDraft {
+  draftCounter += 1;
+  return {
+    key: `stop-${Date.now()}-${draftCounter}`,
+    type,
+    addressLine1: '',
+    postalCode: '',
+    postalCodeFromGoogle: false,
+    coords: null,
+    floor: '',
+    unit: '',
+    contactName: '',
+    contactPhone: '',
+    notes: '',
+    slot: null,
+  };
+}
+
+/** A new order starts with a pickup followed by a delivery */
+export function initialStopDrafts(): StopDraft[] {
+  return [newStopDraft('PICKUP'), newStopDraft('DELIVERY')];
+}
+
+export function getSlotRange(slot: DeliverySlot): { start: Date; end: Date } {
+  const start = new Date();
+  start.setDate(start.getDate() + slot.day);
+  start.setHours(slot.startHour, 0, 0, 0);
+  const end = new Date(start);
+  end.setHours(slot.startHour + SLOT_HOURS);
+  return { start, end };
+}
+
+export function formatSlotDay(day: number): string {
+  if (day === 0) return 'Today';
+  if (day === 1) return 'Tomorrow';
+  const date = new Date();
+  date.setDate(date.getDate() + day);
+  return date.toLocaleDateString([], { weekday: 'short', day: 'numeric' });
+}
+
+export function formatSlotHours(startHour: number): string {
+  const pad = (h: number) => `${String(h).padStart(2, '0')}:00`;
+  return `${pad(startHour)}–${pad(startHour + SLOT_HOURS)}`;
+}
+
+function defaultPlannedAt(): string {
+  const d = new Date();
+  return `${d.toISOString().slice(0, 10)}T12:00:00`;
+}
+
+/** "#05-12" style line from floor / unit */
+function getAddressLine2(draft: StopDraft): string | undefined {
+  const f = draft.floor.trim();
+  const u = draft.unit.trim();
+  if (f && u) return `#${f}-${u}`;
+  if (f) return `#${f}`;
+  if (u) return `Unit: ${u}`;
+  return undefined;
+}
+
+/** True when the draft has everything required to submit (no messages; see validateStopDrafts) */
+export function isStopDraftComplete(draft: StopDraft): boolean {
+  return draft.addressLine1.trim().length > 0 && POSTAL_CODE_REGEX.test(draft.postalCode.trim());
+}
+
+/**
+ * Errors per draft key. Besides the address fields: every delivery needs a pickup earlier in the list,
+ * and a delivery slot may not end before the latest earlier pickup's slot starts.
+ */
+export function validateStopDrafts(drafts: StopDraft[], now: number = Date.now()): Record<string, StopDraftErrors> {
+  const errors: Record<string, StopDraftErrors> = {};
+  let pickupSeen = false;
+  let latestPickupStart: number | null = null;
+  for (const draft of drafts) {
+    const e: StopDraftErrors = {};
+    if (!draft.addressLine1.trim()) e.addressLine1 = 'Address is required';
+    if (!draft.postalCode.trim()) {
+      e.postalCode = 'Postal code is required';
+    } else if (!POSTAL_CODE_REGEX.test(draft.postalCode.trim())) {
+      e.postalCode = 'Postal code must be exactly 6 digits (Singapore)';
+    }
+    const range = draft.slot ? getSlotRange(draft.slot) : null;
+    if (range && range.end.getTime() <= now) e.slot = 'This slot has already passed. Pick a later one.';
+
+    if (draft.type === 'PICKUP') {
+      pickupSeen = true;
+      if (range) latestPickupStart = Math.max(latestPickupStart ?? 0, range.start.getTime());
+    } else if (!pickupSeen) {
+      e.sequence = 'Add a pickup before this delivery';
+    } else if (range && latestPickupStart != null && range.end.getTime() <= latestPickupStart) {
+      e.slot = e.slot ?? 'Delivery slot is before the pickup slot';
+    }
+    if (Object.keys(e).length > 0) errors[draft.key] = e;
+  }
+  return errors;
+}
+
+export function toOrderStop(draft: StopDraft): OrderStop {
+  const range = draft.slot ? getSlotRange(draft.slot) : null;
+  return {
+    type: draft.type,
+    addressLine1: draft.addressLine1.trim(),
+    addressLine2: getAddressLine2(draft),
+    postalCode: draft.postalCode.trim(),
+    city: 'Singapore',
+    country: 'SG',
+    plannedAt: range ? range.start.toISOString() : defaultPlannedAt(),
+    windowStart: range?.start.toISOString(),
+    windowEnd: range?.end.toISOString(),
+    contactName: draft.contactName.trim() || undefined,
+    contactPhone: draft.contactPhone.trim() || undefined,
+    notes: draft.notes.trim() || undefined,
+    lat: draft.coords?.lat,
+    lng: draft.coords?.lng,
+  };
+}
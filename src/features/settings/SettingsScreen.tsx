@@ -5,6 +5,13 @@ import { NativeStackScreenProps } from '@react-navigation/native-stack';
 import { AdminStackParamList } from '../../app/navigation/AdminStack';
 import { DriverStackParamList } from '../../app/navigation/DriverStack';
 import { stopBackgroundTracking } from '../../location/locationService';
+import {
+  NAVIGATION_APP_LABELS,
+  NavigationApp,
+  getAvailableNavigationApps,
+  getNavigationApp,
+  setNavigationApp,
+} from '../../location/navigationLauncher';
 import Screen from '../../shared/ui/Screen';
 import Card from '../../shared/ui/Card';
 import AppText from '../../shared/ui/AppText';
@@ -13,6 +20,7 @@ import Badge from '../../shared/ui/Badge';
 import Input from '../../shared/ui/Input';
 import { theme } from '../../shared/theme/theme';
 import { useAuth } from '../../shared/context/AuthContext';
+import { APP_LOCK_TIMEOUT_OPTIONS, useAppLock } from '../../shared/context/AppLockContext';
 import { useAuthRole } from '../../shared/hooks/useAuthRole';
 import { logout } from '../../api/auth';
 import { getSelectedMode, SelectedMode } from '../../shared/utils/authStorage';
@@ -31,6 +39,10 @@ export default function SettingsScreen({ navigation }: Props) {
   const [loading, setLoading] = useState(false);
   const [manualTenantId, setManualTenantId] = useState('');
   const [savingTenant, setSavingTenant] = useState(false);
+  const appLock = useAppLock();
+  const [savingAppLock, setSavingAppLock] = useState(false);
+  const [switchingUser, setSwitchingUser] = useState(false);
+  const [navigationApp, setNavigationAppState] = useState<NavigationApp>(getNavigationApp);
 
   useEffect(() => {
     if (user) {
@@ -111,6 +123,38 @@ export default function SettingsScreen({ navigation }: Props) {
     );
   };
 
+  const handleAppLockToggle = async (enabled: boolean) => {
+    setSavingAppLock(true);
+    try {
+      await appLock.setEnabled(enabled);
+    } catch (error) {
+      Alert.alert('App lock', error instanceof Error ? error.message : 'Could not change app lock.');
+    } finally {
+      setSavingAppLock(false);
+    }
+  };
+
+  const performSwitchUser = async () => {
+    setSwitchingUser(true);
+    try {
+      await appLock.switchUser();
+    } catch (error) {
+      setSwitchingUser(false);
+      Alert.alert('Cannot switch user', error instanceof Error ? error.message : 'Please try again.');
+    }
+  };
+
+  const handleSwitchUser = () => {
+    Alert.alert(
+      'Switch user',
+      'Sign out and clear this account from the device so someone else can sign in?',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Switch user', style: 'destructive', onPress: performSwitchUser },
+      ]
+    );
+  };
+
   useLayoutEffect(() => {
     navigation.setOptions({
       headerRight: () => (
@@ -369,6 +413,85 @@ export default function SettingsScreen({ navigation }: Props) {
           </Card>
         )}
 
+        {/* Navigation app used by Navigate buttons (drivers) */}
+        {(authRole === 'Driver' || isDriverModeEnabled) && (
+          <Card style={styles.section}>
+            <AppText variant="h2" weight="bold" color="text" style={styles.sectionTitle}>
+              Navigation
+            </AppText>
+            <AppText variant="bodySmall" color="textSecondary" style={styles.navigationHint}>
+              App opened by Navigate. Only Google Maps can route through all remaining stops at once.
+            </AppText>
+            <View style={styles.chipRow}>
+              {getAvailableNavigationApps().map((app) => (
+                <Button
+                  key={app}
+                  title={NAVIGATION_APP_LABELS[app]}
+                  size="sm"
+                  variant={navigationApp === app ? 'primary' : 'outline'}
+                  onPress={() => {
+                    setNavigationApp(app);
+                    setNavigationAppState(app);
+                  }}
+                />
+              ))}
+            </View>
+          </Card>
+        )}
+
+        {/* Security: app lock + switch user (shared devices) */}
+        <Card style={styles.section}>
+          <AppText variant="h2" weight="bold" color="text" style={styles.sectionTitle}>
+            Security
+          </AppText>
+          <View style={styles.toggleRow}>
+            <View style={styles.toggleInfo}>
+              <AppText variant="h3" weight="semibold" color="text">
+                App Lock
+              </AppText>
+              <AppText variant="bodySmall" color="textSecondary" style={styles.toggleDescription}>
+                {appLock.available
+                  ? `Require ${appLock.methodLabel} when opening the app`
+                  : 'Set up a device passcode or biometrics to use app lock'}
+              </AppText>
+            </View>
+            <Switch
+              value={appLock.enabled}
+              onValueChange={handleAppLockToggle}
+              disabled={savingAppLock || (!appLock.available && !appLock.enabled)}
+              trackColor={{ false: theme.colors.gray300, true: theme.colors.primary }}
+              thumbColor={theme.colors.white}
+            />
+          </View>
+          {appLock.enabled && (
+            <View style={styles.lockTimeout}>
+              <AppText variant="label" color="textSecondary" style={styles.lockTimeoutLabel}>
+                Lock after time in background
+              </AppText>
+              <View style={styles.chipRow}>
+                {APP_LOCK_TIMEOUT_OPTIONS.map((minutes) => (
+                  <Button
+                    key={minutes}
+                    title={minutes === 0 ? 'Immediately' : `${minutes} min`}
+                    size="sm"
+                    variant={appLock.timeoutMinutes === minutes ? 'primary' : 'outline'}
+                    onPress={() => appLock.setTimeoutMinutes(minutes)}
+                  />
+                ))}
+              </View>
+            </View>
+          )}
+          <AppText variant="bodySmall" color="textSecondary" style={styles.switchUserHint}>
+            Handing the device to the next shift? Switch user removes this account's sign-in from the device.
+          </AppText>
+          <Button
+            title="Switch user"
+            onPress={handleSwitchUser}
+            loading={switchingUser}
+            variant="outline"
+          />
+        </Card>
+
         {/* Logout Button - sign out to log in again with a different account */}
         <Card style={styles.section}>
           <AppText variant="body" color="textSecondary" style={styles.logoutHint}>
@@ -452,6 +575,24 @@ const styles = StyleSheet.create({
   toggleDescription: {
     marginTop: theme.spacing.xs,
   },
+  lockTimeout: {
+    marginTop: theme.spacing.md,
+  },
+  lockTimeoutLabel: {
+    marginBottom: theme.spacing.xs,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: theme.spacing.xs,
+  },
+  navigationHint: {
+    marginBottom: theme.spacing.sm,
+  },
+  switchUserHint: {
+    marginTop: theme.spacing.md,
+    marginBottom: theme.spacing.sm,
+  },
   logoutHint: {
     marginBottom: theme.spacing.sm,
   },
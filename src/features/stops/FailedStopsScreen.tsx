@@ -0,0 +1,279 @@
+import React, { useState, useCallback } from 'react';
+import { FlatList, StyleSheet, View, TouchableOpacity, Modal, Pressable, RefreshControl, Alert } from 'react-native';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useFocusEffect } from '@react-navigation/native';
+import { NativeStackScreenProps } from '@react-navigation/native-stack';
+import { TripsStackParamList } from '../../app/navigation/AdminTabs';
+import { getFailedStops, requeueFailedStop } from '../../api/stops';
+import Screen from '../../shared/ui/Screen';
+import Card from '../../shared/ui/Card';
+import AppText from '../../shared/ui/AppText';
+import Badge from '../../shared/ui/Badge';
+import Button from '../../shared/ui/Button';
+import { theme } from '../../shared/theme/theme';
+import { useAuthRole } from '../../shared/hooks/useAuthRole';
+import { Stop } from '../../api/types';
+
+type Props = NativeStackScreenProps<TripsStackParamList, 'FailedStops'>;
+
+/** Days ahead offered when re-queuing a failed stop */
+const REQUEUE_DAY_OFFSETS = [1, 2, 3];
+
+function addDays(days: number): Date {
+  const date = new Date();
+  date.setDate(date.getDate() + days);
+  return date;
+}
+
+function getStopAddress(stop: Stop): string {
+  return [stop.addressLine1, stop.city].filter(Boolean).join(', ') || stop.addressLine1 || '—';
+}
+
+export default function FailedStopsScreen({ navigation }: Props) {
+  const { canEditRoute } = useAuthRole();
+  const queryClient = useQueryClient();
+  const [refreshing, setRefreshing] = useState(false);
+  const [requeueStopId, setRequeueStopId] = useState<string | null>(null);
+
+  const {
+    data: stops = [],
+    isLoading,
+    error,
+    refetch,
+  } = useQuery({
+    queryKey: ['failedStops'],
+    queryFn: getFailedStops,
+  });
+
+  useFocusEffect(
+    useCallback(() => {
+      refetch();
+    }, [refetch])
+  );
+
+  const requeueMutation = useMutation({
+    mutationFn: ({ stopId, date }: { stopId: string; date: Date }) => requeueFailedStop(stopId, date),
+    onSuccess: (_order, { stopId, date }) => {
+      setRequeueStopId(null);
+      queryClient.setQueryData<Stop[]>(['failedStops'], (current) => (current ?? []).filter((s) => s.id !== stopId));
+      queryClient.invalidateQueries({ queryKey: ['unassignedOrders'] });
+      Alert.alert('Re-queued', `Added to unassigned orders for ${date.toLocaleDateString()}.`);
+    },
+    onError: (err: Error) => {
+      setRequeueStopId(null);
+      Alert.alert('Error', err.message || 'Failed to re-queue stop.');
+    },
+  });
+
+  const onRefresh = useCallback(async () => {
+    setRefreshing(true);
+    await refetch();
+    setRefreshing(false);
+  }, [refetch]);
+
+  const closeDatePicker = useCallback(() => {
+    if (!requeueMutation.isPending) setRequeueStopId(null);
+  }, [requeueMutation.isPending]);
+
+  const handleRequeueConfirm = (date: Date) => {
+    if (!requeueStopId) return;
+    requeueMutation.mutate({ stopId: requeueStopId, date });
+  };
+
+  const renderStop = ({ item }: { item: Stop }) => (
+    <Card
+      onPress={
+        item.tripId ? () => navigation.navigate('StopDetail', { stopId: item.id, tripId: item.tripId! }) : undefined
+      }
+      style={styles.stopCard}>
+      <View style={styles.stopHeader}>
+        <AppText variant="body" weight="semibold" color="text" style={styles.address}>
+          {getStopAddress(item)}
+        </AppText>
+        <Badge label={item.failureReason ?? item.failureReasonCode ?? 'Failed'} variant="error" />
+      </View>
+      {item.failureNote ? (
+        <AppText variant="bodySmall" color="text" style={styles.note}>
+          {item.failureNote}
+        </AppText>
+      ) : null}
+      <AppText variant="caption" color="textSecondary">
+        {item.failedAt ? `Failed ${new Date(item.failedAt).toLocaleString()}` : `Planned ${new Date(item.plannedAt).toLocaleString()}`}
+        {item.failureEvidenceUrls?.length
+          ? ` · ${item.failureEvidenceUrls.length} photo${item.failureEvidenceUrls.length !== 1 ? 's' : ''}`
+          : ''}
+      </AppText>
+      {canEditRoute && (
+        <Button
+          title="Re-queue for another day"
+          onPress={(e) => {
+            e?.stopPropagation?.();
+            setRequeueStopId(item.id);
+          }}
+          variant="outline"
+          style={styles.requeueButton}
+          disabled={requeueMutation.isPending}
+          loading={requeueMutation.isPending && requeueStopId === item.id}
+        />
+      )}
+    </Card>
+  );
+
+  const emptyState = (
+    <View style={styles.emptyState}>
+      <AppText variant="h3" weight="bold" color="text" style={styles.emptyTitle}>
+        No failed stops
+      </AppText>
+      <AppText variant="body" color="textSecondary" style={styles.emptySubtitle}>
+        Stops drivers could not deliver will appear here.
+      </AppText>
+    </View>
+  );
+
+  if (isLoading && !stops?.length) {
+    return (
+      <Screen>
+        <View style={styles.centerContainer}>
+          <AppText variant="body" color="textSecondary">
+            Loading failed stops...
+          </AppText>
+        </View>
+      </Screen>
+    );
+  }
+
+  if (error) {
+    return (
+      <Screen>
+        <View style={styles.centerContainer}>
+          <AppText variant="body" color="error">
+            Error loading failed stops: {(error as Error).message}
+          </AppText>
+          <Button title="Retry" onPress={() => refetch()} style={styles.retryButton} />
+        </View>
+      </Screen>
+    );
+  }
+
+  return (
+    <Screen>
+      <FlatList
+        data={stops}
+        renderItem={renderStop}
+        keyExtractor={(item) => item.id}
+        contentContainerStyle={[styles.list, stops.length === 0 && styles.listEmpty]}
+        ListEmptyComponent={emptyState}
+        showsVerticalScrollIndicator={false}
+        refreshControl={<RefreshControl refreshing={refreshing} onRefresh={onRefresh} />}
+      />
+
+      <Modal visible={requeueStopId != null} transparent animationType="fade">
+        <Pressable style={styles.modalBackdrop} onPress={closeDatePicker}>
+          <Pressable style={styles.bottomSheet} onPress={(e) => e.stopPropagation()}>
+            <AppText variant="h3" weight="bold" color="text" style={styles.sheetTitle}>
+              Re-queue stop
+            </AppText>
+            <AppText variant="bodySmall" color="textSecondary" style={styles.sheetSubtitle}>
+              A new unassigned order is created for the selected day.
+            </AppText>
+            {REQUEUE_DAY_OFFSETS.map((offset) => {
+              const date = addDays(offset);
+              return (
+                <TouchableOpacity
+                  key={offset}
+                  style={styles.sheetRow}
+                  onPress={() => handleRequeueConfirm(date)}
+                  disabled={requeueMutation.isPending}>
+                  <AppText variant="body" weight="semibold" color="text">
+                    {offset === 1 ? 'Tomorrow' : date.toLocaleDateString(undefined, { weekday: 'long' })}
+                  </AppText>
+                  <AppText variant="bodySmall" color="textSecondary">
+                    {date.toLocaleDateString()}
+                  </AppText>
+                </TouchableOpacity>
+              );
+            })}
+            <Button title="Cancel" variant="outline" onPress={closeDatePicker} style={styles.sheetButton} />
+          </Pressable>
+        </Pressable>
+      </Modal>
+    </Screen>
+  );
+}
+
+const styles = StyleSheet.create({
+  list: {
+    padding: theme.spacing.md,
+  },
+  listEmpty: {
+    flexGrow: 1,
+  },
+  stopCard: {
+    marginBottom: theme.spacing.md,
+  },
+  stopHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'flex-start',
+    gap: theme.spacing.sm,
+    marginBottom: theme.spacing.sm,
+  },
+  address: {
+    flex: 1,
+  },
+  note: {
+    marginBottom: theme.spacing.xs,
+  },
+  requeueButton: {
+    marginTop: theme.spacing.md,
+  },
+  centerContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingVertical: theme.spacing.xxl,
+  },
+  emptyState: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingVertical: theme.spacing.xxl,
+    paddingHorizontal: theme.spacing.lg,
+  },
+  emptyTitle: {
+    marginBottom: theme.spacing.sm,
+    textAlign: 'center',
+  },
+  emptySubtitle: {
+    textAlign: 'center',
+  },
+  retryButton: {
+    marginTop: theme.spacing.md,
+  },
+  modalBackdrop: {
+    flex: 1,
+    backgroundColor: 'rgba(0,0,0,0.5)',
+    justifyContent: 'flex-end',
+  },
+  bottomSheet: {
+    backgroundColor: theme.colors.surface,
+    borderTopLeftRadius: theme.radius.lg,
+    borderTopRightRadius: theme.radius.lg,
+    padding: theme.spacing.lg,
+  },
+  sheetTitle: {
+    marginBottom: theme.spacing.xs,
+  },
+  sheetSubtitle: {
+    marginBottom: theme.spacing.sm,
+  },
+  sheetRow: {
+    paddingVertical: theme.spacing.md,
+    paddingHorizontal: theme.spacing.sm,
+    borderBottomWidth: 1,
+    borderBottomColor: theme.colors.border,
+  },
+  sheetButton: {
+    marginTop: theme.spacing.md,
+  },
+});
@@ -1,172 +1,475 @@
-import React from 'react';
-import {
-  View,
-  Text,
-  TouchableOpacity,
-  StyleSheet,
-  Alert,
-} from 'react-native';
+import React, { useState, useCallback } from 'react';
+import { View, StyleSheet, Alert, Image, Modal, Pressable, ScrollView, RefreshControl } from 'react-native';
 import { NativeStackScreenProps } from '@react-navigation/native-stack';
-import { RootStackParamList } from '../../app/navigation/RootStackNavigator';
-
-type Props = NativeStackScreenProps<RootStackParamList, 'StopDetail'>;
-
-// Mock stop data
-const getMockStopData = (stopId: string) => {
-  return {
-    id: stopId,
-    sequence: 1,
-    type: 'Delivery',
-    address: '123 Main St, New York, NY 10001',
-    status: 'In Transit',
-    scheduledTime: '12:00 PM',
-    customerName: 'ABC Company',
-    phoneNumber: '(555) 123-4567',
-    notes: 'Please deliver to the loading dock.',
-  };
-};
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { TripsStackParamList } from '../../app/navigation/AdminTabs';
+import { getStopById } from '../../api/trips';
+import { getOrderById } from '../../api/orders';
+import { StopStatus, updateStopStatus } from '../../api/stops';
+import { Stop } from '../../api/types';
+import Screen from '../../shared/ui/Screen';
+import Card from '../../shared/ui/Card';
+import AppText from '../../shared/ui/AppText';
+import Badge from '../../shared/ui/Badge';
+import Button from '../../shared/ui/Button';
+import Input from '../../shared/ui/Input';
+import SignatureView from '../../shared/ui/SignatureView';
+import { theme } from '../../shared/theme/theme';
+import { useAuthRole } from '../../shared/hooks/useAuthRole';
+import { createLogger } from '../../shared/utils/logger';
+
+type Props = NativeStackScreenProps<TripsStackParamList, 'StopDetail'>;
+
+type OverrideStatus = Extract<StopStatus, 'Arrived' | 'Completed' | 'Failed'>;
+
+/** Statuses ops can set on the driver's behalf, in the order they are offered */
+const OVERRIDE_STATUSES: OverrideStatus[] = ['Arrived', 'Completed', 'Failed'];
+
+/** Preset reasons for an ops override; "Other" needs a note */
+const OVERRIDE_REASONS = [
+  'Driver app offline',
+  'Confirmed with driver by phone',
+  'Confirmed with customer',
+  'Correcting a wrong update',
+  'Other',
+];
+
+const log = createLogger('stops');
+
+function getStatusVariant(status: string | undefined): 'success' | 'warning' | 'info' | 'error' | 'default' {
+  switch (status) {
+    case 'Completed':
+      return 'success';
+    case 'Arrived':
+    case 'In Transit':
+      return 'info';
+    case 'Scheduled':
+      return 'warning';
+    case 'Failed':
+      return 'error';
+    default:
+      return 'default';
+  }
+}
+
+function formatTime(iso: string | undefined): string {
+  if (!iso) return '—';
+  const date = new Date(iso);
+  return Number.isNaN(date.getTime()) ? iso : date.toLocaleString();
+}
+
+/** "10:00 – 12:00" window, or the single planned time */
+function formatPlanned(stop: Stop): string {
+  if (stop.windowStart && stop.windowEnd) {
+    const start = new Date(stop.windowStart);
+    const end = new Date(stop.windowEnd);
+    const time = (d: Date) => d.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+    return `${start.toLocaleDateString()} ${time(start)} – ${time(end)}`;
+  }
+  return formatTime(stop.plannedAt);
+}
+
+function getStopAddress(stop: Stop): string {
+  return [stop.addressLine1, stop.city, stop.postalCode].filter(Boolean).join(', ') || stop.address || '—';
+}
 
-export default function StopDetailScreen({ route }: Props) {
+export default function StopDetailScreen({ route, navigation }: Props) {
   const { stopId, tripId } = route.params;
-  const stopData = getMockStopData(stopId);
-  const [status, setStatus] = React.useState(stopData.status);
-
-  const handleArrived = () => {
-    Alert.alert(
-      'Arrived',
-      'You have marked this stop as arrived.',
-      [{ text: 'OK', onPress: () => setStatus('Arrived') }]
-    );
+  const { canEditRoute } = useAuthRole();
+  const queryClient = useQueryClient();
+  const [refreshing, setRefreshing] = useState(false);
+  const [overrideStatus, setOverrideStatus] = useState<OverrideStatus | null>(null);
+  const [overrideReason, setOverrideReason] = useState<string | null>(null);
+  const [overrideNote, setOverrideNote] = useState('');
+
+  const {
+    data: stop,
+    isLoading,
+    error,
+    refetch,
+  } = useQuery({
+    queryKey: ['stop', tripId, stopId],
+    queryFn: () => getStopById(tripId, stopId),
+    enabled: !!tripId && !!stopId,
+  });
+
+  const orderId = stop?.transportOrderId;
+  const { data: order } = useQuery({
+    queryKey: ['order', orderId],
+    queryFn: () => getOrderById(orderId!),
+    enabled: !!orderId,
+  });
+
+  const closeOverride = useCallback(() => {
+    setOverrideStatus(null);
+    setOverrideReason(null);
+    setOverrideNote('');
+  }, []);
+
+  const overrideMutation = useMutation({
+    mutationFn: ({ status, reason }: { status: OverrideStatus; reason: string }) =>
+      updateStopStatus(stopId, status, { reason }),
+    onSuccess: (_result, { status }) => {
+      log.info('Stop status overridden by ops', { stopId, tripId, status });
+      closeOverride();
+      queryClient.invalidateQueries({ queryKey: ['stop', tripId, stopId] });
+      queryClient.invalidateQueries({ queryKey: ['adminTrip', tripId] });
+      queryClient.invalidateQueries({ queryKey: ['transportTripsPage'] });
+      if (status === 'Failed') queryClient.invalidateQueries({ queryKey: ['failedStops'] });
+      Alert.alert('Status updated', `Stop marked as ${status}. The change and reason were recorded.`);
+    },
+    onError: (err: Error) => {
+      Alert.alert('Error', err.message || 'Failed to update stop status.');
+    },
+  });
+
+  const onRefresh = useCallback(async () => {
+    setRefreshing(true);
+    await refetch();
+    setRefreshing(false);
+  }, [refetch]);
+
+  const trimmedNote = overrideNote.trim();
+  const canSubmitOverride =
+    overrideReason != null && (overrideReason !== 'Other' || trimmedNote.length > 0) && !overrideMutation.isPending;
+
+  const handleSubmitOverride = () => {
+    if (!overrideStatus || !overrideReason) return;
+    const base = overrideReason === 'Other' ? '' : overrideReason;
+    const reason = [base, trimmedNote].filter(Boolean).join(': ');
+    overrideMutation.mutate({ status: overrideStatus, reason });
   };
 
-  const handleComplete = () => {
-    Alert.alert(
-      'Complete',
-      'Mark this stop as completed?',
-      [
-        { text: 'Cancel', style: 'cancel' },
-        {
-          text: 'Confirm',
-          onPress: () => {
-            setStatus('Completed');
-            Alert.alert('Success', 'Stop marked as completed');
-          },
-        },
-      ]
-    );
+  const openOrder = () => {
+    if (!orderId) return;
+    navigation.getParent()?.navigate('OrdersTab', { screen: 'OrderDetail', params: { orderId } });
   };
 
-  return (
-    <View style={styles.container}>
-      <View style={styles.content}>
-        <View style={styles.section}>
-          <Text style={styles.label}>Stop Type</Text>
-          <Text style={styles.value}>{stopData.type}</Text>
+  if (isLoading) {
+    return (
+      <Screen>
+        <View style={styles.centerContainer}>
+          <AppText variant="body" color="textSecondary">
+            Loading stop...
+          </AppText>
         </View>
+      </Screen>
+    );
+  }
 
-        <View style={styles.section}>
-          <Text style={styles.label}>Address</Text>
-          <Text style={styles.value}>{stopData.address}</Text>
+  if (error || !stop) {
+    return (
+      <Screen>
+        <View style={styles.centerContainer}>
+          <AppText variant="body" color="error">
+            Error loading stop: {error ? (error as Error).message : 'Stop not found'}
+          </AppText>
+          <Button title="Retry" onPress={() => refetch()} style={styles.retryButton} />
         </View>
+      </Screen>
+    );
+  }
 
-        <View style={styles.section}>
-          <Text style={styles.label}>Customer</Text>
-          <Text style={styles.value}>{stopData.customerName}</Text>
-        </View>
+  const pod = stop.pod;
+  const podPhotos = pod?.photoUrls?.length ? pod.photoUrls : pod?.photoUrl ? [pod.photoUrl] : [];
+  const history = stop.statusHistory ?? [];
+  const isFinal = stop.status === 'Completed' || stop.status === 'Failed';
+  const overrideOptions = OVERRIDE_STATUSES.filter((s) => s !== stop.status && !(s === 'Arrived' && isFinal));
 
-        <View style={styles.section}>
-          <Text style={styles.label}>Phone</Text>
-          <Text style={styles.value}>{stopData.phoneNumber}</Text>
-        </View>
+  return (
+    <Screen>
+      <ScrollView
+        contentContainerStyle={styles.content}
+        showsVerticalScrollIndicator={false}
+        refreshControl={<RefreshControl refreshing={refreshing} onRefresh={onRefresh} />}>
+        {/* Stop */}
+        <Card style={styles.section}>
+          <View style={styles.header}>
+            <AppText variant="h3" weight="bold" color="text">
+              Stop {stop.sequence} · {stop.type === 'PICKUP' ? 'Pickup' : 'Delivery'}
+            </AppText>
+            <Badge label={stop.status ?? 'Scheduled'} variant={getStatusVariant(stop.status)} />
+          </View>
+          <AppText variant="label" color="textSecondary">
+            Address
+          </AppText>
+          <AppText variant="body" color="text" style={styles.value}>
+            {getStopAddress(stop)}
+          </AppText>
+          <AppText variant="label" color="textSecondary">
+            {stop.windowStart && stop.windowEnd ? 'Delivery window' : 'Planned'}
+          </AppText>
+          <AppText variant="body" color="text" style={styles.value}>
+            {formatPlanned(stop)}
+          </AppText>
+        </Card>
 
-        <View style={styles.section}>
-          <Text style={styles.label}>Scheduled Time</Text>
-          <Text style={styles.value}>{stopData.scheduledTime}</Text>
-        </View>
+        {/* Linked order */}
+        {orderId && (
+          <Card style={styles.section} onPress={openOrder}>
+            <AppText variant="h3" weight="bold" color="text" style={styles.sectionTitle}>
+              Order
+            </AppText>
+            <AppText variant="body" weight="semibold" color="text">
+              {order?.orderNumber || `Order #${orderId.slice(0, 8)}`}
+            </AppText>
+            <AppText variant="body" color="textSecondary" style={styles.value}>
+              Customer: {order?.customerName ?? '…'}
+            </AppText>
+            <AppText variant="caption" color="primary">
+              View order →
+            </AppText>
+          </Card>
+        )}
 
-        <View style={styles.section}>
-          <Text style={styles.label}>Status</Text>
-          <Text style={[styles.value, styles.statusText]}>{status}</Text>
-        </View>
+        {/* Failure */}
+        {stop.status === 'Failed' && (
+          <Card style={styles.section}>
+            <AppText variant="h3" weight="bold" color="text" style={styles.sectionTitle}>
+              Not delivered
+            </AppText>
+            <AppText variant="body" color="text">
+              {stop.failureReason ?? stop.failureReasonCode ?? 'No reason given'}
+            </AppText>
+            {stop.failureNote ? (
+              <AppText variant="bodySmall" color="textSecondary" style={styles.value}>
+                {stop.failureNote}
+              </AppText>
+            ) : null}
+            {stop.failedAt && (
+              <AppText variant="caption" color="textSecondary">
+                Failed {formatTime(stop.failedAt)}
+              </AppText>
+            )}
+            {stop.failureEvidenceUrls?.length ? (
+              <View style={styles.photoRow}>
+                {stop.failureEvidenceUrls.map((uri) => (
+                  <Image key={uri} source={{ uri }} style={styles.photo} />
+                ))}
+              </View>
+            ) : null}
+          </Card>
+        )}
 
-        <View style={styles.section}>
-          <Text style={styles.label}>Notes</Text>
-          <Text style={styles.value}>{stopData.notes}</Text>
-        </View>
-      </View>
-
-      <View style={styles.buttonContainer}>
-        <TouchableOpacity
-          style={[styles.button, styles.arrivedButton]}
-          onPress={handleArrived}
-          disabled={status === 'Completed'}>
-          <Text style={styles.buttonText}>Arrived</Text>
-        </TouchableOpacity>
-
-        <TouchableOpacity
-          style={[styles.button, styles.completeButton]}
-          onPress={handleComplete}
-          disabled={status === 'Completed'}>
-          <Text style={styles.buttonText}>Complete</Text>
-        </TouchableOpacity>
-      </View>
-    </View>
+        {/* Proof of delivery */}
+        {pod && (
+          <Card style={styles.section}>
+            <AppText variant="h3" weight="bold" color="text" style={styles.sectionTitle}>
+              Proof of Delivery
+            </AppText>
+            <AppText variant="body" color="text">
+              Received by: {pod.signedBy || '—'}
+            </AppText>
+            {pod.signedAt && (
+              <AppText variant="caption" color="textSecondary">
+                Signed {formatTime(pod.signedAt)}
+              </AppText>
+            )}
+            {podPhotos.length > 0 && (
+              <View style={styles.photoRow}>
+                {podPhotos.map((uri) => (
+                  <Image key={uri} source={{ uri }} style={styles.photo} />
+                ))}
+              </View>
+            )}
+            {(pod.signatureSvg || pod.signatureUrl) && (
+              <View style={styles.signature}>
+                <SignatureView svg={pod.signatureSvg} uri={pod.signatureUrl} />
+              </View>
+            )}
+            {pod.note ? (
+              <AppText variant="bodySmall" color="textSecondary" style={styles.value}>
+                {pod.note}
+              </AppText>
+            ) : null}
+          </Card>
+        )}
+
+        {/* Status history */}
+        <Card style={styles.section}>
+          <AppText variant="h3" weight="bold" color="text" style={styles.sectionTitle}>
+            Status history
+          </AppText>
+          {history.length === 0 ? (
+            <AppText variant="bodySmall" color="textSecondary">
+              No status changes recorded yet.
+            </AppText>
+          ) : (
+            history.map((event, index) => (
+              <View key={`${event.at}-${index}`} style={styles.historyRow}>
+                <View style={styles.historyHeader}>
+                  <AppText variant="body" weight="semibold" color="text">
+                    {event.status}
+                  </AppText>
+                  {event.source === 'ops' && <Badge label="Ops override" variant="warning" />}
+                </View>
+                <AppText variant="caption" color="textSecondary">
+                  {formatTime(event.at)}
+                  {event.by ? ` · ${event.by}` : ''}
+                </AppText>
+                {event.reason ? (
+                  <AppText variant="bodySmall" color="text">
+                    Reason: {event.reason}
+                  </AppText>
+                ) : null}
+              </View>
+            ))
+          )}
+        </Card>
+
+        {/* Ops override (Admin/Ops only) */}
+        {canEditRoute && overrideOptions.length > 0 && (
+          <Card style={styles.section}>
+            <AppText variant="h3" weight="bold" color="text" style={styles.sectionTitle}>
+              Update on driver's behalf
+            </AppText>
+            <AppText variant="bodySmall" color="textSecondary" style={styles.value}>
+              A reason is required and the change is recorded in the stop's history.
+            </AppText>
+            <View style={styles.chipRow}>
+              {overrideOptions.map((status) => (
+                <Button
+                  key={status}
+                  title={`Mark ${status}`}
+                  size="sm"
+                  variant={status === 'Failed' ? 'destructive' : 'outline'}
+                  onPress={() => setOverrideStatus(status)}
+                  disabled={overrideMutation.isPending}
+                />
+              ))}
+            </View>
+          </Card>
+        )}
+      </ScrollView>
+
+      <Modal visible={overrideStatus != null} transparent animationType="fade" onRequestClose={closeOverride}>
+        <Pressable style={styles.modalBackdrop} onPress={overrideMutation.isPending ? undefined : closeOverride}>
+          <Pressable style={styles.bottomSheet} onPress={(e) => e.stopPropagation()}>
+            <AppText variant="h3" weight="bold" color="text" style={styles.sheetTitle}>
+              Mark stop {overrideStatus}
+            </AppText>
+            <AppText variant="bodySmall" color="textSecondary" style={styles.sheetSubtitle}>
+              Why are you updating this stop instead of the driver?
+            </AppText>
+            <View style={styles.chipRow}>
+              {OVERRIDE_REASONS.map((reason) => (
+                <Button
+                  key={reason}
+                  title={reason}
+                  size="sm"
+                  variant={overrideReason === reason ? 'primary' : 'outline'}
+                  onPress={() => setOverrideReason(reason)}
+                />
+              ))}
+            </View>
+            <Input
+              label={overrideReason === 'Other' ? 'Note (required)' : 'Note (optional)'}
+              placeholder="Details for the audit trail"
+              value={overrideNote}
+              onChangeText={setOverrideNote}
+              multiline
+            />
+            <Button
+              title={`Mark ${overrideStatus ?? ''}`}
+              variant={overrideStatus === 'Failed' ? 'destructive' : 'primary'}
+              onPress={handleSubmitOverride}
+              disabled={!canSubmitOverride}
+              loading={overrideMutation.isPending}
+              style={styles.sheetButton}
+            />
+            <Button
+              title="Cancel"
+              variant="outline"
+              onPress={closeOverride}
+              disabled={overrideMutation.isPending}
+              style={styles.sheetButton}
+            />
+          </Pressable>
+        </Pressable>
+      </Modal>
+    </Screen>
   );
 }
 
 const styles = StyleSheet.create({
-  container: {
-    flex: 1,
-    backgroundColor: '#f5f5f5',
-  },
   content: {
+    padding: theme.spacing.md,
+  },
+  centerContainer: {
     flex: 1,
-    padding: 20,
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingVertical: theme.spacing.xxl,
+    paddingHorizontal: theme.spacing.lg,
+  },
+  retryButton: {
+    marginTop: theme.spacing.md,
   },
   section: {
-    backgroundColor: '#fff',
-    padding: 15,
-    borderRadius: 8,
-    marginBottom: 15,
-    borderWidth: 1,
-    borderColor: '#ddd',
-  },
-  label: {
-    fontSize: 12,
-    color: '#999',
-    marginBottom: 4,
-    textTransform: 'uppercase',
-    fontWeight: '600',
+    marginBottom: theme.spacing.md,
+  },
+  sectionTitle: {
+    marginBottom: theme.spacing.sm,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: theme.spacing.md,
   },
   value: {
-    fontSize: 16,
-    color: '#333',
-  },
-  statusText: {
-    fontWeight: 'bold',
-    color: '#2196f3',
-  },
-  buttonContainer: {
-    padding: 20,
-    borderTopWidth: 1,
-    borderTopColor: '#ddd',
-    backgroundColor: '#fff',
-  },
-  button: {
-    padding: 15,
-    borderRadius: 8,
-    marginBottom: 10,
+    marginTop: theme.spacing.xs,
+    marginBottom: theme.spacing.sm,
+  },
+  photoRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: theme.spacing.sm,
+    marginTop: theme.spacing.sm,
+  },
+  photo: {
+    width: 88,
+    height: 88,
+    borderRadius: theme.radius.md,
+    backgroundColor: theme.colors.gray200,
+  },
+  signature: {
+    marginTop: theme.spacing.sm,
+  },
+  historyRow: {
+    paddingVertical: theme.spacing.sm,
+    borderBottomWidth: 1,
+    borderBottomColor: theme.colors.border,
+  },
+  historyHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
     alignItems: 'center',
   },
-  arrivedButton: {
-    backgroundColor: '#2196f3',
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: theme.spacing.xs,
+    marginBottom: theme.spacing.sm,
+  },
+  modalBackdrop: {
+    flex: 1,
+    backgroundColor: 'rgba(0,0,0,0.5)',
+    justifyContent: 'flex-end',
+  },
+  bottomSheet: {
+    backgroundColor: theme.colors.surface,
+    borderTopLeftRadius: theme.radius.lg,
+    borderTopRightRadius: theme.radius.lg,
+    padding: theme.spacing.lg,
+  },
+  sheetTitle: {
+    marginBottom: theme.spacing.xs,
   },
-  completeButton: {
-    backgroundColor: '#4caf50',
+  sheetSubtitle: {
+    marginBottom: theme.spacing.md,
   },
-  buttonText: {
-    color: '#fff',
-    fontSize: 16,
-    fontWeight: 'bold',
+  sheetButton: {
+    marginTop: theme.spacing.sm,
   },
 });
@@ -13,7 +13,7 @@ import { NativeStackScreenProps } from '@react-navigation/native-stack';
 import { useFocusEffect } from '@react-navigation/native';
 import { useQuery } from '@tanstack/react-query';
 import { TripsStackParamList } from '../../app/navigation/AdminTabs';
-import { getTripById, getTripLocation } from '../../api/trips';
+import { getTripById, getTripLocation, getTripLocationHistory } from '../../api/trips';
 import { getDriverLocation } from '../../api/drivers';
 import { Trip, Stop } from '../../api/types';
 import { getToken } from '../../shared/utils/authStorage';
@@ -21,7 +21,12 @@ import Screen from '../../shared/ui/Screen';
 import Card from '../../shared/ui/Card';
 import AppText from '../../shared/ui/AppText';
 import Badge from '../../shared/ui/Badge';
+import Button from '../../shared/ui/Button';
 import { theme } from '../../shared/theme/theme';
+import { regionForLocations } from '../../shared/utils/geo';
+import TripStopMarkers, { getMappedStops } from './TripStopMarkers';
+import { averageMovingSpeedKmh, estimateStopEtas, formatStopWindow, StopEta } from './stopEtas';
+import { formatClock, pointSpeed } from './tripPlayback';
 
 type Props = NativeStackScreenProps<TripsStackParamList, 'TripDetail'>;
 
@@ -30,14 +35,9 @@ function normalizeTripStatus(status: string | undefined | null): string {
   return status.toLowerCase().replace(/\s+/g, '');
 }
 
-const SINGAPORE_REGION = {
-  latitude: 1.3521,
-  longitude: 103.8198,
-  latitudeDelta: 0.02,
-  longitudeDelta: 0.02,
-};
-
 const POLL_INTERVAL_MS = 7000;
+/** Recent trail used for the driver's average speed in ETAs */
+const SPEED_HISTORY_MS = 30 * 60 * 1000;
 
 export default function TripDetailScreen({ route, navigation }: Props) {
   const { tripId } = route.params;
@@ -57,6 +57,14 @@ export default function TripDetailScreen({ route, navigation }: Props) {
   const hasDriver = Boolean(trip?.driverId);
   const shouldPoll = isTripActive && hasDriver && !!trip?.driverId;
 
+  const { data: locationHistory } = useQuery({
+    queryKey: ['tripLocationHistory', tripId],
+    queryFn: () => getTripLocationHistory(tripId),
+    enabled: hasToken && shouldPoll,
+    staleTime: 60 * 1000,
+    refetchInterval: shouldPoll ? 2 * 60 * 1000 : false,
+  });
+
   const fetchLocation = useCallback(async () => {
     if (!trip?.driverId) return;
     try {
@@ -127,10 +135,28 @@ export default function TripDetailScreen({ route, navigation }: Props) {
 
   const stops = trip.stops ?? [];
   const sortedStops = [...stops].sort((a, b) => a.sequence - b.sequence);
+  const mappedStops = getMappedStops(sortedStops);
+  const showLiveLocation = isTripActive && hasDriver;
+  const mapRegion = regionForLocations([
+    ...(showLiveLocation && driverLocation ? [driverLocation] : []),
+    ...mappedStops,
+  ]);
+  const since = Date.now() - SPEED_HISTORY_MS;
+  const recentSpeeds = (locationHistory ?? []).flatMap((point, index, points) => {
+    if (new Date(point.capturedAt).getTime() < since) return [];
+    const speed = pointSpeed(points, index);
+    return speed == null ? [] : [speed * 3.6];
+  });
+  const stopEtas: Record<string, StopEta> = showLiveLocation
+    ? estimateStopEtas(sortedStops, driverLocation, { speedKmh: averageMovingSpeedKmh(recentSpeeds) })
+    : {};
+  const lateStopCount = Object.values(stopEtas).filter((eta) => eta.late).length;
   const secondsAgo = lastUpdatedAt ? Math.max(0, Math.floor((Date.now() - lastUpdatedAt) / 1000)) : 0;
 
   const renderStop = ({ item }: { item: Stop }) => {
     const address = [item.addressLine1, item.city].filter(Boolean).join(', ') || item.addressLine1 || '—';
+    const slot = formatStopWindow(item);
+    const eta = stopEtas[item.id];
     return (
       <TouchableOpacity
         style={styles.stopCard}
@@ -142,10 +168,18 @@ export default function TripDetailScreen({ route, navigation }: Props) {
           <View style={styles.stopInfo}>
             <Text style={styles.stopType}>{item.type}</Text>
             <Text style={styles.stopAddress}>{address}</Text>
-            {item.plannedAt && (
+            {slot ? (
+              <Text style={styles.scheduledTime}>Window: {slot}</Text>
+            ) : item.plannedAt ? (
               <Text style={styles.scheduledTime}>
                 Planned: {new Date(item.plannedAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
               </Text>
+            ) : null}
+            {eta && (
+              <Text style={[styles.scheduledTime, eta.late && styles.lateText]}>
+                ETA {formatClock(eta.eta)}
+                {eta.late ? ` · likely ${eta.lateMinutes} min late` : ''}
+              </Text>
             )}
           </View>
           <Text style={[styles.stopStatus, getStopStatusStyle(item.status ?? '')]}>
@@ -173,39 +207,56 @@ export default function TripDetailScreen({ route, navigation }: Props) {
             Stops: {sortedStops.length}
             {trip.driverId && ' · Driver assigned'}
           </AppText>
+          {lateStopCount > 0 && (
+            <View style={styles.lateBadge}>
+              <Badge
+                label={`${lateStopCount} stop${lateStopCount !== 1 ? 's' : ''} likely to miss the window`}
+                variant="error"
+              />
+            </View>
+          )}
+          {trip.driverId && normalizedStatus !== 'scheduled' && (
+            <Button
+              title="Route playback"
+              size="sm"
+              variant="outline"
+              onPress={() => navigation.navigate('TripPlayback', { tripId })}
+              style={styles.playbackButton}
+            />
+          )}
         </Card>
 
-        {/* Live Location map - only when trip is active and has driver */}
+        {/* Route (stops with coordinates) + live driver location while the trip is active */}
         <Card style={styles.mapCard}>
           <AppText variant="h3" weight="bold" color="text" style={styles.sectionTitle}>
-            Live Location
+            {showLiveLocation ? 'Live Location' : 'Route'}
           </AppText>
-          {!isTripActive || !hasDriver ? (
+          {!showLiveLocation && !mapRegion ? (
             <View style={styles.mapPlaceholder}>
               <AppText variant="body" color="textSecondary" style={styles.placeholderText}>
                 Live location is available when trip is in progress.
               </AppText>
             </View>
-          ) : driverLocation ? (
+          ) : mapRegion ? (
             <View style={styles.mapWrapper}>
-              <MapView
-                provider={PROVIDER_GOOGLE}
-                style={styles.map}
-                initialRegion={{
-                  latitude: driverLocation.lat,
-                  longitude: driverLocation.lng,
-                  latitudeDelta: 0.01,
-                  longitudeDelta: 0.01,
-                }}>
-                <Marker
-                  coordinate={{ latitude: driverLocation.lat, longitude: driverLocation.lng }}
-                  title="Driver"
-                  pinColor={theme.colors.primary}
+              <MapView provider={PROVIDER_GOOGLE} style={styles.map} initialRegion={mapRegion}>
+                <TripStopMarkers
+                  stops={mappedStops}
+                  onStopPress={(stop) => navigation.navigate('StopDetail', { stopId: stop.id, tripId })}
                 />
+                {showLiveLocation && driverLocation && (
+                  <Marker
+                    coordinate={{ latitude: driverLocation.lat, longitude: driverLocation.lng }}
+                    title="Driver"
+                    pinColor={theme.colors.primary}
+                  />
+                )}
               </MapView>
-              <View style={styles.updatedBadge}>
-                <Badge label={`Updated ${secondsAgo}s ago`} variant="success" />
-              </View>
+              {showLiveLocation && driverLocation && (
+                <View style={styles.updatedBadge}>
+                  <Badge label={`Updated ${secondsAgo}s ago`} variant="success" />
+                </View>
+              )}
             </View>
           ) : (
             <View style={styles.mapPlaceholder}>
@@ -279,6 +330,14 @@ const styles = StyleSheet.create({
   tripMeta: {
     fontSize: 14,
   },
+  lateBadge: {
+    alignSelf: 'flex-start',
+    marginTop: theme.spacing.sm,
+  },
+  playbackButton: {
+    alignSelf: 'flex-start',
+    marginTop: theme.spacing.sm,
+  },
   mapCard: {
     marginBottom: theme.spacing.md,
   },
@@ -358,6 +417,10 @@ const styles = StyleSheet.create({
     fontSize: 12,
     color: theme.colors.textSecondary,
   },
+  lateText: {
+    color: theme.colors.error,
+    fontWeight: '600',
+  },
   stopStatus: {
     paddingHorizontal: 8,
     paddingVertical: 4,
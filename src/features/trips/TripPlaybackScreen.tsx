@@ -0,0 +1,451 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { View, StyleSheet, ScrollView, Text, ActivityIndicator, RefreshControl, GestureResponderEvent } from 'react-native';
+import MapView, { Marker, Polyline, PROVIDER_GOOGLE } from 'react-native-maps';
+import { NativeStackScreenProps } from '@react-navigation/native-stack';
+import { useQuery } from '@tanstack/react-query';
+import { TripsStackParamList } from '../../app/navigation/AdminTabs';
+import { getTripById, getTripLocationHistory } from '../../api/trips';
+import Screen from '../../shared/ui/Screen';
+import Card from '../../shared/ui/Card';
+import AppText from '../../shared/ui/AppText';
+import Badge from '../../shared/ui/Badge';
+import Button from '../../shared/ui/Button';
+import { theme } from '../../shared/theme/theme';
+import { formatSpeed } from '../fleet/fleetMapHelpers';
+import { regionForLocations } from '../../shared/utils/geo';
+import {
+  SpeedBand,
+  StopArrival,
+  findDwells,
+  formatClock,
+  formatDuration,
+  getSpeedBandColor,
+  getStopArrivals,
+  indexAtTime,
+  pointSpeed,
+  splitBySpeed,
+} from './tripPlayback';
+
+type Props = NativeStackScreenProps<TripsStackParamList, 'TripPlayback'>;
+
+const PLAYBACK_TICK_MS = 200;
+/** A full playback takes PLAYBACK_STEPS ticks (~30 s) regardless of trip length */
+const PLAYBACK_STEPS = 150;
+
+const SPEED_LEGEND: { band: SpeedBand; label: string }[] = [
+  { band: 'stopped', label: 'Stopped' },
+  { band: 'slow', label: '< 30 km/h' },
+  { band: 'normal', label: '< 80 km/h' },
+  { band: 'fast', label: '80+ km/h' },
+];
+
+/** Horizontal track; tap or drag anywhere on it to jump to that point in time */
+function TimeScrubber({ fraction, onChange }: { fraction: number; onChange: (fraction: number) => void }) {
+  const [width, setWidth] = useState(0);
+  const handleTouch = (event: GestureResponderEvent) => {
+    if (width <= 0) return;
+    onChange(Math.min(1, Math.max(0, event.nativeEvent.locationX / width)));
+  };
+  return (
+    <View
+      style={styles.scrubber}
+      onLayout={(e) => setWidth(e.nativeEvent.layout.width)}
+      onStartShouldSetResponder={() => true}
+      onMoveShouldSetResponder={() => true}
+      onResponderGrant={handleTouch}
+      onResponderMove={handleTouch}>
+      <View pointerEvents="none" style={styles.scrubberTrack}>
+        <View style={[styles.scrubberFill, { width: `${fraction * 100}%` }]} />
+      </View>
+      <View pointerEvents="none" style={[styles.scrubberThumb, { left: Math.max(0, fraction * width - 9) }]} />
+    </View>
+  );
+}
+
+export default function TripPlaybackScreen({ route, navigation }: Props) {
+  const { tripId } = route.params;
+  const [time, setTime] = useState<number | null>(null);
+  const [playing, setPlaying] = useState(false);
+
+  const { data: trip } = useQuery({
+    queryKey: ['adminTrip', tripId],
+    queryFn: () => getTripById(tripId),
+  });
+  const {
+    data: points = [],
+    isLoading,
+    error,
+    refetch,
+    isRefetching,
+  } = useQuery({
+    queryKey: ['tripLocationHistory', tripId],
+    queryFn: () => getTripLocationHistory(tripId),
+  });
+
+  const startAt = points.length ? new Date(points[0].capturedAt).getTime() : 0;
+  const endAt = points.length ? new Date(points[points.length - 1].capturedAt).getTime() : 0;
+  const span = Math.max(1, endAt - startAt);
+  const currentTime = time ?? endAt;
+  const index = indexAtTime(points, currentTime);
+  const current = points[index];
+
+  const initialRegion = useMemo(() => regionForLocations(points), [points]);
+  const dwells = useMemo(() => findDwells(points), [points]);
+  const arrivals = useMemo(() => getStopArrivals(trip?.stops ?? [], dwells), [trip, dwells]);
+  const travelled = useMemo(() => splitBySpeed(points.slice(0, index + 1)), [points, index]);
+  const remaining = useMemo(
+    () => points.slice(index).map((p) => ({ latitude: p.lat, longitude: p.lng })),
+    [points, index]
+  );
+
+  useEffect(() => {
+    if (!playing) return;
+    const timer = setInterval(() => {
+      setTime((t) => Math.min(endAt, (t ?? startAt) + span / PLAYBACK_STEPS));
+    }, PLAYBACK_TICK_MS);
+    return () => clearInterval(timer);
+  }, [playing, startAt, endAt, span]);
+
+  useEffect(() => {
+    if (playing && currentTime >= endAt) setPlaying(false);
+  }, [playing, currentTime, endAt]);
+
+  const togglePlay = () => {
+    // Restart from the beginning when play is pressed at the end of the trail
+    if (!playing && currentTime >= endAt) setTime(startAt);
+    setPlaying((p) => !p);
+  };
+
+  const stepTo = (nextIndex: number) => {
+    const point = points[Math.min(points.length - 1, Math.max(0, nextIndex))];
+    if (!point) return;
+    setPlaying(false);
+    setTime(new Date(point.capturedAt).getTime());
+  };
+
+  const renderArrival = (arrival: StopArrival) => {
+    const { stop, dwell, delayMinutes } = arrival;
+    const delayLabel =
+      delayMinutes == null ? null : delayMinutes > 0 ? `+${delayMinutes} min` : `${delayMinutes} min`;
+    return (
+      <Card
+        key={stop.id}
+        style={styles.arrivalCard}
+        onPress={() => navigation.navigate('StopDetail', { stopId: stop.id, tripId })}>
+        <View style={styles.arrivalHeader}>
+          <AppText variant="body" weight="semibold" color="text">
+            #{stop.sequence} {stop.type === 'PICKUP' ? 'Pickup' : 'Delivery'}
+          </AppText>
+          {delayLabel && <Badge label={delayLabel} variant={arrival.late ? 'error' : 'success'} />}
+        </View>
+        <AppText variant="caption" color="textSecondary">
+          {stop.addressLine1 || '—'}
+        </AppText>
+        <View style={styles.arrivalTimes}>
+          <AppText variant="bodySmall" color="text">
+            Planned {formatClock(arrival.plannedAt)}
+          </AppText>
+          <AppText variant="bodySmall" color="text">
+            Reported {formatClock(arrival.reportedAt)}
+          </AppText>
+          <AppText variant="bodySmall" color="text">
+            GPS {formatClock(dwell?.startAt ?? null)}
+          </AppText>
+        </View>
+        {dwell && (
+          <AppText variant="caption" color="textSecondary">
+            Dwell {formatDuration(dwell.durationMs)} ({formatClock(dwell.startAt)}–{formatClock(dwell.endAt)})
+          </AppText>
+        )}
+      </Card>
+    );
+  };
+
+  if (isLoading) {
+    return (
+      <Screen>
+        <View style={styles.center}>
+          <ActivityIndicator size="large" color={theme.colors.primary} />
+          <AppText variant="body" color="textSecondary" style={styles.loadingText}>
+            Loading route history...
+          </AppText>
+        </View>
+      </Screen>
+    );
+  }
+
+  if (error) {
+    return (
+      <Screen>
+        <View style={styles.center}>
+          <AppText variant="body" color="error" style={styles.centerText}>
+            Error loading route history: {(error as Error).message}
+          </AppText>
+          <Button title="Retry" onPress={() => refetch()} style={styles.retryButton} />
+        </View>
+      </Screen>
+    );
+  }
+
+  const speedMps = current ? pointSpeed(points, index) : null;
+  const speed = formatSpeed(speedMps == null ? undefined : speedMps * 3.6);
+
+  return (
+    <Screen>
+      <ScrollView
+        contentContainerStyle={styles.container}
+        refreshControl={<RefreshControl refreshing={isRefetching} onRefresh={refetch} />}>
+        {!initialRegion || !current ? (
+          <Card style={styles.section}>
+            <AppText variant="body" color="textSecondary" style={styles.centerText}>
+              No locations were recorded for this trip.
+            </AppText>
+          </Card>
+        ) : (
+          <Card style={styles.section}>
+            <View style={styles.mapWrapper}>
+              <MapView provider={PROVIDER_GOOGLE} style={styles.map} initialRegion={initialRegion}>
+                <Polyline
+                  coordinates={remaining}
+                  strokeColor={theme.colors.gray300}
+                  strokeWidth={3}
+                  lineDashPattern={[6, 6]}
+                />
+                {travelled.map((run, i) => (
+                  <Polyline
+                    key={`run-${i}`}
+                    coordinates={run.coordinates}
+                    strokeColor={getSpeedBandColor(run.band)}
+                    strokeWidth={4}
+                  />
+                ))}
+                {dwells.map((dwell) => {
+                  const arrival = arrivals.find((a) => a.dwell === dwell);
+                  return (
+                    <Marker
+                      key={`dwell-${dwell.startAt}`}
+                      coordinate={{ latitude: dwell.lat, longitude: dwell.lng }}
+                      title={arrival ? `Stop #${arrival.stop.sequence}` : 'Unplanned stop'}
+                      description={`${formatClock(dwell.startAt)}–${formatClock(dwell.endAt)} · ${formatDuration(dwell.durationMs)}`}
+                      onPress={() => {
+                        setPlaying(false);
+                        setTime(dwell.startAt);
+                      }}>
+                      <View style={[styles.dwellMarker, !arrival && styles.dwellMarkerUnplanned]}>
+                        <Text style={styles.dwellText}>
+                          {arrival ? `#${arrival.stop.sequence} · ` : ''}
+                          {formatDuration(dwell.durationMs)}
+                        </Text>
+                      </View>
+                    </Marker>
+                  );
+                })}
+                <Marker
+                  coordinate={{ latitude: current.lat, longitude: current.lng }}
+                  anchor={{ x: 0.5, y: 0.5 }}
+                  title={formatClock(currentTime)}
+                  description={speed ?? undefined}>
+                  <View style={styles.driverMarker}>
+                    <Text
+                      style={[
+                        styles.markerArrow,
+                        { transform: [{ rotate: `${current.heading ?? 0}deg` }] },
+                        current.heading == null && styles.markerArrowHidden,
+                      ]}>
+                      ▲
+                    </Text>
+                  </View>
+                </Marker>
+              </MapView>
+              <View style={styles.mapOverlay}>
+                <Badge label={`${formatClock(currentTime)}${speed ? ` · ${speed}` : ''}`} variant="info" />
+              </View>
+            </View>
+
+            <View style={styles.legend}>
+              {SPEED_LEGEND.map(({ band, label }) => (
+                <View key={band} style={styles.legendItem}>
+                  <View style={[styles.legendSwatch, { backgroundColor: getSpeedBandColor(band) }]} />
+                  <AppText variant="caption" color="textSecondary">
+                    {label}
+                  </AppText>
+                </View>
+              ))}
+            </View>
+
+            <TimeScrubber
+              fraction={(currentTime - startAt) / span}
+              onChange={(fraction) => {
+                setPlaying(false);
+                setTime(startAt + fraction * span);
+              }}
+            />
+            <View style={styles.scrubberLabels}>
+              <AppText variant="caption" color="textSecondary">
+                {formatClock(startAt)}
+              </AppText>
+              <AppText variant="caption" color="textSecondary">
+                {formatClock(endAt)}
+              </AppText>
+            </View>
+            <View style={styles.controls}>
+              <Button title="‹" size="sm" variant="outline" onPress={() => stepTo(index - 1)} />
+              <Button title={playing ? 'Pause' : 'Play'} size="sm" onPress={togglePlay} />
+              <Button title="›" size="sm" variant="outline" onPress={() => stepTo(index + 1)} />
+            </View>
+          </Card>
+        )}
+
+        <AppText variant="h3" weight="bold" color="text" style={styles.sectionTitle}>
+          Planned vs actual
+        </AppText>
+        {arrivals.length === 0 ? (
+          <AppText variant="body" color="textSecondary" style={styles.centerText}>
+            No stops for this trip.
+          </AppText>
+        ) : (
+          arrivals.map(renderArrival)
+        )}
+      </ScrollView>
+    </Screen>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    padding: theme.spacing.md,
+    paddingBottom: theme.spacing.xxl,
+  },
+  center: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: theme.spacing.xl,
+  },
+  centerText: {
+    textAlign: 'center',
+  },
+  loadingText: {
+    marginTop: theme.spacing.md,
+  },
+  retryButton: {
+    marginTop: theme.spacing.md,
+  },
+  section: {
+    marginBottom: theme.spacing.md,
+  },
+  sectionTitle: {
+    marginBottom: theme.spacing.sm,
+  },
+  mapWrapper: {
+    height: 320,
+    borderRadius: theme.radius.md,
+    overflow: 'hidden',
+  },
+  map: {
+    flex: 1,
+  },
+  mapOverlay: {
+    position: 'absolute',
+    top: theme.spacing.sm,
+    left: theme.spacing.sm,
+  },
+  legend: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'center',
+    gap: theme.spacing.md,
+    marginTop: theme.spacing.sm,
+  },
+  legendItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: theme.spacing.xs,
+  },
+  legendSwatch: {
+    width: 14,
+    height: 4,
+    borderRadius: 2,
+  },
+  scrubber: {
+    height: 32,
+    justifyContent: 'center',
+    marginTop: theme.spacing.md,
+  },
+  scrubberTrack: {
+    height: 4,
+    borderRadius: 2,
+    backgroundColor: theme.colors.gray200,
+    overflow: 'hidden',
+  },
+  scrubberFill: {
+    height: 4,
+    backgroundColor: theme.colors.primary,
+  },
+  scrubberThumb: {
+    position: 'absolute',
+    width: 18,
+    height: 18,
+    borderRadius: 9,
+    backgroundColor: theme.colors.primary,
+    borderWidth: 2,
+    borderColor: theme.colors.white,
+  },
+  scrubberLabels: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  controls: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    gap: theme.spacing.sm,
+    marginTop: theme.spacing.sm,
+  },
+  driverMarker: {
+    width: 26,
+    height: 26,
+    borderRadius: 13,
+    borderWidth: 2,
+    borderColor: theme.colors.white,
+    backgroundColor: theme.colors.primary,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  markerArrow: {
+    fontSize: 12,
+    color: theme.colors.white,
+  },
+  markerArrowHidden: {
+    opacity: 0,
+  },
+  dwellMarker: {
+    paddingHorizontal: theme.spacing.xs,
+    paddingVertical: 2,
+    borderRadius: theme.radius.sm,
+    backgroundColor: theme.colors.info,
+    borderWidth: 1,
+    borderColor: theme.colors.white,
+  },
+  dwellMarkerUnplanned: {
+    backgroundColor: theme.colors.gray600,
+  },
+  dwellText: {
+    color: theme.colors.white,
+    fontSize: 11,
+    fontWeight: '600',
+  },
+  arrivalCard: {
+    marginBottom: theme.spacing.sm,
+  },
+  arrivalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: theme.spacing.xs,
+  },
+  arrivalTimes: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginTop: theme.spacing.xs,
+  },
+});
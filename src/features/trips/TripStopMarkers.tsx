@@ -0,0 +1,84 @@
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { Marker, Polyline } from 'react-native-maps';
+import { Stop } from '../../api/types';
+import { theme } from '../../shared/theme/theme';
+import { LatLng } from '../../shared/utils/geo';
+
+export type MappedStop = Stop & LatLng;
+
+/** Stops that have coordinates, in sequence order */
+export function getMappedStops(stops: Stop[]): MappedStop[] {
+  return stops
+    .filter((stop): stop is MappedStop => stop.lat != null && stop.lng != null)
+    .sort((a, b) => a.sequence - b.sequence);
+}
+
+function getStopMarkerColor(status: string | undefined): string {
+  switch (status) {
+    case 'Completed':
+      return theme.colors.success;
+    case 'Failed':
+      return theme.colors.error;
+    case 'Arrived':
+      return theme.colors.info;
+    default:
+      return theme.colors.gray600;
+  }
+}
+
+interface TripStopMarkersProps {
+  stops: MappedStop[];
+  onStopPress?: (stop: Stop) => void;
+}
+
+/**
+ * Route line through the trip's stops in sequence order plus a numbered marker per stop, coloured by
+ * status. Render inside a MapView; stops without coordinates are not passed in (see getMappedStops).
+ */
+export default function TripStopMarkers({ stops, onStopPress }: TripStopMarkersProps) {
+  return (
+    <>
+      {stops.length > 1 && (
+        <Polyline
+          coordinates={stops.map((stop) => ({ latitude: stop.lat, longitude: stop.lng }))}
+          strokeColor={theme.colors.primary}
+          strokeWidth={3}
+        />
+      )}
+      {stops.map((stop) => (
+        <Marker
+          // Re-mount on status change: the snapshot is not redrawn with tracksViewChanges off
+          key={`${stop.id}-${stop.status ?? ''}`}
+          coordinate={{ latitude: stop.lat, longitude: stop.lng }}
+          anchor={{ x: 0.5, y: 0.5 }}
+          title={`Stop ${stop.sequence} · ${stop.type === 'PICKUP' ? 'Pickup' : 'Delivery'}`}
+          description={stop.addressLine1 || stop.address}
+          tracksViewChanges={false}
+          onCalloutPress={onStopPress ? () => onStopPress(stop) : undefined}>
+          <View style={[styles.marker, { backgroundColor: getStopMarkerColor(stop.status) }]}>
+            <Text style={styles.markerText}>{stop.sequence}</Text>
+          </View>
+        </Marker>
+      ))}
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  marker: {
+    minWidth: 24,
+    height: 24,
+    paddingHorizontal: 4,
+    borderRadius: 12,
+    alignItems: 'center',
+    justifyContent: 'center',
+    borderWidth: 2,
+    borderColor: theme.colors.white,
+  },
+  markerText: {
+    color: theme.colors.white,
+    fontSize: 12,
+    fontWeight: '700',
+  },
+});
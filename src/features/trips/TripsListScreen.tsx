@@ -1,110 +1,319 @@
-import React from 'react';
-import { FlatList, StyleSheet, View, TouchableOpacity, Text } from 'react-native';
+import React, { useState, useCallback, useEffect, useMemo } from 'react';
+import { FlatList, StyleSheet, View, ScrollView, RefreshControl, ActivityIndicator } from 'react-native';
+import { useInfiniteQuery, useQuery } from '@tanstack/react-query';
+import { useFocusEffect } from '@react-navigation/native';
 import { NativeStackScreenProps } from '@react-navigation/native-stack';
-import { AdminStackParamList } from '../../app/navigation/AdminStack';
+import { TripsStackParamList } from '../../app/navigation/AdminTabs';
+import { getTransportTripsPage, TripsPage } from '../../api/transport';
+import { getDrivers } from '../../api/drivers';
+import { getVehicles } from '../../api/vehicles';
 import Screen from '../../shared/ui/Screen';
 import Card from '../../shared/ui/Card';
 import Badge from '../../shared/ui/Badge';
 import AppText from '../../shared/ui/AppText';
+import Button from '../../shared/ui/Button';
+import Input from '../../shared/ui/Input';
 import { theme } from '../../shared/theme/theme';
+import { getTripLabel } from '../../features/driver/components';
+import { Trip } from '../../api/types';
+import { STATUS_FILTERS, matchesStatusFilter, normalizeStatus, toStatusQuery } from './tripStatusFilters';
 
-type Props = NativeStackScreenProps<AdminStackParamList, 'TripsList'>;
+type Props = NativeStackScreenProps<TripsStackParamList, 'TripsList'>;
 
-interface Trip {
-  id: string;
-  tripNumber: string;
-  origin: string;
-  destination: string;
-  status: string;
-  driver: string;
+function addDays(date: Date, days: number): Date {
+  const next = new Date(date);
+  next.setDate(next.getDate() + days);
+  return next;
 }
 
-// Mock data
-const mockTrips: Trip[] = [
-  {
-    id: '1',
-    tripNumber: 'TRP-001',
-    origin: 'New York',
-    destination: 'Los Angeles',
-    status: 'In Transit',
-    driver: 'John Doe',
-  },
-  {
-    id: '2',
-    tripNumber: 'TRP-002',
-    origin: 'Chicago',
-    destination: 'Miami',
-    status: 'Scheduled',
-    driver: 'Jane Smith',
-  },
-  {
-    id: '3',
-    tripNumber: 'TRP-003',
-    origin: 'Seattle',
-    destination: 'Portland',
-    status: 'Completed',
-    driver: 'Bob Johnson',
-  },
-];
-
-export default function TripsListScreen({ navigation }: Props) {
-  const getStatusVariant = (status: string): 'success' | 'warning' | 'info' | 'default' => {
-    switch (status) {
-      case 'Completed':
-        return 'success';
-      case 'In Transit':
-        return 'info';
-      case 'Scheduled':
-        return 'warning';
-      default:
-        return 'default';
+function isSameDay(a: Date, b: Date): boolean {
+  return a.toDateString() === b.toDateString();
+}
+
+function formatDay(date: Date): string {
+  const label = date.toLocaleDateString(undefined, { weekday: 'short', day: 'numeric', month: 'short' });
+  return isSameDay(date, new Date()) ? `Today · ${label}` : label;
+}
+
+function getStatusVariant(status: string): 'success' | 'warning' | 'info' | 'error' | 'default' {
+  switch (normalizeStatus(status)) {
+    case 'completed':
+      return 'success';
+    case 'intransit':
+      return 'info';
+    case 'scheduled':
+      return 'warning';
+    case 'cancelled':
+      return 'error';
+    default:
+      return 'default';
+  }
+}
+
+/** Origin from trip.origin or the first stop */
+function getOrigin(trip: Trip): string {
+  if (trip.origin) return trip.origin;
+  const first = trip.stops?.[0];
+  return first ? [first.addressLine1, first.city].filter(Boolean).join(', ') || '—' : '—';
+}
+
+/** Destination from trip.destination or the last stop */
+function getDestination(trip: Trip): string {
+  if (trip.destination) return trip.destination;
+  const last = trip.stops?.[trip.stops.length - 1];
+  return last ? [last.addressLine1, last.city].filter(Boolean).join(', ') || '—' : '—';
+}
+
+function getStopProgress(trip: Trip): { completed: number; failed: number; total: number } {
+  const stops = trip.stops ?? [];
+  return {
+    completed: stops.filter((s) => s.status === 'Completed').length,
+    failed: stops.filter((s) => s.status === 'Failed').length,
+    total: stops.length,
+  };
+}
+
+/** Pages can overlap when the backend ignores paging params; keep the first occurrence */
+function flattenPages(pages: TripsPage[]): Trip[] {
+  const seen = new Set<string>();
+  const trips: Trip[] = [];
+  for (const page of pages) {
+    for (const trip of page.trips) {
+      if (seen.has(trip.id)) continue;
+      seen.add(trip.id);
+      trips.push(trip);
     }
+  }
+  return trips;
+}
+
+export default function TripsListScreen({ navigation, route }: Props) {
+  const initialStatus = route.params?.status;
+  const [date, setDate] = useState(() => new Date());
+  const [status, setStatus] = useState(initialStatus ?? 'All');
+  const [driverId, setDriverId] = useState<string | null>(null);
+  const [vehicleId, setVehicleId] = useState<string | null>(null);
+  const [search, setSearch] = useState('');
+  const [debouncedSearch, setDebouncedSearch] = useState('');
+  const [refreshing, setRefreshing] = useState(false);
+
+  // Drill-downs (e.g. from the dashboard) navigate here again with a new status
+  useEffect(() => {
+    if (initialStatus) setStatus(initialStatus);
+  }, [initialStatus]);
+
+  useEffect(() => {
+    const t = setTimeout(() => setDebouncedSearch(search.trim()), 300);
+    return () => clearTimeout(t);
+  }, [search]);
+
+  const dateKey = date.toISOString().slice(0, 10);
+  const query = {
+    date,
+    status: toStatusQuery(status),
+    driverId: driverId ?? undefined,
+    vehicleId: vehicleId ?? undefined,
+    search: debouncedSearch || undefined,
   };
 
-  const renderTrip = ({ item }: { item: Trip }) => (
-    <Card
-      onPress={() => navigation.navigate('TripDetail', { tripId: item.id })}
-      style={styles.tripCard}>
-      <View style={styles.tripHeader}>
-        <AppText variant="h3" weight="bold" color="text">
-          {item.tripNumber}
-        </AppText>
-        <Badge label={item.status} variant={getStatusVariant(item.status)} />
-      </View>
-      <View style={styles.routeContainer}>
-        <AppText variant="body" color="textSecondary">
-          {item.origin}
-        </AppText>
-        <AppText variant="body" color="textSecondary" style={styles.arrow}>
-          →
+  const { data, isLoading, error, refetch, fetchNextPage, hasNextPage, isFetchingNextPage } = useInfiniteQuery({
+    queryKey: ['transportTripsPage', dateKey, query.status, query.driverId, query.vehicleId, query.search],
+    queryFn: ({ pageParam }) => getTransportTripsPage(query, pageParam),
+    initialPageParam: 1,
+    getNextPageParam: (lastPage, allPages) => {
+      if (!lastPage.hasMore) return undefined;
+      // Stop when a page brings nothing new (backend without paging support)
+      const earlier = new Set(allPages.slice(0, -1).flatMap((p) => p.trips.map((t) => t.id)));
+      return lastPage.trips.some((t) => !earlier.has(t.id)) ? lastPage.page + 1 : undefined;
+    },
+  });
+
+  const { data: drivers = [] } = useQuery({ queryKey: ['drivers'], queryFn: getDrivers });
+  const { data: vehicles = [] } = useQuery({ queryKey: ['vehicles'], queryFn: getVehicles });
+
+  useFocusEffect(
+    useCallback(() => {
+      refetch();
+    }, [refetch])
+  );
+
+  const driverNames = useMemo(() => new Map(drivers.map((d) => [d.id, d.name])), [drivers]);
+  const vehiclePlates = useMemo(() => new Map(vehicles.map((v) => [v.id, v.plateNumber])), [vehicles]);
+
+  // Filters are also applied locally in case the backend ignores them
+  const trips = useMemo(() => {
+    const needle = debouncedSearch.toLowerCase();
+    return flattenPages(data?.pages ?? []).filter(
+      (trip) =>
+        matchesStatusFilter(trip.status, status) &&
+        (!driverId || trip.driverId === driverId) &&
+        (!vehicleId || trip.vehicleId === vehicleId) &&
+        (!needle ||
+          (trip.tripNumber ?? '').toLowerCase().includes(needle) ||
+          trip.id.toLowerCase().startsWith(needle))
+    );
+  }, [data, status, driverId, vehicleId, debouncedSearch]);
+
+  const onRefresh = useCallback(async () => {
+    setRefreshing(true);
+    await refetch();
+    setRefreshing(false);
+  }, [refetch]);
+
+  const onEndReached = () => {
+    if (hasNextPage && !isFetchingNextPage) fetchNextPage();
+  };
+
+  const renderTrip = ({ item, index }: { item: Trip; index: number }) => {
+    const progress = getStopProgress(item);
+    const driverName = item.driverId ? driverNames.get(item.driverId) ?? 'Assigned' : 'Unassigned';
+    const plate = item.vehicleId ? vehiclePlates.get(item.vehicleId) ?? 'Assigned' : 'No vehicle';
+    const fraction = progress.total > 0 ? progress.completed / progress.total : 0;
+    return (
+      <Card onPress={() => navigation.navigate('TripDetail', { tripId: item.id })} style={styles.tripCard}>
+        <View style={styles.tripHeader}>
+          <AppText variant="h3" weight="bold" color="text">
+            {getTripLabel(item, index)}
+          </AppText>
+          <Badge label={item.status} variant={getStatusVariant(item.status)} />
+        </View>
+        <View style={styles.routeContainer}>
+          <AppText variant="body" color="textSecondary">
+            {getOrigin(item)}
+          </AppText>
+          <AppText variant="body" color="textSecondary" style={styles.arrow}>
+            →
+          </AppText>
+          <AppText variant="body" color="textSecondary">
+            {getDestination(item)}
+          </AppText>
+        </View>
+        <AppText variant="bodySmall" color="textSecondary" style={styles.driver}>
+          Driver: {driverName} · Vehicle: {plate}
         </AppText>
-        <AppText variant="body" color="textSecondary">
-          {item.destination}
+        <View style={styles.progressRow}>
+          <AppText variant="bodySmall" weight="semibold" color="text">
+            {progress.completed}/{progress.total} stops completed
+            {progress.failed > 0 ? ` · ${progress.failed} failed` : ''}
+          </AppText>
+        </View>
+        <View style={styles.progressTrack}>
+          <View style={[styles.progressFill, { width: `${Math.round(fraction * 100)}%` }]} />
+        </View>
+      </Card>
+    );
+  };
+
+  const filters = (
+    <View style={styles.filters}>
+      <View style={styles.dateRow}>
+        <Button title="‹" size="sm" variant="outline" onPress={() => setDate((d) => addDays(d, -1))} />
+        <AppText variant="body" weight="semibold" color="text" style={styles.dateLabel}>
+          {formatDay(date)}
         </AppText>
+        <Button title="›" size="sm" variant="outline" onPress={() => setDate((d) => addDays(d, 1))} />
+        {!isSameDay(date, new Date()) && (
+          <Button title="Today" size="sm" variant="text" onPress={() => setDate(new Date())} />
+        )}
       </View>
-      <AppText variant="bodySmall" color="textSecondary" style={styles.driver}>
-        Driver: {item.driver}
-      </AppText>
-    </Card>
+      <Input
+        placeholder="Search trip number"
+        value={search}
+        onChangeText={setSearch}
+        autoCapitalize="characters"
+        autoCorrect={false}
+        containerStyle={styles.searchInput}
+      />
+      <View style={styles.chipRow}>
+        {STATUS_FILTERS.map((s) => (
+          <Button
+            key={s}
+            title={s}
+            size="sm"
+            variant={status === s ? 'primary' : 'outline'}
+            onPress={() => setStatus(s)}
+          />
+        ))}
+      </View>
+      {drivers.length > 0 && (
+        <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.chipRow}>
+          <Button
+            title="All drivers"
+            size="sm"
+            variant={driverId == null ? 'primary' : 'outline'}
+            onPress={() => setDriverId(null)}
+          />
+          {drivers.map((d) => (
+            <Button
+              key={d.id}
+              title={d.name}
+              size="sm"
+              variant={driverId === d.id ? 'primary' : 'outline'}
+              onPress={() => setDriverId(d.id)}
+            />
+          ))}
+        </ScrollView>
+      )}
+      {vehicles.length > 0 && (
+        <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.chipRow}>
+          <Button
+            title="All vehicles"
+            size="sm"
+            variant={vehicleId == null ? 'primary' : 'outline'}
+            onPress={() => setVehicleId(null)}
+          />
+          {vehicles.map((v) => (
+            <Button
+              key={v.id}
+              title={v.plateNumber}
+              size="sm"
+              variant={vehicleId === v.id ? 'primary' : 'outline'}
+              onPress={() => setVehicleId(v.id)}
+            />
+          ))}
+        </ScrollView>
+      )}
+    </View>
   );
 
   const renderEmpty = () => (
     <View style={styles.emptyContainer}>
-      <AppText variant="body" color="textSecondary" style={styles.emptyText}>
-        No trips available
-      </AppText>
+      {isLoading ? (
+        <AppText variant="body" color="textSecondary">
+          Loading trips...
+        </AppText>
+      ) : error ? (
+        <>
+          <AppText variant="body" color="error" style={styles.emptyText}>
+            Error loading trips: {(error as Error).message}
+          </AppText>
+          <Button title="Retry" onPress={() => refetch()} style={styles.retryButton} />
+        </>
+      ) : (
+        <AppText variant="body" color="textSecondary" style={styles.emptyText}>
+          No trips match these filters for {formatDay(date)}
+        </AppText>
+      )}
     </View>
   );
 
   return (
     <Screen>
       <FlatList
-        data={mockTrips}
+        data={trips}
         renderItem={renderTrip}
         keyExtractor={(item) => item.id}
         contentContainerStyle={styles.list}
+        ListHeaderComponent={filters}
         ListEmptyComponent={renderEmpty}
+        ListFooterComponent={
+          isFetchingNextPage ? <ActivityIndicator color={theme.colors.primary} style={styles.footer} /> : null
+        }
+        onEndReached={onEndReached}
+        onEndReachedThreshold={0.5}
+        keyboardShouldPersistTaps="handled"
         showsVerticalScrollIndicator={false}
+        refreshControl={<RefreshControl refreshing={refreshing} onRefresh={onRefresh} />}
       />
     </Screen>
   );
@@ -114,6 +323,28 @@ const styles = StyleSheet.create({
   list: {
     padding: theme.spacing.md,
   },
+  filters: {
+    marginBottom: theme.spacing.sm,
+  },
+  dateRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: theme.spacing.sm,
+    marginBottom: theme.spacing.sm,
+  },
+  dateLabel: {
+    flexShrink: 1,
+  },
+  searchInput: {
+    marginBottom: theme.spacing.sm,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    alignItems: 'center',
+    gap: theme.spacing.xs,
+    marginBottom: theme.spacing.sm,
+  },
   tripCard: {
     marginBottom: theme.spacing.md,
   },
@@ -135,6 +366,20 @@ const styles = StyleSheet.create({
   driver: {
     marginTop: theme.spacing.xs,
   },
+  progressRow: {
+    marginTop: theme.spacing.sm,
+    marginBottom: theme.spacing.xs,
+  },
+  progressTrack: {
+    height: 6,
+    borderRadius: 3,
+    backgroundColor: theme.colors.gray200,
+    overflow: 'hidden',
+  },
+  progressFill: {
+    height: '100%',
+    backgroundColor: theme.colors.success,
+  },
   emptyContainer: {
     flex: 1,
     justifyContent: 'center',
@@ -144,4 +389,10 @@ const styles = StyleSheet.create({
   emptyText: {
     textAlign: 'center',
   },
+  retryButton: {
+    marginTop: theme.spacing.md,
+  },
+  footer: {
+    paddingVertical: theme.spacing.md,
+  },
 });
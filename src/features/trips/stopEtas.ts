@@ -0,0 +1,82 @@
+import { Stop } from '../../api/types';
+import { distanceMeters, LatLng } from '../../shared/utils/geo';
+
+/** Used until the driver has enough moving speed samples (city driving, km/h) */
+const DEFAULT_AVERAGE_SPEED_KMH = 30;
+/** Slower samples are waiting or parking, not driving, and are left out of the average */
+const MOVING_MIN_KMH = 5;
+/** Fewer moving samples than this are too noisy to replace the default */
+const MIN_SPEED_SAMPLES = 5;
+/** Roads are longer than the straight line between two stops */
+const ROAD_DISTANCE_FACTOR = 1.3;
+/** Time spent at each stop (parking, handover, POD) */
+const SERVICE_TIME_MS = 5 * 60 * 1000;
+
+export interface StopEta {
+  /** Projected arrival (epoch ms) */
+  eta: number;
+  /** Projected arrival is after the end of the stop's window */
+  late: boolean;
+  /** Minutes after the window end (0 when on time or without a window) */
+  lateMinutes: number;
+}
+
+function toTime(iso: string | undefined): number | null {
+  const time = iso ? new Date(iso).getTime() : NaN;
+  return Number.isFinite(time) ? time : null;
+}
+
+function isPending(stop: Stop): boolean {
+  return stop.status !== 'Completed' && stop.status !== 'Failed';
+}
+
+/**
+ * Average of the moving speed samples (km/h); null when there are too few to go by.
+ */
+export function averageMovingSpeedKmh(speedsKmh: (number | null | undefined)[]): number | null {
+  const moving = speedsKmh.filter((s): s is number => s != null && s >= MOVING_MIN_KMH);
+  if (moving.length < MIN_SPEED_SAMPLES) return null;
+  return moving.reduce((sum, s) => sum + s, 0) / moving.length;
+}
+
+/**
+ * Projected arrival at each pending stop, keyed by stop id: the driver drives from their last location
+ * through the pending stops in sequence order at the average speed, waits for a window to open and
+ * spends SERVICE_TIME_MS at each stop. A stop the driver has arrived at counts as reached now.
+ * Projection stops at the first pending stop without coordinates, since later arrivals depend on it.
+ */
+export function estimateStopEtas(
+  stops: Stop[],
+  from: LatLng | null,
+  options: { speedKmh?: number | null; now?: number } = {}
+): Record<string, StopEta> {
+  const etas: Record<string, StopEta> = {};
+  if (!from) return etas;
+  const speedKmh = options.speedKmh ?? DEFAULT_AVERAGE_SPEED_KMH;
+  const msPerMeter = (3600 * ROAD_DISTANCE_FACTOR) / speedKmh;
+  let position = from;
+  let time = options.now ?? Date.now();
+
+  for (const stop of [...stops].sort((a, b) => a.sequence - b.sequence).filter(isPending)) {
+    if (stop.lat == null || stop.lng == null) break;
+    const target = { lat: stop.lat, lng: stop.lng };
+    if (stop.status !== 'Arrived') time += distanceMeters(position, target) * msPerMeter;
+    const windowEnd = toTime(stop.windowEnd);
+    const lateMs = windowEnd != null ? Math.max(0, time - windowEnd) : 0;
+    etas[stop.id] = { eta: time, late: lateMs > 0, lateMinutes: Math.ceil(lateMs / 60000) };
+    const windowStart = toTime(stop.windowStart);
+    if (windowStart != null && time < windowStart) time = windowStart;
+    time += SERVICE_TIME_MS;
+    position = target;
+  }
+  return etas;
+}
+
+/** "10:00–12:00" for a stop's window; null when it has none */
+export function formatStopWindow(stop: Pick<Stop, 'windowStart' | 'windowEnd'>): string | null {
+  const start = toTime(stop.windowStart);
+  const end = toTime(stop.windowEnd);
+  if (start == null || end == null) return null;
+  const clock = (time: number) => new Date(time).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+  return `${clock(start)}–${clock(end)}`;
+}
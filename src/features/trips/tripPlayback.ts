@@ -0,0 +1,195 @@
+import { Stop, TripLocationPoint } from '../../api/types';
+import { theme } from '../../shared/theme/theme';
+import { distanceMeters } from '../../shared/utils/geo';
+
+export type SpeedBand = 'stopped' | 'slow' | 'normal' | 'fast';
+
+/** Points within this distance of where the driver stopped count as the same stop */
+const DWELL_RADIUS_M = 60;
+/** Shorter stops (traffic lights, queues) are not shown as dwells */
+const DWELL_MIN_MS = 2 * 60 * 1000;
+/** A dwell matches a stop when its status change falls within the dwell ± this margin */
+const DWELL_MATCH_MARGIN_MS = 5 * 60 * 1000;
+/** Grace period after the planned time / window end that still counts as on time */
+const ON_TIME_GRACE_MS = 15 * 60 * 1000;
+
+/** Speed band upper bounds in m/s (≈ 5, 30 and 80 km/h) */
+const STOPPED_MAX_MPS = 1.4;
+const SLOW_MAX_MPS = 8.3;
+const NORMAL_MAX_MPS = 22.2;
+
+export interface SpeedRun {
+  band: SpeedBand;
+  coordinates: { latitude: number; longitude: number }[];
+}
+
+export interface Dwell {
+  lat: number;
+  lng: number;
+  startAt: number;
+  endAt: number;
+  durationMs: number;
+}
+
+export interface StopArrival {
+  stop: Stop;
+  /** Planned arrival (plannedAt, else window start) */
+  plannedAt: number | null;
+  /** Latest on-time arrival (window end / planned time + grace) */
+  deadline: number | null;
+  /** Arrival reported by the driver (first Arrived, else Completed status change) */
+  reportedAt: number | null;
+  /** Dwell on the breadcrumb trail around the reported arrival */
+  dwell: Dwell | null;
+  /** Minutes after the planned time (negative when early); null when either side is unknown */
+  delayMinutes: number | null;
+  late: boolean;
+}
+
+function toTime(iso: string | undefined | null): number | null {
+  const time = iso ? new Date(iso).getTime() : NaN;
+  return Number.isFinite(time) ? time : null;
+}
+
+/** Speed at a point in m/s: the reported speed (km/h), else derived from the previous point */
+export function pointSpeed(points: TripLocationPoint[], index: number): number | null {
+  const point = points[index];
+  if (!point) return null;
+  if (point.speed != null && point.speed >= 0) return point.speed / 3.6;
+  const previous = points[index - 1];
+  if (!previous) return null;
+  const seconds = (new Date(point.capturedAt).getTime() - new Date(previous.capturedAt).getTime()) / 1000;
+  if (!Number.isFinite(seconds) || seconds <= 0) return null;
+  return distanceMeters(previous, point) / seconds;
+}
+
+export function getSpeedBand(speed: number | null): SpeedBand {
+  if (speed == null || speed <= STOPPED_MAX_MPS) return 'stopped';
+  if (speed <= SLOW_MAX_MPS) return 'slow';
+  return speed <= NORMAL_MAX_MPS ? 'normal' : 'fast';
+}
+
+export function getSpeedBandColor(band: SpeedBand): string {
+  switch (band) {
+    case 'stopped':
+      return theme.colors.gray400;
+    case 'slow':
+      return theme.colors.warning;
+    case 'normal':
+      return theme.colors.success;
+    default:
+      return theme.colors.error;
+  }
+}
+
+/**
+ * Splits the trail into runs of the same speed band so each run can be drawn as its own coloured
+ * polyline. Consecutive runs share their boundary point so the line has no gaps.
+ */
+export function splitBySpeed(points: TripLocationPoint[]): SpeedRun[] {
+  const runs: SpeedRun[] = [];
+  points.forEach((point, index) => {
+    const coordinate = { latitude: point.lat, longitude: point.lng };
+    const band = getSpeedBand(pointSpeed(points, index));
+    const current = runs[runs.length - 1];
+    if (current && current.band === band) {
+      current.coordinates.push(coordinate);
+      return;
+    }
+    const start = current ? [current.coordinates[current.coordinates.length - 1]] : [];
+    runs.push({ band, coordinates: [...start, coordinate] });
+  });
+  return runs;
+}
+
+/**
+ * Places where the driver stayed within DWELL_RADIUS_M for at least DWELL_MIN_MS. Points are
+ * expected oldest first (as returned by getTripLocationHistory).
+ */
+export function findDwells(points: TripLocationPoint[]): Dwell[] {
+  const dwells: Dwell[] = [];
+  let start = 0;
+  while (start < points.length) {
+    let end = start;
+    while (end + 1 < points.length && distanceMeters(points[start], points[end + 1]) <= DWELL_RADIUS_M) {
+      end += 1;
+    }
+    const startAt = new Date(points[start].capturedAt).getTime();
+    const endAt = new Date(points[end].capturedAt).getTime();
+    if (end > start && endAt - startAt >= DWELL_MIN_MS) {
+      const group = points.slice(start, end + 1);
+      dwells.push({
+        lat: group.reduce((sum, p) => sum + p.lat, 0) / group.length,
+        lng: group.reduce((sum, p) => sum + p.lng, 0) / group.length,
+        startAt,
+        endAt,
+        durationMs: endAt - startAt,
+      });
+    }
+    start = end + 1;
+  }
+  return dwells;
+}
+
+/**
+ * Planned vs actual arrival for each stop (in sequence order). Stops have no coordinates, so a
+ * dwell is attributed to a stop by time: the dwell around the stop's Arrived / Completed change.
+ */
+export function getStopArrivals(stops: Stop[], dwells: Dwell[]): StopArrival[] {
+  return [...stops]
+    .sort((a, b) => a.sequence - b.sequence)
+    .map((stop) => {
+      const history = stop.statusHistory ?? [];
+      const arrived = history.find((e) => e.status === 'Arrived') ?? history.find((e) => e.status === 'Completed');
+      const reportedAt = toTime(arrived?.at ?? stop.pod?.signedAt);
+      const dwell =
+        reportedAt == null
+          ? null
+          : dwells.find(
+              (d) => reportedAt >= d.startAt - DWELL_MATCH_MARGIN_MS && reportedAt <= d.endAt + DWELL_MATCH_MARGIN_MS
+            ) ?? null;
+      const plannedAt = toTime(stop.plannedAt) ?? toTime(stop.windowStart);
+      const windowEnd = toTime(stop.windowEnd) ?? plannedAt;
+      const deadline = windowEnd == null ? null : windowEnd + ON_TIME_GRACE_MS;
+      // The GPS arrival is the earlier of the two: drivers sometimes tap Arrived after walking up
+      const actual = dwell ? Math.min(dwell.startAt, reportedAt as number) : reportedAt;
+      return {
+        stop,
+        plannedAt,
+        deadline,
+        reportedAt,
+        dwell,
+        delayMinutes: actual != null && plannedAt != null ? Math.round((actual - plannedAt) / 60000) : null,
+        late: actual != null && deadline != null && actual > deadline,
+      };
+    });
+}
+
+/** Index of the last point captured at or before time (0 when time is before the first point) */
+export function indexAtTime(points: TripLocationPoint[], time: number): number {
+  let low = 0;
+  let high = points.length - 1;
+  let result = 0;
+  while (low <= high) {
+    const mid = Math.floor((low + high) / 2);
+    if (new Date(points[mid].capturedAt).getTime() <= time) {
+      result = mid;
+      low = mid + 1;
+    } else {
+      high = mid - 1;
+    }
+  }
+  return result;
+}
+
+/** "8 min", "1 h 05 min" */
+export function formatDuration(ms: number): string {
+  const minutes = Math.round(ms / 60000);
+  if (minutes < 60) return `${minutes} min`;
+  return `${Math.floor(minutes / 60)} h ${String(minutes % 60).padStart(2, '0')} min`;
+}
+
+export function formatClock(time: number | null): string {
+  if (time == null) return '—';
+  return new Date(time).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+}
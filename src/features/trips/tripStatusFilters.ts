@@ -0,0 +1,27 @@
+/**
+ * Status filters of the admin trips list. Filters are labelled for display ("In Transit"), while the
+ * API stores trip statuses without spaces ("InTransit", see patchTripStatus in api/transport.ts).
+ */
+
+export const STATUS_FILTERS = ['All', 'Scheduled', 'In Transit', 'Completed', 'Cancelled'];
+
+/** API values of the filters whose label differs */
+const API_STATUSES: Record<string, string> = {
+  'In Transit': 'InTransit',
+};
+
+/** Lowercase without spaces, so "In Transit" and "InTransit" compare equal */
+export function normalizeStatus(status: string | undefined): string {
+  return (status ?? '').toLowerCase().replace(/\s+/g, '');
+}
+
+/** The status query value for a filter label; undefined for All */
+export function toStatusQuery(filter: string): string | undefined {
+  if (filter === 'All') return undefined;
+  return API_STATUSES[filter] ?? filter;
+}
+
+/** Local filter on top of the query, in case the backend ignores it */
+export function matchesStatusFilter(tripStatus: string | undefined, filter: string): boolean {
+  return filter === 'All' || normalizeStatus(tripStatus) === normalizeStatus(filter);
+}
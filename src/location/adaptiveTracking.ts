@@ -0,0 +1,161 @@
+/**
+ * Adaptive background tracking: picks a tracking profile from recent fixes and the battery.
+ * - lowBattery: battery at or below lowBatteryPercent, or battery saver on (whatever the driver is doing)
+ * - fast: faster than fastSpeedKmh
+ * - stationary: slower than stationarySpeedKmh for stationaryAfterS, or straight away when parked
+ *   inside a stop geofence
+ * - moving: anything else
+ * The tenant's knobs (DriverSettings.tracking) are persisted in MMKV so the background task can read them.
+ */
+import * as Battery from 'expo-battery';
+import * as Location from 'expo-location';
+import { createMMKV } from 'react-native-mmkv';
+import { DEFAULT_TRACKING_POLICY, type TrackingPolicy } from '../api/driver';
+import { createLogger } from '../shared/utils/logger';
+
+export type TrackingProfile = 'stationary' | 'moving' | 'fast' | 'lowBattery';
+
+export interface TrackingFix {
+  /** km/h; null when the device did not report it */
+  speedKmh: number | null;
+  capturedAt: number;
+}
+
+const POLICY_KEY = 'opsflow_tracking_policy';
+
+/** Battery is re-read at most this often */
+const BATTERY_CHECK_MS = 5 * 60 * 1000;
+
+const PROFILE_OPTIONS: Record<TrackingProfile, { accuracy: Location.LocationAccuracy; distanceInterval: number }> = {
+  stationary: { accuracy: Location.LocationAccuracy.Balanced, distanceInterval: 50 },
+  moving: { accuracy: Location.LocationAccuracy.High, distanceInterval: 20 },
+  fast: { accuracy: Location.LocationAccuracy.High, distanceInterval: 50 },
+  lowBattery: { accuracy: Location.LocationAccuracy.Balanced, distanceInterval: 100 },
+};
+
+const storage = createMMKV({
+  id: 'opsflow-tracking-policy',
+});
+
+const log = createLogger('tracking');
+
+let batteryState: { low: boolean; checkedAt: number } | null = null;
+/** Start of the current run of slow fixes */
+let slowSince: number | null = null;
+/** Profile + policy the running task was started with */
+let appliedKey: string | null = null;
+
+function getIntervalS(profile: TrackingProfile, policy: TrackingPolicy): number {
+  switch (profile) {
+    case 'stationary':
+      return policy.stationaryIntervalS;
+    case 'fast':
+      return policy.fastIntervalS;
+    case 'lowBattery':
+      return policy.lowBatteryIntervalS;
+    default:
+      return policy.movingIntervalS;
+  }
+}
+
+export function getTrackingOptions(profile: TrackingProfile, policy: TrackingPolicy): Location.LocationTaskOptions {
+  return {
+    ...PROFILE_OPTIONS[profile],
+    timeInterval: getIntervalS(profile, policy) * 1000,
+    pausesUpdatesAutomatically: false,
+    foregroundService: {
+      notificationTitle: 'OpsFlow tracking active',
+      notificationBody: 'Sharing live location for current trip',
+    },
+  };
+}
+
+export function getTrackingPolicy(): TrackingPolicy {
+  try {
+    const raw = storage.getString(POLICY_KEY);
+    return raw ? { ...DEFAULT_TRACKING_POLICY, ...JSON.parse(raw) } : DEFAULT_TRACKING_POLICY;
+  } catch (e) {
+    log.warn('Failed to read tracking policy', e);
+    return DEFAULT_TRACKING_POLICY;
+  }
+}
+
+/**
+ * Store the tenant's tracking policy; a running task picks it up with its next fixes.
+ */
+export function setTrackingPolicy(policy: TrackingPolicy): void {
+  try {
+    storage.set(POLICY_KEY, JSON.stringify(policy));
+  } catch (e) {
+    log.warn('Failed to persist tracking policy', e);
+  }
+}
+
+async function isBatteryLow(policy: TrackingPolicy, now: number): Promise<boolean> {
+  if (batteryState && now - batteryState.checkedAt < BATTERY_CHECK_MS) return batteryState.low;
+  try {
+    // Level is 0–1, or -1 when unknown (simulators)
+    const level = await Battery.getBatteryLevelAsync();
+    const saver = await Battery.isLowPowerModeEnabledAsync();
+    batteryState = { low: saver || (level >= 0 && level * 100 <= policy.lowBatteryPercent), checkedAt: now };
+  } catch (e) {
+    log.warn('Could not read battery level', e);
+    batteryState = { low: false, checkedAt: now };
+  }
+  return batteryState.low;
+}
+
+/**
+ * Profile for the latest fixes (oldest first). parked: the driver is inside a stop geofence.
+ */
+export async function chooseTrackingProfile(
+  fixes: TrackingFix[],
+  parked: boolean,
+  policy: TrackingPolicy = getTrackingPolicy()
+): Promise<TrackingProfile> {
+  let latestSpeed: number | null = null;
+  for (const fix of fixes) {
+    if (fix.speedKmh == null) continue;
+    latestSpeed = fix.speedKmh;
+    if (fix.speedKmh >= policy.stationarySpeedKmh) slowSince = null;
+    else slowSince ??= fix.capturedAt;
+  }
+  const latest = fixes[fixes.length - 1]?.capturedAt ?? Date.now();
+
+  if (await isBatteryLow(policy, latest)) return 'lowBattery';
+  if (latestSpeed != null && latestSpeed > policy.fastSpeedKmh) return 'fast';
+  if (slowSince != null && (parked || latest - slowSince >= policy.stationaryAfterS * 1000)) return 'stationary';
+  return 'moving';
+}
+
+/**
+ * Restart the location task with new options when the profile (or the tenant policy) changed.
+ * Called from the task itself with each batch of fixes.
+ */
+export async function adaptTracking(taskName: string, fixes: TrackingFix[], parked: boolean): Promise<void> {
+  const policy = getTrackingPolicy();
+  const profile = await chooseTrackingProfile(fixes, parked, policy);
+  const key = `${profile}:${JSON.stringify(policy)}`;
+  if (key === appliedKey) return;
+  await Location.startLocationUpdatesAsync(taskName, getTrackingOptions(profile, policy));
+  appliedKey = key;
+  log.info(`Tracking profile: ${profile}`);
+}
+
+/**
+ * Options for starting the task: the moving profile until the first fixes arrive.
+ */
+export function getInitialTrackingOptions(): Location.LocationTaskOptions {
+  const policy = getTrackingPolicy();
+  appliedKey = `moving:${JSON.stringify(policy)}`;
+  return getTrackingOptions('moving', policy);
+}
+
+/**
+ * Forget motion and battery state (tracking stopped).
+ */
+export function resetTrackingState(): void {
+  slowSince = null;
+  batteryState = null;
+  appliedKey = null;
+}
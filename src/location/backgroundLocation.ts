@@ -1,11 +1,16 @@
 /**
  * Background location task for Android.
- * Registered once in App.tsx. Receives location updates from expo-location
- * and sends the latest to the driver location API.
+ * Registered once in App.tsx. Receives location updates from expo-location and buffers them for a
+ * batched upload to the driver location API (locationBatch.ts).
+ * Every fix in the batch is also checked against the active trip's stop geofences (stopGeofences.ts),
+ * and the tracking profile is adapted to motion and battery (adaptiveTracking.ts).
  * Location tracking is automatic and mandatory during active trips.
  */
 import * as TaskManager from 'expo-task-manager';
-import { updateLocation } from '../api/driver';
+import { adaptTracking, getTrackingPolicy } from './adaptiveTracking';
+import { bufferLocations, flushLocations, isLocationUploadDue } from './locationBatch';
+import { handleGeofenceFixes, isInsideStopGeofence } from './stopGeofences';
+import { createLogger } from '../shared/utils/logger';
 import type { LocationObject } from 'expo-location';
 
 export const BACKGROUND_LOCATION_TASK_NAME = 'BACKGROUND_LOCATION';
@@ -14,31 +19,56 @@ export interface BackgroundLocationData {
   locations: LocationObject[];
 }
 
+const log = createLogger('backgroundLocation');
+
+/** m/s from the device to km/h; null when not reported (negative on some devices) */
+function toKmh(speed: number | null): number | null {
+  return speed != null && speed >= 0 ? speed * 3.6 : null;
+}
+
 TaskManager.defineTask<BackgroundLocationData>(
   BACKGROUND_LOCATION_TASK_NAME,
   async ({ data, error }) => {
     if (error) {
-      console.error('Background location task error:', error);
+      log.error('Background location task error:', error);
       return;
     }
     const locations = data?.locations;
     if (!locations?.length) return;
 
-    const loc = locations[locations.length - 1];
-    const { coords, timestamp } = loc;
+    const fixes = locations.map(({ coords, timestamp }) => ({
+      lat: coords.latitude,
+      lng: coords.longitude,
+      accuracy: coords.accuracy ?? 0,
+      heading: coords.heading ?? undefined,
+      speed: toKmh(coords.speed) ?? undefined,
+      capturedAt: new Date(timestamp).toISOString(),
+    }));
+
+    // Always record location when tracking is active (automatic during active trips)
+    bufferLocations(fixes);
+    if (isLocationUploadDue(getTrackingPolicy().uploadIntervalS)) {
+      try {
+        await flushLocations();
+      } catch (e) {
+        log.error('Failed to send background locations:', e);
+      }
+    }
+
+    try {
+      await handleGeofenceFixes(fixes.map((f) => ({ ...f, accuracy: f.accuracy || undefined })));
+    } catch (e) {
+      log.error('Failed to check stop geofences:', e);
+    }
 
-    // Always send location when tracking is active (automatic during active trips)
     try {
-      await updateLocation({
-        lat: coords.latitude,
-        lng: coords.longitude,
-        accuracy: coords.accuracy ?? 0,
-        heading: coords.heading ?? undefined,
-        speed: coords.speed != null ? coords.speed * 3.6 : undefined, // Convert m/s to km/h
-        capturedAt: new Date(timestamp).toISOString(),
-      });
+      await adaptTracking(
+        BACKGROUND_LOCATION_TASK_NAME,
+        locations.map(({ coords, timestamp }) => ({ speedKmh: toKmh(coords.speed), capturedAt: timestamp })),
+        isInsideStopGeofence()
+      );
     } catch (e) {
-      console.error('Failed to send background location:', e);
+      log.warn('Failed to adapt tracking profile:', e);
     }
   }
 );
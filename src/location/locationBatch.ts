@@ -0,0 +1,127 @@
+/**
+ * Buffered location uploads.
+ * The background task appends every fix to a buffer in MMKV (it survives the app being killed) and
+ * uploads the buffer in one request once its oldest fix is uploadIntervalS old, instead of one request
+ * per fix. Failed uploads stay buffered for the next attempt; the oldest fixes are dropped beyond
+ * MAX_BUFFERED_FIXES. Each fix gets a sequence number when buffered, so an upload removes exactly the
+ * fixes it sent even if the buffer changed while it was in flight. Backends without POST /driver/location/batch (404 / 405) get the latest fix
+ * via POST /driver/location instead, as before.
+ */
+import { createMMKV } from 'react-native-mmkv';
+import { updateLocation, updateLocationBatch, type UpdateLocationRequest } from '../api/driver';
+import { createLogger } from '../shared/utils/logger';
+
+const BUFFER_KEY = 'opsflow_location_buffer';
+const NEXT_SEQ_KEY = 'opsflow_location_next_seq';
+
+/** About 40 minutes at the fastest default rate; older fixes are dropped first */
+const MAX_BUFFERED_FIXES = 500;
+/** Larger buffers (after being offline) are sent in several requests */
+const MAX_BATCH_SIZE = 100;
+
+const storage = createMMKV({
+  id: 'opsflow-location-batch',
+});
+
+const log = createLogger('locationBatch');
+
+interface BufferedFix {
+  seq: number;
+  fix: UpdateLocationRequest;
+}
+
+let batchEndpointAvailable = true;
+let flushPromise: Promise<void> | null = null;
+
+function readBuffer(): BufferedFix[] {
+  try {
+    const raw = storage.getString(BUFFER_KEY);
+    const parsed = raw ? JSON.parse(raw) : [];
+    // Entries written before fixes had sequence numbers are dropped
+    return Array.isArray(parsed) ? (parsed as BufferedFix[]).filter((e) => typeof e?.seq === 'number' && e.fix) : [];
+  } catch (e) {
+    log.warn('Failed to read location buffer', e);
+    return [];
+  }
+}
+
+function writeBuffer(entries: BufferedFix[]): void {
+  try {
+    storage.set(BUFFER_KEY, JSON.stringify(entries));
+  } catch (e) {
+    log.warn('Failed to persist location buffer', e);
+  }
+}
+
+/**
+ * Add fixes (oldest first) to the upload buffer.
+ */
+export function bufferLocations(fixes: UpdateLocationRequest[]): void {
+  if (!fixes.length) return;
+  const firstSeq = storage.getNumber(NEXT_SEQ_KEY) ?? 0;
+  storage.set(NEXT_SEQ_KEY, firstSeq + fixes.length);
+  const entries = fixes.map((fix, i) => ({ seq: firstSeq + i, fix }));
+  writeBuffer([...readBuffer(), ...entries].slice(-MAX_BUFFERED_FIXES));
+}
+
+/**
+ * True when the oldest buffered fix has waited uploadIntervalS or a full batch is ready.
+ */
+export function isLocationUploadDue(uploadIntervalS: number, now: number = Date.now()): boolean {
+  const buffer = readBuffer();
+  if (!buffer.length) return false;
+  if (buffer.length >= MAX_BATCH_SIZE) return true;
+  const oldest = new Date(buffer[0].fix.capturedAt).getTime();
+  return !Number.isFinite(oldest) || now - oldest >= uploadIntervalS * 1000;
+}
+
+/** Remove the given entries; fixes buffered while they were in flight stay for the next batch */
+function removeSent(sent: BufferedFix[]): BufferedFix[] {
+  const seqs = new Set(sent.map((e) => e.seq));
+  const rest = readBuffer().filter((e) => !seqs.has(e.seq));
+  writeBuffer(rest);
+  return rest;
+}
+
+async function sendBuffer(): Promise<void> {
+  let buffer = readBuffer();
+  while (buffer.length) {
+    const batch = buffer.slice(0, MAX_BATCH_SIZE);
+    if (batchEndpointAvailable) {
+      try {
+        await updateLocationBatch(batch.map((e) => e.fix));
+      } catch (error) {
+        const status = (error as { statusCode?: number })?.statusCode;
+        if (status !== 404 && status !== 405) throw error;
+        batchEndpointAvailable = false;
+        log.info('Batch location endpoint not available; sending latest fix only');
+      }
+    }
+    if (!batchEndpointAvailable) {
+      await updateLocation(buffer[buffer.length - 1].fix);
+      removeSent(buffer);
+      return;
+    }
+    buffer = removeSent(batch);
+  }
+}
+
+/**
+ * Upload everything buffered. Concurrent calls share the same upload; on failure the fixes stay
+ * buffered and the error is thrown.
+ */
+export function flushLocations(): Promise<void> {
+  if (flushPromise) return flushPromise;
+  flushPromise = sendBuffer().finally(() => {
+    flushPromise = null;
+  });
+  return flushPromise;
+}
+
+/**
+ * Drop buffered fixes (tracking stopped; they must not be sent later under another session).
+ */
+export function clearLocationBuffer(): void {
+  // The sequence keeps counting, so an upload still in flight cannot remove fixes buffered after this
+  storage.remove(BUFFER_KEY);
+}
@@ -1,21 +1,17 @@
 /**
  * Driver background location service (Android).
  * Start/stop tracking only during active trips. Requests foreground + background permissions.
+ * Accuracy and update rate follow the adaptive tracking profile (adaptiveTracking.ts).
  */
 import { Platform } from 'react-native';
 import * as Location from 'expo-location';
 import { BACKGROUND_LOCATION_TASK_NAME } from './backgroundLocation';
+import { getInitialTrackingOptions, resetTrackingState } from './adaptiveTracking';
+import { clearLocationBuffer, flushLocations } from './locationBatch';
+import { clearStopGeofences } from './stopGeofences';
+import { createLogger } from '../shared/utils/logger';
 
-const TRACKING_OPTIONS: Location.LocationTaskOptions = {
-  accuracy: Location.LocationAccuracy.High,
-  timeInterval: 10000,
-  distanceInterval: 20,
-  pausesUpdatesAutomatically: false,
-  foregroundService: {
-    notificationTitle: 'OpsFlow tracking active',
-    notificationBody: 'Sharing live location for current trip',
-  },
-};
+const log = createLogger('locationService');
 
 /**
  * Request foreground and (on Android) background location permissions.
@@ -52,15 +48,25 @@ export async function startBackgroundTracking(): Promise<void> {
     throw new Error('Location permission denied (foreground or background).');
   }
 
-  await Location.startLocationUpdatesAsync(BACKGROUND_LOCATION_TASK_NAME, TRACKING_OPTIONS);
+  await Location.startLocationUpdatesAsync(BACKGROUND_LOCATION_TASK_NAME, getInitialTrackingOptions());
 }
 
 /**
- * Stop background location updates.
+ * Stop background location updates and drop the stop geofences (nothing is left to check them).
+ * Buffered fixes are sent one last time; whatever cannot be sent now is dropped so it is never
+ * uploaded under a later session.
  * Idempotent: hasStartedLocationUpdatesAsync guard returns early if not started.
  */
 export async function stopBackgroundTracking(): Promise<void> {
+  clearStopGeofences();
   if (Platform.OS !== 'android') return;
+  try {
+    await flushLocations();
+  } catch (e) {
+    log.warn('Could not send buffered locations before stopping:', e);
+  }
+  clearLocationBuffer();
+  resetTrackingState();
 
   const isStarted = await Location.hasStartedLocationUpdatesAsync(BACKGROUND_LOCATION_TASK_NAME);
   if (!isStarted) {
@@ -70,7 +76,7 @@ export async function stopBackgroundTracking(): Promise<void> {
   try {
     await Location.stopLocationUpdatesAsync(BACKGROUND_LOCATION_TASK_NAME);
   } catch (e) {
-    console.warn('stopBackgroundTracking:', e);
+    log.warn('stopBackgroundTracking:', e);
   }
 }
 
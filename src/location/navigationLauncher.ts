@@ -0,0 +1,132 @@
+/**
+ * Turn-by-turn handoff to an external navigation app (Google Maps, Waze or Apple Maps).
+ * The driver's choice is stored on the device. Stops are passed as coordinates when they have them,
+ * otherwise as their address. Only Google Maps takes waypoints: with the others the route covers the
+ * first stop only, and the driver comes back to the app for the next one.
+ * The last handoff is remembered so Trip Execution can move on to the next stop when the driver
+ * returns to the app.
+ */
+import { Linking, Platform } from 'react-native';
+import { createMMKV } from 'react-native-mmkv';
+import { Stop } from '../api/types';
+import { createLogger } from '../shared/utils/logger';
+
+export type NavigationApp = 'google' | 'waze' | 'apple';
+
+export interface NavigationTarget {
+  address: string;
+  lat?: number;
+  lng?: number;
+}
+
+export interface NavigationHandoff {
+  tripId: string;
+  /** Stop the driver was sent to first */
+  stopId: string;
+  startedAt: number;
+}
+
+const NAVIGATION_APP_KEY = 'opsflow_navigation_app';
+
+/** Google Maps URLs accept up to 9 waypoints; later stops are left for the next handoff */
+const MAX_GOOGLE_WAYPOINTS = 9;
+
+export const NAVIGATION_APP_LABELS: Record<NavigationApp, string> = {
+  google: 'Google Maps',
+  waze: 'Waze',
+  apple: 'Apple Maps',
+};
+
+const storage = createMMKV({
+  id: 'opsflow-navigation',
+});
+
+const log = createLogger('navigation');
+
+let lastHandoff: NavigationHandoff | null = null;
+
+/** Apps the driver can choose on this platform */
+export function getAvailableNavigationApps(): NavigationApp[] {
+  return Platform.OS === 'ios' ? ['apple', 'google', 'waze'] : ['google', 'waze'];
+}
+
+export function getNavigationApp(): NavigationApp {
+  const stored = storage.getString(NAVIGATION_APP_KEY) as NavigationApp | undefined;
+  if (stored && getAvailableNavigationApps().includes(stored)) return stored;
+  return Platform.OS === 'ios' ? 'apple' : 'google';
+}
+
+export function setNavigationApp(app: NavigationApp): void {
+  storage.set(NAVIGATION_APP_KEY, app);
+}
+
+export function toNavigationTarget(stop: Stop): NavigationTarget {
+  return {
+    address: [stop.addressLine1, stop.city, stop.postalCode].filter(Boolean).join(', ') || stop.addressLine1,
+    lat: stop.lat,
+    lng: stop.lng,
+  };
+}
+
+function formatTarget(target: NavigationTarget): string {
+  return target.lat != null && target.lng != null ? `${target.lat},${target.lng}` : target.address;
+}
+
+/**
+ * URL that starts navigation through the given targets (in order) in the chosen app.
+ */
+export function buildNavigationUrl(app: NavigationApp, targets: NavigationTarget[]): string {
+  const [first] = targets;
+  switch (app) {
+    case 'waze': {
+      const params =
+        first.lat != null && first.lng != null
+          ? `ll=${encodeURIComponent(`${first.lat},${first.lng}`)}`
+          : `q=${encodeURIComponent(first.address)}`;
+      return `https://waze.com/ul?${params}&navigate=yes`;
+    }
+    case 'apple':
+      return `https://maps.apple.com/?daddr=${encodeURIComponent(formatTarget(first))}&dirflg=d`;
+    default: {
+      const route = targets.slice(0, MAX_GOOGLE_WAYPOINTS + 1);
+      const destination = route[route.length - 1];
+      const waypoints = route.slice(0, -1).map(formatTarget).join('|');
+      return (
+        'https://www.google.com/maps/dir/?api=1&travelmode=driving' +
+        `&destination=${encodeURIComponent(formatTarget(destination))}` +
+        (waypoints ? `&waypoints=${encodeURIComponent(waypoints)}` : '')
+      );
+    }
+  }
+}
+
+/**
+ * Open the driver's navigation app for the stops (next stop first). Falls back to Google Maps in the
+ * browser when the preferred app cannot be opened. Throws when nothing can be opened.
+ * Pass tripId / the first stop's id to get a handoff for auto-advance (see consumeNavigationHandoff).
+ */
+export async function launchNavigation(
+  targets: NavigationTarget[],
+  handoff?: { tripId: string; stopId: string }
+): Promise<void> {
+  if (!targets.length) return;
+  const app = getNavigationApp();
+  try {
+    await Linking.openURL(buildNavigationUrl(app, targets));
+  } catch (error) {
+    if (app === 'google') throw error;
+    log.warn(`${NAVIGATION_APP_LABELS[app]} could not be opened, using Google Maps`, error);
+    await Linking.openURL(buildNavigationUrl('google', targets));
+  }
+  lastHandoff = handoff ? { ...handoff, startedAt: Date.now() } : null;
+}
+
+/**
+ * The handoff started for this trip, if any; cleared once read so it is acted on only once.
+ */
+export function consumeNavigationHandoff(tripId: string): NavigationHandoff | null {
+  if (lastHandoff?.tripId !== tripId) return null;
+  const handoff = lastHandoff;
+  lastHandoff = null;
+  return handoff;
+}
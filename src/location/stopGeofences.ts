@@ -0,0 +1,256 @@
+/**
+ * Stop geofences: automatic arrival / departure detection for the active trip.
+ * The trip's pending stops are kept in MMKV because the background location task runs without React
+ * state. Every background fix is checked against them: coming within the tenant's radius records an
+ * arrival, moving out beyond EXIT_RADIUS_FACTOR × radius records a departure. Both go through the
+ * driver outbox with the fix's capture time as occurredAt, so they keep their real time when sent later.
+ * On arrival the stop is either started straight away (tenant mode 'auto') or an arrival prompt is
+ * stored for Trip Execution to ask the driver ('prompt'); either way startStop carries the arrival time.
+ * Stops without coordinates from the API are geocoded on the device once per trip.
+ */
+import * as Location from 'expo-location';
+import { createMMKV } from 'react-native-mmkv';
+import type { DriverSettings } from '../api/driver';
+import { Stop, Trip } from '../api/types';
+import { submitDriverAction, type DriverAction } from '../offline/driverOutbox';
+import { distanceMeters, LatLng } from '../shared/utils/geo';
+import { createLogger } from '../shared/utils/logger';
+
+const STATE_KEY = 'opsflow_stop_geofences';
+const PROMPTS_KEY = 'opsflow_arrival_prompts';
+
+/** Leaving needs a larger distance than entering, so GPS jitter at the boundary does not flap */
+const EXIT_RADIUS_FACTOR = 1.5;
+
+const storage = createMMKV({
+  id: 'opsflow-stop-geofences',
+});
+
+const log = createLogger('geofence');
+
+interface StopGeofence extends LatLng {
+  stopId: string;
+  /** Address shown in the arrival prompt */
+  label: string;
+  /** Stop is Arrived already; arrival / departure are still recorded but the stop is not started again */
+  started: boolean;
+  /** Stop is Completed / Failed; kept only until the driver leaves so the departure is recorded */
+  done: boolean;
+  inside: boolean;
+}
+
+interface GeofenceState {
+  tripId: string;
+  radiusM: number;
+  arrivalMode: DriverSettings['geofenceArrivalMode'];
+  fences: StopGeofence[];
+}
+
+export interface ArrivalPrompt {
+  tripId: string;
+  stopId: string;
+  label: string;
+  /** Capture time of the fix that entered the geofence (ISO) */
+  arrivedAt: string;
+}
+
+export interface GeofenceFix extends LatLng {
+  accuracy?: number;
+  capturedAt: string;
+}
+
+type PromptListener = (prompts: ArrivalPrompt[]) => void;
+
+let promptListeners: PromptListener[] = [];
+
+function readJson<T>(key: string, fallback: T): T {
+  try {
+    const raw = storage.getString(key);
+    return raw ? (JSON.parse(raw) as T) : fallback;
+  } catch (e) {
+    log.warn(`Failed to read ${key}`, e);
+    return fallback;
+  }
+}
+
+function writeJson(key: string, value: unknown): void {
+  try {
+    storage.set(key, JSON.stringify(value));
+  } catch (e) {
+    log.warn(`Failed to persist ${key}`, e);
+  }
+}
+
+function readState(): GeofenceState | null {
+  return readJson<GeofenceState | null>(STATE_KEY, null);
+}
+
+function readPrompts(): ArrivalPrompt[] {
+  return readJson<ArrivalPrompt[]>(PROMPTS_KEY, []);
+}
+
+function writePrompts(prompts: ArrivalPrompt[]): void {
+  writeJson(PROMPTS_KEY, prompts);
+  promptListeners.forEach((listener) => listener(prompts));
+}
+
+function getStopLabel(stop: Stop): string {
+  return [stop.addressLine1, stop.city].filter(Boolean).join(', ') || stop.addressLine1 || 'Stop';
+}
+
+async function geocodeStop(stop: Stop): Promise<LatLng | null> {
+  const address = [stop.addressLine1, stop.city, stop.postalCode].filter(Boolean).join(', ');
+  if (!address) return null;
+  try {
+    const [first] = await Location.geocodeAsync(address);
+    return first ? { lat: first.latitude, lng: first.longitude } : null;
+  } catch (e) {
+    log.warn('Could not geocode stop address', e);
+    return null;
+  }
+}
+
+/**
+ * Register geofences for the trip's pending stops (replacing those of any other trip). Call whenever
+ * the active trip or its stops change; inside / outside state of unchanged stops is kept.
+ */
+export async function syncStopGeofences(trip: Trip, settings: DriverSettings): Promise<void> {
+  const known = readState();
+  const knownFences = known?.tripId === trip.id ? known.fences : [];
+
+  // Geocode first: the background task may update the state meanwhile, so it is re-read afterwards
+  const coordinates = new Map<string, LatLng>();
+  for (const stop of trip.stops ?? []) {
+    const existing = knownFences.find((f) => f.stopId === stop.id);
+    const coords =
+      stop.lat != null && stop.lng != null
+        ? { lat: stop.lat, lng: stop.lng }
+        : existing
+          ? { lat: existing.lat, lng: existing.lng }
+          : await geocodeStop(stop);
+    if (coords) coordinates.set(stop.id, coords);
+  }
+
+  const current = readState();
+  const currentFences = current?.tripId === trip.id ? current.fences : [];
+  const fences: StopGeofence[] = [];
+  for (const stop of trip.stops ?? []) {
+    const coords = coordinates.get(stop.id);
+    const previous = currentFences.find((f) => f.stopId === stop.id);
+    const done = stop.status === 'Completed' || stop.status === 'Failed';
+    if (!coords || (done && !previous?.inside)) continue;
+    fences.push({
+      stopId: stop.id,
+      ...coords,
+      label: getStopLabel(stop),
+      started: stop.status === 'Arrived' || Boolean(previous?.started),
+      done,
+      inside: previous?.inside ?? false,
+    });
+  }
+
+  writeJson(STATE_KEY, {
+    tripId: trip.id,
+    radiusM: settings.geofenceRadiusM,
+    arrivalMode: settings.geofenceArrivalMode,
+    fences,
+  } satisfies GeofenceState);
+  // Prompts for stops the driver has started (or that left the trip) are no longer relevant
+  const prompts = readPrompts();
+  const open = prompts.filter((p) => p.tripId === trip.id && fences.some((f) => f.stopId === p.stopId && !f.started));
+  if (open.length !== prompts.length) writePrompts(open);
+}
+
+/**
+ * Remove all geofences and arrival prompts (trip ended, tracking stopped, user switched).
+ */
+export function clearStopGeofences(): void {
+  storage.remove(STATE_KEY);
+  if (readPrompts().length) writePrompts([]);
+}
+
+/**
+ * True while the driver is within a stop's geofence (parked at a stop).
+ */
+export function isInsideStopGeofence(): boolean {
+  return readState()?.fences.some((f) => f.inside) ?? false;
+}
+
+/**
+ * Check location fixes (oldest first) against the stored geofences and record arrivals / departures.
+ * Called from the background location task.
+ */
+export async function handleGeofenceFixes(fixes: GeofenceFix[]): Promise<void> {
+  const state = readState();
+  if (!state?.fences.length) return;
+
+  const actions: DriverAction[] = [];
+  const newPrompts: ArrivalPrompt[] = [];
+  for (const fix of fixes) {
+    // A fix less accurate than the radius cannot tell inside from outside
+    if (fix.accuracy != null && fix.accuracy > state.radiusM) continue;
+    for (const fence of state.fences) {
+      const distance = distanceMeters(fence, fix);
+      let event: 'arrival' | 'departure' | null = null;
+      if (!fence.inside && distance <= state.radiusM) event = 'arrival';
+      else if (fence.inside && distance > state.radiusM * EXIT_RADIUS_FACTOR) event = 'departure';
+      if (!event) continue;
+
+      fence.inside = event === 'arrival';
+      actions.push({
+        kind: 'geofenceEvent',
+        tripId: state.tripId,
+        stopId: fence.stopId,
+        occurredAt: fix.capturedAt,
+        payload: { event, lat: fix.lat, lng: fix.lng, accuracy: fix.accuracy },
+      });
+      if (event !== 'arrival' || fence.started || fence.done) continue;
+      fence.started = state.arrivalMode === 'auto';
+      if (fence.started) {
+        actions.push({ kind: 'startStop', tripId: state.tripId, stopId: fence.stopId, occurredAt: fix.capturedAt });
+      } else {
+        newPrompts.push({ tripId: state.tripId, stopId: fence.stopId, label: fence.label, arrivedAt: fix.capturedAt });
+      }
+    }
+  }
+  if (!actions.length) return;
+
+  // State is saved before sending so a slow request cannot cause the same crossing to be recorded twice
+  writeJson(STATE_KEY, { ...state, fences: state.fences.filter((f) => !f.done || f.inside) });
+  if (newPrompts.length) {
+    const prompts = readPrompts().filter((p) => !newPrompts.some((n) => n.stopId === p.stopId));
+    writePrompts([...prompts, ...newPrompts]);
+  }
+  for (const action of actions) {
+    try {
+      await submitDriverAction(action);
+    } catch (e) {
+      log.warn(`Geofence ${action.kind} rejected`, e);
+    }
+  }
+}
+
+/**
+ * Arrivals waiting for the driver to confirm (prompt mode), optionally for one trip.
+ */
+export function getArrivalPrompts(tripId?: string): ArrivalPrompt[] {
+  const prompts = readPrompts();
+  return tripId ? prompts.filter((p) => p.tripId === tripId) : prompts;
+}
+
+/**
+ * Drop a prompt once it has been shown (the driver either started the stop or declined).
+ */
+export function dismissArrivalPrompt(stopId: string): void {
+  writePrompts(readPrompts().filter((p) => p.stopId !== stopId));
+}
+
+/**
+ * Subscribe to arrival prompt changes. Returns an unsubscribe function.
+ */
+export function subscribeArrivalPrompts(listener: PromptListener): () => void {
+  promptListeners.push(listener);
+  return () => {
+    promptListeners = promptListeners.filter((l) => l !== listener);
+  };
+}
@@ -0,0 +1,350 @@
+/**
+ * Driver action outbox (offline-first).
+ * Driver mutations (start trip, start stop, complete stop, fail stop, geofence arrival / departure) are
+ * sent immediately when online.
+ * When the API cannot be reached they are persisted in MMKV with their client timestamp and
+ * replayed in order once connectivity returns (NetInfo) or the app comes back to the foreground.
+ * Conflicts (e.g. stop reassigned meanwhile) are kept as failed entries so the driver sees them.
+ * POD / evidence photos are uploaded as part of completeStop / failStop; each storage key is persisted
+ * as soon as its upload finishes, so an interrupted submission resumes with the remaining photos only.
+ */
+import { AppState } from 'react-native';
+import NetInfo from '@react-native-community/netinfo';
+import { createMMKV } from 'react-native-mmkv';
+import { apiClient, getErrorMessage } from '../api/client';
+import {
+  driverRoutes,
+  type CompleteStopPayload,
+  type DriverActionPayload,
+  type FailStopPayload,
+  type GeofenceEventPayload,
+} from '../api/driver';
+import { uploadPodPhoto } from '../api/pod';
+import { deletePodPhotoFiles } from '../shared/utils/podPhotos';
+import { createLogger } from '../shared/utils/logger';
+
+const OUTBOX_KEY = 'opsflow_driver_outbox';
+
+const storage = createMMKV({
+  id: 'opsflow-driver-outbox',
+});
+
+const log = createLogger('outbox');
+
+export type DriverActionKind = 'startTrip' | 'startStop' | 'completeStop' | 'failStop' | 'geofenceEvent';
+
+export type DriverAction = (
+  | { kind: 'startTrip'; tripId: string }
+  | { kind: 'startStop'; tripId: string; stopId: string }
+  | {
+      kind: 'completeStop';
+      tripId: string;
+      stopId: string;
+      payload: CompleteStopPayload;
+      /** Local POD photo files to upload; their storage keys are sent as podPhotoKeys */
+      photoUris?: string[];
+    }
+  | {
+      kind: 'failStop';
+      tripId: string;
+      stopId: string;
+      payload: FailStopPayload;
+      /** Local evidence photo files to upload; their storage keys are sent as evidencePhotoKeys */
+      photoUris?: string[];
+    }
+  | { kind: 'geofenceEvent'; tripId: string; stopId: string; payload: GeofenceEventPayload }
+) & {
+  /** When the action happened (ISO); defaults to now. Set for actions detected earlier, e.g. geofence arrival */
+  occurredAt?: string;
+};
+
+export type OutboxEntryStatus = 'pending' | 'syncing' | 'failed';
+
+export interface OutboxUpload {
+  uri: string;
+  /** Storage key once uploaded */
+  key?: string;
+}
+
+export interface OutboxEntry {
+  id: string;
+  kind: DriverActionKind;
+  tripId: string;
+  stopId?: string;
+  url: string;
+  /** Canonical driver API body (see api/driver.ts); photo keys are added at send time */
+  body: DriverActionPayload | CompleteStopPayload | FailStopPayload | GeofenceEventPayload;
+  /** POD / evidence photos for completeStop / failStop, uploaded before the request is sent */
+  uploads?: OutboxUpload[];
+  /** Client timestamp of the action (ISO); also sent to the API as occurredAt */
+  occurredAt: string;
+  attempts: number;
+  status: OutboxEntryStatus;
+  /** Set when status is 'failed' (conflict / rejected by the API) */
+  error?: string;
+}
+
+export interface SubmitResult {
+  /** True when the action was stored for later replay instead of reaching the API now */
+  queued: boolean;
+}
+
+type OutboxListener = (entries: OutboxEntry[]) => void;
+
+let listeners: OutboxListener[] = [];
+let replayPromise: Promise<void> | null = null;
+
+function generateId(): string {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+}
+
+function readEntries(): OutboxEntry[] {
+  try {
+    const raw = storage.getString(OUTBOX_KEY);
+    if (!raw) return [];
+    const parsed = JSON.parse(raw);
+    return Array.isArray(parsed) ? (parsed as OutboxEntry[]) : [];
+  } catch (e) {
+    log.warn('Failed to read driver outbox:', e);
+    return [];
+  }
+}
+
+function writeEntries(entries: OutboxEntry[]): void {
+  try {
+    storage.set(OUTBOX_KEY, JSON.stringify(entries));
+  } catch (e) {
+    log.warn('Failed to persist driver outbox:', e);
+  }
+  listeners.forEach((listener) => listener(entries));
+}
+
+function updateEntry(id: string, patch: Partial<OutboxEntry>): void {
+  writeEntries(readEntries().map((e) => (e.id === id ? { ...e, ...patch } : e)));
+}
+
+function removeEntry(id: string): void {
+  writeEntries(readEntries().filter((e) => e.id !== id));
+}
+
+function buildEntry(action: DriverAction): OutboxEntry {
+  const occurredAt = action.occurredAt ?? new Date().toISOString();
+  const base = { id: generateId(), tripId: action.tripId, occurredAt, attempts: 0, status: 'pending' as const };
+  switch (action.kind) {
+    case 'startTrip':
+      return { ...base, kind: action.kind, url: driverRoutes.startTrip(action.tripId), body: { occurredAt } };
+    case 'startStop':
+      return {
+        ...base,
+        kind: action.kind,
+        stopId: action.stopId,
+        url: driverRoutes.startStop(action.stopId),
+        body: { occurredAt },
+      };
+    case 'completeStop':
+      return {
+        ...base,
+        kind: action.kind,
+        stopId: action.stopId,
+        url: driverRoutes.completeStop(action.stopId),
+        body: { ...action.payload, occurredAt },
+        uploads: action.photoUris?.length ? action.photoUris.map((uri) => ({ uri })) : undefined,
+      };
+    case 'failStop':
+      return {
+        ...base,
+        kind: action.kind,
+        stopId: action.stopId,
+        url: driverRoutes.failStop(action.stopId),
+        body: { ...action.payload, occurredAt },
+        uploads: action.photoUris?.length ? action.photoUris.map((uri) => ({ uri })) : undefined,
+      };
+    case 'geofenceEvent':
+      return {
+        ...base,
+        kind: action.kind,
+        stopId: action.stopId,
+        url: driverRoutes.stopGeofenceEvent(action.stopId),
+        body: { ...action.payload, occurredAt },
+      };
+  }
+}
+
+/** Rejections from apiClient interceptors are plain objects; see client.ts */
+type ApiRejection = { isNetworkError?: boolean; isAuthError?: boolean; statusCode?: number };
+
+/** True when the request should stay in the outbox and be retried later */
+function isTransientError(error: unknown): boolean {
+  const e = (error ?? {}) as ApiRejection;
+  if (e.isNetworkError || e.isAuthError) return true;
+  return e.statusCode != null && (e.statusCode >= 500 || e.statusCode === 408 || e.statusCode === 429);
+}
+
+/** Human-readable reason for a conflict / rejected action */
+function describeFailure(entry: OutboxEntry, error: unknown): string {
+  const status = (error as ApiRejection)?.statusCode;
+  if (status === 404 || status === 409 || status === 403) {
+    const subject = entry.kind === 'startTrip' ? 'This trip' : 'This stop';
+    const detail = getErrorMessage(error);
+    return `${subject} was changed by dispatch (e.g. reassigned) before your action synced.${detail ? ` ${detail}` : ''}`;
+  }
+  return getErrorMessage(error);
+}
+
+/**
+ * Upload any photos not yet uploaded (persisting each key), then send the action.
+ */
+async function sendEntry(entry: OutboxEntry): Promise<void> {
+  let body = entry.body;
+  if (entry.uploads?.length && entry.stopId) {
+    let uploads = entry.uploads;
+    for (let i = 0; i < uploads.length; i++) {
+      if (uploads[i].key) continue;
+      const { key } = await uploadPodPhoto(entry.stopId, { uri: uploads[i].uri });
+      uploads = uploads.map((u, idx) => (idx === i ? { ...u, key } : u));
+      updateEntry(entry.id, { uploads });
+    }
+    const keysField = entry.kind === 'failStop' ? 'evidencePhotoKeys' : 'podPhotoKeys';
+    body = { ...body, [keysField]: uploads.map((u) => u.key) };
+  }
+  // The entry id is the Idempotency-Key, so a replay after an unanswered attempt is not applied twice
+  await apiClient.post(entry.url, body, { idempotencyKey: entry.id });
+  if (entry.uploads?.length) deletePodPhotoFiles(entry.uploads.map((u) => u.uri));
+}
+
+/**
+ * Get all outbox entries (pending and failed), oldest first.
+ */
+export function getOutboxEntries(): OutboxEntry[] {
+  return readEntries();
+}
+
+/**
+ * Subscribe to outbox changes. Returns an unsubscribe function.
+ */
+export function subscribeOutbox(listener: OutboxListener): () => void {
+  listeners.push(listener);
+  return () => {
+    listeners = listeners.filter((l) => l !== listener);
+  };
+}
+
+/**
+ * Submit a driver action. Sends it straight away when nothing is queued; otherwise (or when the
+ * API is unreachable) keeps it in the outbox so ordering is preserved.
+ * The entry is persisted before sending, so an app kill mid-request (e.g. during photo upload)
+ * is resumed by the next replay.
+ * Throws for non-transient API errors on the direct path (same as the plain API functions).
+ */
+export async function submitDriverAction(action: DriverAction): Promise<SubmitResult> {
+  const entry = buildEntry(action);
+  const hasBacklog = readEntries().some((e) => e.status !== 'failed');
+
+  if (hasBacklog) {
+    writeEntries([...readEntries(), entry]);
+    replayOutbox();
+    return { queued: true };
+  }
+
+  writeEntries([...readEntries(), { ...entry, status: 'syncing', attempts: 1 }]);
+  try {
+    await sendEntry(entry);
+    removeEntry(entry.id);
+    // Actions submitted while this one was in flight were queued behind it
+    if (readEntries().some((e) => e.status === 'pending')) replayOutbox();
+    return { queued: false };
+  } catch (error) {
+    if ((error as ApiRejection)?.isNetworkError) {
+      updateEntry(entry.id, { status: 'pending' });
+      return { queued: true };
+    }
+    removeEntry(entry.id);
+    throw new Error(getErrorMessage(error));
+  }
+}
+
+/**
+ * Replay pending entries in order. Stops at the first transient error (still offline);
+ * conflicts are marked failed and replay continues with the next entry.
+ * Concurrent calls share the same in-flight replay; entries queued (or retried) while it runs are
+ * picked up before it settles.
+ */
+export function replayOutbox(): Promise<void> {
+  if (replayPromise) return replayPromise;
+
+  replayPromise = (async () => {
+    let queue = readEntries().filter((e) => e.status !== 'failed');
+    while (queue.length > 0) {
+      for (const queued of queue) {
+        // Entry may have been discarded while an earlier one was in flight
+        const entry = readEntries().find((e) => e.id === queued.id);
+        if (!entry || entry.status === 'failed') continue;
+        // Being sent by submitDriverAction; later entries must wait for it
+        if (entry.status === 'syncing') return;
+
+        updateEntry(entry.id, { status: 'syncing', attempts: entry.attempts + 1 });
+        try {
+          await sendEntry(entry);
+          removeEntry(entry.id);
+        } catch (error) {
+          if (isTransientError(error)) {
+            updateEntry(entry.id, { status: 'pending' });
+            return;
+          }
+          updateEntry(entry.id, { status: 'failed', error: describeFailure(entry, error) });
+        }
+      }
+      // The snapshot above did not include actions submitted during this pass
+      queue = readEntries().filter((e) => e.status === 'pending');
+    }
+  })().finally(() => {
+    replayPromise = null;
+  });
+
+  return replayPromise;
+}
+
+/**
+ * Move a failed entry back to pending and replay.
+ */
+export function retryOutboxEntry(id: string): Promise<void> {
+  updateEntry(id, { status: 'pending', error: undefined });
+  return replayOutbox();
+}
+
+/**
+ * Drop an entry (e.g. driver acknowledges a conflict).
+ */
+export function discardOutboxEntry(id: string): void {
+  const entry = readEntries().find((e) => e.id === id);
+  if (entry?.uploads?.length) deletePodPhotoFiles(entry.uploads.map((u) => u.uri));
+  removeEntry(id);
+}
+
+/**
+ * Start automatic replay: on connectivity regained and when the app returns to foreground.
+ * Called once from App.tsx. Returns a cleanup function.
+ */
+export function startOutboxSync(): () => void {
+  let wasConnected = true;
+  const netInfoUnsubscribe = NetInfo.addEventListener((state) => {
+    const connected = state.isConnected === true && state.isInternetReachable !== false;
+    if (connected && !wasConnected) replayOutbox();
+    wasConnected = connected;
+  });
+  const appStateSub = AppState.addEventListener('change', (next) => {
+    if (next === 'active') replayOutbox();
+  });
+
+  // Entries left "syncing" by a killed app are pending again
+  const stale = readEntries();
+  if (stale.some((e) => e.status === 'syncing')) {
+    writeEntries(stale.map((e) => (e.status === 'syncing' ? { ...e, status: 'pending' } : e)));
+  }
+  replayOutbox();
+
+  return () => {
+    netInfoUnsubscribe();
+    appStateSub.remove();
+  };
+}
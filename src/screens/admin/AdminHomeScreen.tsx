@@ -1,6 +1,8 @@
-import React from 'react';
-import { View, StyleSheet, ScrollView } from 'react-native';
+import React, { useCallback, useState } from 'react';
+import { View, StyleSheet, ScrollView, TouchableOpacity, RefreshControl } from 'react-native';
 import { BottomTabScreenProps } from '@react-navigation/bottom-tabs';
+import { useFocusEffect } from '@react-navigation/native';
+import { useQuery } from '@tanstack/react-query';
 import Screen from '../../shared/ui/Screen';
 import Card from '../../shared/ui/Card';
 import AppText from '../../shared/ui/AppText';
@@ -10,11 +12,63 @@ import ModeBadge from '../../shared/ui/ModeBadge';
 import { theme } from '../../shared/theme/theme';
 import { AdminTabsParamList } from '../../app/navigation/AdminTabs';
 import { useAuthRole } from '../../shared/hooks/useAuthRole';
+import { getDashboardStats } from '../../api/dashboard';
 
 type Props = BottomTabScreenProps<AdminTabsParamList, 'HomeTab'>;
 
+/** Dashboard refresh interval while the Home tab is mounted */
+const STATS_REFRESH_MS = 60 * 1000;
+
+interface StatTileProps {
+  value: string;
+  label: string;
+  /** Highlight non-zero problem counts */
+  alert?: boolean;
+  onPress: () => void;
+}
+
+function StatTile({ value, label, alert, onPress }: StatTileProps) {
+  return (
+    <TouchableOpacity style={[styles.statItem, alert && styles.statItemAlert]} onPress={onPress}>
+      <AppText variant="h2" weight="bold" color={alert ? 'error' : 'primary'}>
+        {value}
+      </AppText>
+      <AppText variant="bodySmall" color="textSecondary" style={styles.statLabel}>
+        {label}
+      </AppText>
+    </TouchableOpacity>
+  );
+}
+
 export default function AdminHomeScreen({ navigation }: Props) {
   const { canEditRoute } = useAuthRole();
+  const [refreshing, setRefreshing] = useState(false);
+  const [today] = useState(() => new Date());
+
+  const {
+    data: stats,
+    error: statsError,
+    dataUpdatedAt,
+    refetch,
+  } = useQuery({
+    queryKey: ['dashboardStats', today.toISOString().slice(0, 10)],
+    queryFn: () => getDashboardStats(today),
+    refetchInterval: STATS_REFRESH_MS,
+  });
+
+  useFocusEffect(
+    useCallback(() => {
+      refetch();
+    }, [refetch])
+  );
+
+  const onRefresh = useCallback(async () => {
+    setRefreshing(true);
+    await refetch();
+    setRefreshing(false);
+  }, [refetch]);
+
+  const format = (value: number | undefined) => (value == null ? '—' : String(value));
 
   const handleNavigateToOrders = () => {
     navigation.navigate('OrdersTab', { screen: 'OrdersList' });
@@ -28,13 +82,27 @@ export default function AdminHomeScreen({ navigation }: Props) {
     navigation.navigate('TripsTab', { screen: 'TripsList' });
   };
 
+  const handleNavigateToFailedStops = () => {
+    navigation.navigate('TripsTab', { screen: 'FailedStops' });
+  };
+
   const handleNavigateToResources = () => {
     navigation.navigate('ResourcesTab', { screen: 'DriversList' });
   };
 
+  const handleNavigateToStaleDrivers = () => {
+    navigation.navigate('ResourcesTab', {
+      screen: 'DriversList',
+      params: { driverIds: stats?.staleDriverIds ?? [], title: 'No Recent Location' },
+    });
+  };
+
   return (
     <Screen scrollable>
-      <ScrollView contentContainerStyle={styles.container} showsVerticalScrollIndicator={false}>
+      <ScrollView
+        contentContainerStyle={styles.container}
+        showsVerticalScrollIndicator={false}
+        refreshControl={<RefreshControl refreshing={refreshing} onRefresh={onRefresh} />}>
         <Card style={styles.headerCard}>
           <AppText variant="h1" weight="bold" color="text" style={styles.title}>
             OpsFlow
@@ -47,26 +115,57 @@ export default function AdminHomeScreen({ navigation }: Props) {
 
         <Card style={styles.statsCard}>
           <AppText variant="h3" weight="bold" color="text" style={styles.sectionTitle}>
-            Quick Stats
+            Today
           </AppText>
-          <View style={styles.statsGrid}>
-            <View style={styles.statItem}>
-              <AppText variant="h2" weight="bold" color="primary">0</AppText>
-              <AppText variant="bodySmall" color="textSecondary">Active Orders</AppText>
-            </View>
-            <View style={styles.statItem}>
-              <AppText variant="h2" weight="bold" color="primary">0</AppText>
-              <AppText variant="bodySmall" color="textSecondary">In Transit</AppText>
+          {statsError && !stats ? (
+            <View>
+              <AppText variant="body" color="error">
+                Could not load stats: {(statsError as Error).message}
+              </AppText>
+              <Button title="Retry" size="sm" variant="outline" onPress={() => refetch()} style={styles.retryButton} />
             </View>
-            <View style={styles.statItem}>
-              <AppText variant="h2" weight="bold" color="primary">0</AppText>
-              <AppText variant="bodySmall" color="textSecondary">Drivers</AppText>
+          ) : (
+            <View style={styles.statsGrid}>
+              <StatTile
+                value={format(stats?.unassignedOrders)}
+                label="Unassigned Orders"
+                onPress={handleNavigateToOrders}
+              />
+              <StatTile
+                value={format(stats?.inTransitTrips)}
+                label="In Transit"
+                onPress={() => navigation.navigate('TripsTab', { screen: 'TripsList', params: { status: 'In Transit' } })}
+              />
+              <StatTile
+                value={stats?.onTimePercent != null ? `${stats.onTimePercent}%` : '—'}
+                label="On Time"
+                onPress={() => navigation.navigate('TripsTab', { screen: 'TripsList', params: { status: 'Completed' } })}
+              />
+              <StatTile
+                value={format(stats?.failedStops)}
+                label="Failed Stops"
+                alert={!!stats?.failedStops}
+                onPress={handleNavigateToFailedStops}
+              />
+              <StatTile
+                value={format(stats?.staleDriverIds.length)}
+                label="No Recent Location"
+                alert={!!stats?.staleDriverIds.length}
+                onPress={handleNavigateToStaleDrivers}
+              />
+              <StatTile value={format(stats?.drivers)} label="Drivers" onPress={handleNavigateToResources} />
+              <StatTile
+                value={format(stats?.vehicles)}
+                label="Vehicles"
+                onPress={() => navigation.navigate('ResourcesTab', { screen: 'VehiclesList' })}
+              />
             </View>
-            <View style={styles.statItem}>
-              <AppText variant="h2" weight="bold" color="primary">0</AppText>
-              <AppText variant="bodySmall" color="textSecondary">Vehicles</AppText>
-            </View>
-          </View>
+          )}
+          {dataUpdatedAt > 0 && (
+            <AppText variant="caption" color="textSecondary" style={styles.updatedAt}>
+              Updated {new Date(dataUpdatedAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+            </AppText>
+          )}
         </Card>
 
         <Card style={styles.actionsCard}>
@@ -92,6 +191,12 @@ export default function AdminHomeScreen({ navigation }: Props) {
             variant="outline"
             style={styles.actionButton}
           />
+          <Button
+            title="Failed Deliveries"
+            onPress={handleNavigateToFailedStops}
+            variant="outline"
+            style={styles.actionButton}
+          />
           <Button
             title="Manage Resources"
             onPress={handleNavigateToResources}
@@ -100,11 +205,6 @@ export default function AdminHomeScreen({ navigation }: Props) {
           />
         </Card>
 
-        <Card style={styles.infoCard}>
-          <AppText variant="body" color="textSecondary" style={styles.infoText}>
-            Stats and quick actions will be populated with real data from the API.
-          </AppText>
-        </Card>
       </ScrollView>
     </Screen>
   );
@@ -146,16 +246,24 @@ const styles = StyleSheet.create({
     backgroundColor: theme.colors.gray50,
     borderRadius: theme.radius.md,
   },
+  statItemAlert: {
+    backgroundColor: theme.colors.errorLight,
+  },
+  statLabel: {
+    textAlign: 'center',
+  },
+  updatedAt: {
+    marginTop: theme.spacing.md,
+    textAlign: 'center',
+  },
+  retryButton: {
+    marginTop: theme.spacing.sm,
+    alignSelf: 'flex-start',
+  },
   actionsCard: {
     marginBottom: theme.spacing.md,
   },
   actionButton: {
     marginBottom: theme.spacing.sm,
   },
-  infoCard: {
-    backgroundColor: theme.colors.infoLight,
-  },
-  infoText: {
-    textAlign: 'center',
-  },
 });
@@ -1,4 +1,4 @@
-import React from 'react';
+import React, { useLayoutEffect } from 'react';
 import { FlatList, StyleSheet, View, ActivityIndicator } from 'react-native';
 import { useQuery } from '@tanstack/react-query';
 import { NativeStackScreenProps } from '@react-navigation/native-stack';
@@ -8,13 +8,16 @@ import Screen from '../../shared/ui/Screen';
 import Card from '../../shared/ui/Card';
 import AppText from '../../shared/ui/AppText';
 import Badge from '../../shared/ui/Badge';
+import Button from '../../shared/ui/Button';
 import { theme } from '../../shared/theme/theme';
 
 type Props = NativeStackScreenProps<AdminTabsParamList, 'DriversList'>;
 
-export default function DriversListScreen({ navigation }: Props) {
+export default function DriversListScreen({ navigation, route }: Props) {
+  const driverIds = route.params?.driverIds;
+  const filterTitle = route.params?.title;
   const {
-    data: drivers,
+    data: allDrivers,
     isLoading,
     error,
     refetch,
@@ -22,6 +25,22 @@ export default function DriversListScreen({ navigation }: Props) {
     queryKey: ['drivers'],
     queryFn: getDrivers,
   });
+  const drivers = driverIds ? allDrivers?.filter((d) => driverIds.includes(d.id)) : allDrivers;
+
+  useLayoutEffect(() => {
+    navigation.setOptions({ title: filterTitle ?? 'Drivers' });
+  }, [navigation, filterTitle]);
+
+  const clearFilter = () => navigation.setParams({ driverIds: undefined, title: undefined });
+
+  const filterBanner = driverIds ? (
+    <Card style={styles.filterCard}>
+      <AppText variant="bodySmall" color="text">
+        Showing {drivers?.length ?? 0} of {allDrivers?.length ?? 0} drivers
+      </AppText>
+      <Button title="Show all" size="sm" variant="text" onPress={clearFilter} />
+    </Card>
+  ) : null;
 
   if (isLoading) {
     return (
@@ -51,6 +70,7 @@ export default function DriversListScreen({ navigation }: Props) {
   if (!drivers || drivers.length === 0) {
     return (
       <Screen>
+        {filterBanner && <View style={styles.emptyBanner}>{filterBanner}</View>}
         <Card style={styles.emptyCard}>
           <AppText variant="body" color="textSecondary" style={styles.emptyText}>
             No drivers found.
@@ -99,6 +119,7 @@ export default function DriversListScreen({ navigation }: Props) {
         data={drivers}
         renderItem={renderDriver}
         keyExtractor={(item) => item.id}
+        ListHeaderComponent={filterBanner}
         contentContainerStyle={styles.list}
         showsVerticalScrollIndicator={false}
         refreshing={isLoading}
@@ -112,6 +133,13 @@ const styles = StyleSheet.create({
   list: {
     padding: theme.spacing.md,
   },
+  filterCard: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: theme.spacing.md,
+    backgroundColor: theme.colors.infoLight,
+  },
   driverCard: {
     marginBottom: theme.spacing.md,
   },
@@ -138,6 +166,10 @@ const styles = StyleSheet.create({
     borderColor: theme.colors.error,
     borderWidth: 1,
   },
+  emptyBanner: {
+    paddingHorizontal: theme.spacing.md,
+    paddingTop: theme.spacing.md,
+  },
   emptyCard: {
     margin: theme.spacing.md,
     alignItems: 'center',
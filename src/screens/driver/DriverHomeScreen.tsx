@@ -1,10 +1,11 @@
 import React, { useMemo } from 'react';
-import { View, StyleSheet, ScrollView, TouchableOpacity, Linking, ActivityIndicator } from 'react-native';
+import { View, StyleSheet, ScrollView, TouchableOpacity, Alert, ActivityIndicator } from 'react-native';
 import { BottomTabScreenProps } from '@react-navigation/bottom-tabs';
 import { useQuery } from '@tanstack/react-query';
 import { DriverTabsParamList } from '../../app/navigation/DriverTabs';
-import { getTrips } from '../../api/driver';
+import { getDriverTrips } from '../../api/driver';
 import { getToken } from '../../shared/utils/authStorage';
+import { launchNavigation, toNavigationTarget } from '../../location/navigationLauncher';
 import Screen from '../../shared/ui/Screen';
 import Card from '../../shared/ui/Card';
 import AppText from '../../shared/ui/AppText';
@@ -12,7 +13,7 @@ import Badge from '../../shared/ui/Badge';
 import Button from '../../shared/ui/Button';
 import ModeBadge from '../../shared/ui/ModeBadge';
 import { theme } from '../../shared/theme/theme';
-import { Trip } from '../../api/types';
+import { Stop, Trip } from '../../api/types';
 
 type Props = BottomTabScreenProps<DriverTabsParamList, 'HomeTab'>;
 
@@ -20,11 +21,15 @@ function getTripDisplayNumber(trip: Trip): string {
   return trip.tripNumber ?? `Trip #${trip.id.slice(0, 8)}`;
 }
 
+/** Stops not yet completed or failed, in sequence order */
+function getRemainingStops(trip: Trip): Stop[] {
+  return [...(trip.stops ?? [])]
+    .sort((a, b) => a.sequence - b.sequence)
+    .filter((s) => s.status !== 'Completed' && s.status !== 'Failed');
+}
+
 function getNextStopAddress(trip: Trip): string | null {
-  const stops = trip.stops ?? [];
-  const next = [...stops].sort((a, b) => a.sequence - b.sequence).find(
-    (s) => s.status !== 'Completed' && s.status !== 'Failed'
-  );
+  const next = getRemainingStops(trip)[0];
   if (!next) return null;
   return [next.addressLine1, next.city].filter(Boolean).join(', ') || next.addressLine1 || null;
 }
@@ -34,7 +39,7 @@ export default function DriverHomeScreen({ navigation }: Props) {
   const hasToken = Boolean(getToken());
   const { data: todayTrips = [], isLoading } = useQuery({
     queryKey: ['driverTrips', today.toISOString().slice(0, 10)],
-    queryFn: () => getTrips(today),
+    queryFn: () => getDriverTrips(today),
     enabled: hasToken,
   });
 
@@ -47,9 +52,12 @@ export default function DriverHomeScreen({ navigation }: Props) {
 
   const safeTodayTrips = Array.isArray(todayTrips) ? todayTrips : [];
 
-  const handleNavigate = (address: string) => {
-    const url = `https://www.google.com/maps/dir/?api=1&destination=${encodeURIComponent(address)}`;
-    Linking.openURL(url).catch(() => {});
+  const handleNavigate = (trip: Trip) => {
+    const next = getRemainingStops(trip)[0];
+    if (!next) return;
+    launchNavigation([toNavigationTarget(next)], { tripId: trip.id, stopId: next.id }).catch(() =>
+      Alert.alert('Error', 'Could not open maps app. Please check your device settings.')
+    );
   };
 
   return (
@@ -84,7 +92,7 @@ export default function DriverHomeScreen({ navigation }: Props) {
                 </AppText>
                 <Button
                   title="Navigate"
-                  onPress={() => handleNavigate(nextStop)}
+                  onPress={() => handleNavigate(firstTrip)}
                   style={styles.navigateButton}
                 />
               </Card>
@@ -0,0 +1,295 @@
+import React, { useState } from 'react';
+import { View, StyleSheet, ScrollView, TextInput, Image, Alert, TouchableOpacity } from 'react-native';
+import { useQuery } from '@tanstack/react-query';
+import { NativeStackScreenProps } from '@react-navigation/native-stack';
+import { DriverTabsParamList } from '../../app/navigation/DriverTabs';
+import { getStopFailureReasons, DEFAULT_STOP_FAILURE_REASONS } from '../../api/driver';
+import { submitDriverAction } from '../../offline/driverOutbox';
+import Screen from '../../shared/ui/Screen';
+import Card from '../../shared/ui/Card';
+import AppText from '../../shared/ui/AppText';
+import Button from '../../shared/ui/Button';
+import { theme } from '../../shared/theme/theme';
+import { capturePodPhoto, pickPodPhotos, deletePodPhotoFiles, PodPhoto } from '../../shared/utils/podPhotos';
+
+type Props = NativeStackScreenProps<DriverTabsParamList, 'FailStop'>;
+
+const MAX_PHOTOS = 3;
+
+export default function FailStopScreen({ route, navigation }: Props) {
+  const { stopId, tripId } = route.params;
+  const [reasonCode, setReasonCode] = useState<string | null>(null);
+  const [photos, setPhotos] = useState<PodPhoto[]>([]);
+  const [capturing, setCapturing] = useState(false);
+  const [note, setNote] = useState('');
+  const [loading, setLoading] = useState(false);
+
+  const { data: reasons = DEFAULT_STOP_FAILURE_REASONS } = useQuery({
+    queryKey: ['stopFailureReasons'],
+    queryFn: getStopFailureReasons,
+    staleTime: 60 * 60 * 1000,
+  });
+
+  const remaining = MAX_PHOTOS - photos.length;
+
+  const handleTakePhoto = async () => {
+    setCapturing(true);
+    try {
+      const photo = await capturePodPhoto();
+      if (photo) setPhotos((prev) => [...prev, photo]);
+    } catch (error: any) {
+      Alert.alert('Camera', error.message || 'Failed to take photo.');
+    } finally {
+      setCapturing(false);
+    }
+  };
+
+  const handlePickPhoto = async () => {
+    setCapturing(true);
+    try {
+      const picked = await pickPodPhotos(remaining);
+      if (picked.length) setPhotos((prev) => [...prev, ...picked]);
+    } catch (error: any) {
+      Alert.alert('Gallery', error.message || 'Failed to pick photos.');
+    } finally {
+      setCapturing(false);
+    }
+  };
+
+  const handleRemovePhoto = (uri: string) => {
+    setPhotos((prev) => prev.filter((p) => p.uri !== uri));
+    deletePodPhotoFiles([uri]);
+  };
+
+  const handleCancel = () => {
+    deletePodPhotoFiles(photos.map((p) => p.uri));
+    navigation.goBack();
+  };
+
+  const handleSubmit = async () => {
+    if (!reasonCode) {
+      Alert.alert('Error', 'Please select a reason.');
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const { queued } = await submitDriverAction({
+        kind: 'failStop',
+        tripId,
+        stopId,
+        payload: { reasonCode, note: note.trim() || undefined },
+        photoUris: photos.length ? photos.map((p) => p.uri) : undefined,
+      });
+      const message = queued
+        ? 'No connection. Saved on this device and will sync automatically when back online.'
+        : 'Stop marked as failed. Dispatch will reschedule it.';
+      Alert.alert(queued ? 'Saved offline' : 'Stop failed', message, [
+        {
+          text: 'OK',
+          onPress: () => navigation.goBack(),
+        },
+      ]);
+    } catch (error: any) {
+      Alert.alert('Error', error.message || 'Failed to mark stop as failed.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Screen scrollable>
+      <ScrollView contentContainerStyle={styles.container} showsVerticalScrollIndicator={false}>
+        <Card style={styles.infoCard}>
+          <AppText variant="body" color="textSecondary">
+            Record why this stop could not be delivered.
+          </AppText>
+        </Card>
+
+        <Card style={styles.sectionCard}>
+          <AppText variant="h3" weight="bold" color="text" style={styles.sectionTitle}>
+            Reason *
+          </AppText>
+          {reasons.map((reason) => {
+            const selected = reason.code === reasonCode;
+            return (
+              <TouchableOpacity
+                key={reason.code}
+                style={[styles.reasonRow, selected && styles.reasonRowSelected]}
+                onPress={() => setReasonCode(reason.code)}
+                disabled={loading}>
+                <View style={[styles.radio, selected && styles.radioSelected]} />
+                <AppText variant="body" weight={selected ? 'semibold' : 'regular'} color="text">
+                  {reason.label}
+                </AppText>
+              </TouchableOpacity>
+            );
+          })}
+        </Card>
+
+        <Card style={styles.sectionCard}>
+          <View style={styles.photoHeader}>
+            <AppText variant="h3" weight="bold" color="text">
+              Evidence (Optional)
+            </AppText>
+            <AppText variant="caption" color="textSecondary">
+              {photos.length}/{MAX_PHOTOS}
+            </AppText>
+          </View>
+          {photos.length > 0 && (
+            <View style={styles.photoGrid}>
+              {photos.map((photo) => (
+                <View key={photo.uri} style={styles.thumbWrapper}>
+                  <Image source={{ uri: photo.uri }} style={styles.thumb} />
+                  <TouchableOpacity
+                    style={styles.removeButton}
+                    onPress={() => handleRemovePhoto(photo.uri)}
+                    hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}>
+                    <AppText variant="caption" weight="bold" color="white">
+                      ✕
+                    </AppText>
+                  </TouchableOpacity>
+                </View>
+              ))}
+            </View>
+          )}
+          {remaining > 0 && (
+            <View style={styles.photoButtons}>
+              <Button
+                title="Take Photo"
+                onPress={handleTakePhoto}
+                variant="outline"
+                disabled={capturing || loading}
+                style={styles.photoButton}
+              />
+              <Button
+                title="Pick from Gallery"
+                onPress={handlePickPhoto}
+                variant="outline"
+                disabled={capturing || loading}
+                style={styles.photoButton}
+              />
+            </View>
+          )}
+        </Card>
+
+        <Card style={styles.sectionCard}>
+          <AppText variant="h3" weight="bold" color="text" style={styles.sectionTitle}>
+            Notes (Optional)
+          </AppText>
+          <TextInput
+            style={styles.noteInput}
+            placeholder="e.g. Called customer twice, no answer"
+            value={note}
+            onChangeText={setNote}
+            multiline
+            numberOfLines={4}
+            placeholderTextColor={theme.colors.textSecondary}
+          />
+        </Card>
+
+        <Card style={styles.sectionCard}>
+          <Button
+            title="Confirm Cannot Deliver"
+            onPress={handleSubmit}
+            loading={loading}
+            disabled={!reasonCode || loading || capturing}
+            style={styles.submitButton}
+          />
+          <Button title="Cancel" onPress={handleCancel} variant="outline" disabled={loading} />
+        </Card>
+      </ScrollView>
+    </Screen>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    padding: theme.spacing.md,
+  },
+  infoCard: {
+    marginBottom: theme.spacing.md,
+    backgroundColor: theme.colors.warningLight,
+  },
+  sectionCard: {
+    marginBottom: theme.spacing.md,
+  },
+  sectionTitle: {
+    marginBottom: theme.spacing.md,
+  },
+  reasonRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: theme.spacing.sm,
+    paddingHorizontal: theme.spacing.sm,
+    borderRadius: theme.radius.md,
+    marginBottom: theme.spacing.xs,
+  },
+  reasonRowSelected: {
+    backgroundColor: theme.colors.gray100,
+  },
+  radio: {
+    width: 18,
+    height: 18,
+    borderRadius: 9,
+    borderWidth: 2,
+    borderColor: theme.colors.gray400,
+    marginRight: theme.spacing.sm,
+  },
+  radioSelected: {
+    borderColor: theme.colors.primary,
+    backgroundColor: theme.colors.primary,
+  },
+  photoHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: theme.spacing.md,
+  },
+  photoGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: theme.spacing.sm,
+    marginBottom: theme.spacing.md,
+  },
+  thumbWrapper: {
+    position: 'relative',
+  },
+  thumb: {
+    width: 96,
+    height: 96,
+    borderRadius: theme.radius.md,
+    backgroundColor: theme.colors.gray100,
+  },
+  removeButton: {
+    position: 'absolute',
+    top: -6,
+    right: -6,
+    width: 24,
+    height: 24,
+    borderRadius: 12,
+    backgroundColor: theme.colors.error,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  photoButtons: {
+    flexDirection: 'row',
+    gap: theme.spacing.sm,
+  },
+  photoButton: {
+    flex: 1,
+  },
+  noteInput: {
+    borderWidth: 1,
+    borderColor: theme.colors.border,
+    borderRadius: theme.radius.md,
+    padding: theme.spacing.md,
+    minHeight: 100,
+    textAlignVertical: 'top',
+    color: theme.colors.text,
+    backgroundColor: theme.colors.surface,
+  },
+  submitButton: {
+    marginBottom: theme.spacing.sm,
+  },
+});
@@ -1,59 +1,101 @@
 import React, { useState } from 'react';
-import { View, StyleSheet, ScrollView, TextInput, Image, Alert, TouchableOpacity } from 'react-native';
+import { View, StyleSheet, ScrollView, TextInput, Image, Alert, TouchableOpacity, Modal, Pressable } from 'react-native';
 import { NativeStackScreenProps } from '@react-navigation/native-stack';
 import { DriverTabsParamList } from '../../app/navigation/DriverTabs';
-import { completeStop } from '../../api/driver';
+import { submitDriverAction } from '../../offline/driverOutbox';
 import Screen from '../../shared/ui/Screen';
 import Card from '../../shared/ui/Card';
 import AppText from '../../shared/ui/AppText';
 import Button from '../../shared/ui/Button';
+import Input from '../../shared/ui/Input';
+import SignaturePad from '../../shared/ui/SignaturePad';
 import { theme } from '../../shared/theme/theme';
+import { capturePodPhoto, pickPodPhotos, deletePodPhotoFiles, PodPhoto } from '../../shared/utils/podPhotos';
 
 type Props = NativeStackScreenProps<DriverTabsParamList, 'PODCapture'>;
 
+const MAX_PHOTOS = 6;
+
 export default function PODCaptureScreen({ route, navigation }: Props) {
-  const { stopId } = route.params;
-  const [photoUri, setPhotoUri] = useState<string | null>(null);
+  const { stopId, tripId } = route.params;
+  const [photos, setPhotos] = useState<PodPhoto[]>([]);
+  const [previewUri, setPreviewUri] = useState<string | null>(null);
+  const [capturing, setCapturing] = useState(false);
+  const [recipientName, setRecipientName] = useState('');
+  const [signatureSvg, setSignatureSvg] = useState<string | null>(null);
+  const [signing, setSigning] = useState(false);
   const [note, setNote] = useState('');
   const [loading, setLoading] = useState(false);
 
-  // Mock image picker - in production, use react-native-image-picker or expo-image-picker
-  const handleTakePhoto = () => {
-    Alert.alert(
-      'Take Photo',
-      'Photo capture functionality will be implemented with react-native-image-picker or expo-image-picker.',
-      [{ text: 'OK' }]
-    );
-    // TODO: Implement actual photo capture
-    // For now, mock it
-    setPhotoUri('mock-photo-uri');
+  const remaining = MAX_PHOTOS - photos.length;
+
+  const handleTakePhoto = async () => {
+    setCapturing(true);
+    try {
+      const photo = await capturePodPhoto();
+      if (photo) setPhotos((prev) => [...prev, photo]);
+    } catch (error: any) {
+      Alert.alert('Camera', error.message || 'Failed to take photo.');
+    } finally {
+      setCapturing(false);
+    }
   };
 
-  const handlePickPhoto = () => {
-    Alert.alert(
-      'Pick Photo',
-      'Photo picker functionality will be implemented with react-native-image-picker or expo-image-picker.',
-      [{ text: 'OK' }]
-    );
-    // TODO: Implement actual photo picking
-    // For now, mock it
-    setPhotoUri('mock-photo-uri');
+  const handlePickPhoto = async () => {
+    setCapturing(true);
+    try {
+      const picked = await pickPodPhotos(remaining);
+      if (picked.length) setPhotos((prev) => [...prev, ...picked]);
+    } catch (error: any) {
+      Alert.alert('Gallery', error.message || 'Failed to pick photos.');
+    } finally {
+      setCapturing(false);
+    }
+  };
+
+  const handleRemovePhoto = (uri: string) => {
+    setPhotos((prev) => prev.filter((p) => p.uri !== uri));
+    deletePodPhotoFiles([uri]);
+  };
+
+  const handleCancel = () => {
+    deletePodPhotoFiles(photos.map((p) => p.uri));
+    navigation.goBack();
   };
 
   const handleSubmit = async () => {
-    if (!photoUri) {
+    if (photos.length === 0) {
       Alert.alert('Error', 'Please take or pick a photo first.');
       return;
     }
+    if (!recipientName.trim()) {
+      Alert.alert('Error', 'Please enter the recipient name.');
+      return;
+    }
+    if (!signatureSvg) {
+      Alert.alert('Error', 'Please capture the recipient signature.');
+      return;
+    }
 
     setLoading(true);
     try {
-      // MVP: pass local image URI as podPhotoKeys; later use storage keys
-      await completeStop(stopId, {
-        podPhotoKeys: [photoUri],
-        signedBy: note.trim() || undefined,
+      // Photos are uploaded first (POD upload API); completeStop then sends their storage keys
+      const { queued } = await submitDriverAction({
+        kind: 'completeStop',
+        tripId,
+        stopId,
+        payload: {
+          signedBy: recipientName.trim(),
+          signatureSvg,
+          signedAt: new Date().toISOString(),
+          note: note.trim() || undefined,
+        },
+        photoUris: photos.map((p) => p.uri),
       });
-      Alert.alert('Success', 'POD submitted and stop completed.', [
+      const message = queued
+        ? 'No connection. POD saved on this device and will upload automatically when back online.'
+        : 'POD submitted and stop completed.';
+      Alert.alert(queued ? 'Saved offline' : 'Success', message, [
         {
           text: 'OK',
           onPress: () => navigation.goBack(),
@@ -68,7 +110,10 @@ export default function PODCaptureScreen({ route, navigation }: Props) {
 
   return (
     <Screen scrollable>
-      <ScrollView contentContainerStyle={styles.container} showsVerticalScrollIndicator={false}>
+      <ScrollView
+        contentContainerStyle={styles.container}
+        showsVerticalScrollIndicator={false}
+        scrollEnabled={!signing}>
         <Card style={styles.infoCard}>
           <AppText variant="body" color="textSecondary">
             Capture proof of delivery for this stop.
@@ -76,40 +121,70 @@ export default function PODCaptureScreen({ route, navigation }: Props) {
         </Card>
 
         <Card style={styles.photoCard}>
-          <AppText variant="h3" weight="bold" color="text" style={styles.sectionTitle}>
-            Photo
-          </AppText>
-          {photoUri ? (
-            <View style={styles.photoPreview}>
-              <AppText variant="body" color="textSecondary">
-                Photo selected (mock)
-              </AppText>
-              {/* In production, show actual image */}
-              {/* <Image source={{ uri: photoUri }} style={styles.photo} /> */}
-              <Button
-                title="Retake Photo"
-                onPress={handleTakePhoto}
-                variant="outline"
-                style={styles.photoButton}
-              />
+          <View style={styles.photoHeader}>
+            <AppText variant="h3" weight="bold" color="text">
+              Photos
+            </AppText>
+            <AppText variant="caption" color="textSecondary">
+              {photos.length}/{MAX_PHOTOS}
+            </AppText>
+          </View>
+          {photos.length > 0 && (
+            <View style={styles.photoGrid}>
+              {photos.map((photo) => (
+                <View key={photo.uri} style={styles.thumbWrapper}>
+                  <TouchableOpacity onPress={() => setPreviewUri(photo.uri)} activeOpacity={0.8}>
+                    <Image source={{ uri: photo.uri }} style={styles.thumb} />
+                  </TouchableOpacity>
+                  <TouchableOpacity
+                    style={styles.removeButton}
+                    onPress={() => handleRemovePhoto(photo.uri)}
+                    hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}>
+                    <AppText variant="caption" weight="bold" color="white">
+                      ✕
+                    </AppText>
+                  </TouchableOpacity>
+                </View>
+              ))}
             </View>
-          ) : (
+          )}
+          {remaining > 0 && (
             <View style={styles.photoButtons}>
               <Button
                 title="Take Photo"
                 onPress={handleTakePhoto}
+                disabled={capturing || loading}
                 style={styles.photoButton}
               />
               <Button
                 title="Pick from Gallery"
                 onPress={handlePickPhoto}
                 variant="outline"
+                disabled={capturing || loading}
                 style={styles.photoButton}
               />
             </View>
           )}
         </Card>
 
+        <Card style={styles.signatureCard}>
+          <AppText variant="h3" weight="bold" color="text" style={styles.sectionTitle}>
+            Recipient
+          </AppText>
+          <Input
+            label="Recipient name *"
+            placeholder="Full name of person receiving the goods"
+            value={recipientName}
+            onChangeText={setRecipientName}
+            autoCapitalize="words"
+            editable={!loading}
+          />
+          <AppText variant="label" color="textSecondary" style={styles.signatureLabel}>
+            Signature *
+          </AppText>
+          <SignaturePad onChange={setSignatureSvg} onDrawingChange={setSigning} />
+        </Card>
+
         <Card style={styles.noteCard}>
           <AppText variant="h3" weight="bold" color="text" style={styles.sectionTitle}>
             Notes (Optional)
@@ -130,17 +205,24 @@ export default function PODCaptureScreen({ route, navigation }: Props) {
             title="Submit POD"
             onPress={handleSubmit}
             loading={loading}
-            disabled={!photoUri || loading}
+            disabled={photos.length === 0 || !recipientName.trim() || !signatureSvg || loading || capturing}
             style={styles.submitButton}
           />
           <Button
             title="Cancel"
-            onPress={() => navigation.goBack()}
+            onPress={handleCancel}
             variant="outline"
+            disabled={loading}
             style={styles.cancelButton}
           />
         </Card>
       </ScrollView>
+
+      <Modal visible={previewUri != null} transparent animationType="fade" onRequestClose={() => setPreviewUri(null)}>
+        <Pressable style={styles.previewBackdrop} onPress={() => setPreviewUri(null)}>
+          {previewUri && <Image source={{ uri: previewUri }} style={styles.previewImage} resizeMode="contain" />}
+        </Pressable>
+      </Modal>
     </Screen>
   );
 }
@@ -156,20 +238,40 @@ const styles = StyleSheet.create({
   photoCard: {
     marginBottom: theme.spacing.md,
   },
+  photoHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: theme.spacing.md,
+  },
   sectionTitle: {
     marginBottom: theme.spacing.md,
   },
-  photoPreview: {
-    alignItems: 'center',
-    padding: theme.spacing.md,
-    backgroundColor: theme.colors.gray50,
-    borderRadius: theme.radius.md,
+  photoGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: theme.spacing.sm,
+    marginBottom: theme.spacing.md,
   },
-  photo: {
-    width: '100%',
-    height: 300,
+  thumbWrapper: {
+    position: 'relative',
+  },
+  thumb: {
+    width: 96,
+    height: 96,
     borderRadius: theme.radius.md,
-    marginBottom: theme.spacing.md,
+    backgroundColor: theme.colors.gray100,
+  },
+  removeButton: {
+    position: 'absolute',
+    top: -6,
+    right: -6,
+    width: 24,
+    height: 24,
+    borderRadius: 12,
+    backgroundColor: theme.colors.error,
+    justifyContent: 'center',
+    alignItems: 'center',
   },
   photoButtons: {
     flexDirection: 'row',
@@ -178,6 +280,12 @@ const styles = StyleSheet.create({
   photoButton: {
     flex: 1,
   },
+  signatureCard: {
+    marginBottom: theme.spacing.md,
+  },
+  signatureLabel: {
+    marginBottom: theme.spacing.xs,
+  },
   noteCard: {
     marginBottom: theme.spacing.md,
   },
@@ -200,4 +308,14 @@ const styles = StyleSheet.create({
   cancelButton: {
     // Additional styling if needed
   },
+  previewBackdrop: {
+    flex: 1,
+    backgroundColor: 'rgba(0,0,0,0.9)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  previewImage: {
+    width: '100%',
+    height: '80%',
+  },
 });
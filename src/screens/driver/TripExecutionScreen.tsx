@@ -5,6 +5,7 @@ import {
   ScrollView,
   Linking,
   Alert,
+  AppState,
   TextInput,
   ActivityIndicator,
   Modal,
@@ -16,15 +17,19 @@ import { useFocusEffect, useIsFocused } from '@react-navigation/native';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { NativeStackScreenProps } from '@react-navigation/native-stack';
 import { DriverTripsStackParamList } from '../../app/navigation/DriverTabs';
-import {
-  getTrip,
-  acceptTrip,
-  startTrip,
-  startStop,
-  completeStop,
-  type AcceptTripPayload,
-} from '../../api/driver';
+import { getTrip, acceptTrip, getDriverSettings, type AcceptTripPayload } from '../../api/driver';
+import { submitDriverAction, getOutboxEntries, OutboxEntry } from '../../offline/driverOutbox';
 import { startBackgroundTracking, stopBackgroundTracking } from '../../location/locationService';
+import { setTrackingPolicy } from '../../location/adaptiveTracking';
+import { consumeNavigationHandoff, launchNavigation, toNavigationTarget } from '../../location/navigationLauncher';
+import {
+  ArrivalPrompt,
+  clearStopGeofences,
+  dismissArrivalPrompt,
+  getArrivalPrompts,
+  subscribeArrivalPrompts,
+  syncStopGeofences,
+} from '../../location/stopGeofences';
 import Screen from '../../shared/ui/Screen';
 import Card from '../../shared/ui/Card';
 import AppText from '../../shared/ui/AppText';
@@ -32,7 +37,13 @@ import Badge from '../../shared/ui/Badge';
 import Button from '../../shared/ui/Button';
 import { theme } from '../../shared/theme/theme';
 import { getToken } from '../../shared/utils/authStorage';
+import { createLogger } from '../../shared/utils/logger';
 import { useAuthRole } from '../../shared/hooks/useAuthRole';
+import { useDriverOutbox } from '../../shared/hooks/useDriverOutbox';
+import { regionForLocations } from '../../shared/utils/geo';
+import TripStopMarkers, { getMappedStops } from '../../features/trips/TripStopMarkers';
+import { averageMovingSpeedKmh, estimateStopEtas, formatStopWindow } from '../../features/trips/stopEtas';
+import { formatClock } from '../../features/trips/tripPlayback';
 import { Trip, Stop } from '../../api/types';
 
 type Props = NativeStackScreenProps<DriverTripsStackParamList, 'TripExecution'>;
@@ -68,6 +79,35 @@ function getNextStop(stops: Stop[]): Stop | null {
   return sorted.find((s) => s.status !== 'Completed' && s.status !== 'Failed') ?? null;
 }
 
+/**
+ * Overlay actions still waiting in the outbox on top of server stop statuses,
+ * so the driver can keep working offline (e.g. complete a stop started offline).
+ */
+function applyPendingToStops(stops: Stop[], pending: OutboxEntry[]): Stop[] {
+  return stops.map((stop) => {
+    const actions = pending.filter((e) => e.stopId === stop.id);
+    if (actions.some((e) => e.kind === 'completeStop')) return { ...stop, status: 'Completed' };
+    if (actions.some((e) => e.kind === 'failStop')) return { ...stop, status: 'Failed' };
+    if (actions.some((e) => e.kind === 'startStop')) return { ...stop, status: 'Arrived' };
+    return stop;
+  });
+}
+
+const OUTBOX_ACTION_LABELS: Record<OutboxEntry['kind'], string> = {
+  startTrip: 'Start trip',
+  startStop: 'Start stop',
+  completeStop: 'Complete stop',
+  failStop: 'Cannot deliver',
+  geofenceEvent: 'Arrival / departure',
+};
+
+/** Speed samples kept for the ETA average: about 5 minutes of foreground fixes */
+const SPEED_SAMPLE_COUNT = 60;
+
+const log = createLogger('tripExecution');
+
+const OFFLINE_SAVED_MESSAGE = 'No connection. Saved on this device and will sync automatically when back online.';
+
 /**
  * Normalize trip status for reliable matching (lowercase + remove spaces).
  * Handles variations like "In Transit", "InTransit", "intransit", etc.
@@ -89,17 +129,18 @@ export default function TripExecutionScreen({ route, navigation }: Props) {
   const [mapLocationPermissionDenied, setMapLocationPermissionDenied] = useState(false);
   const subscriptionRef = useRef<Location.LocationSubscription | null>(null);
   const mapRef = useRef<MapView | null>(null);
+  const scrollRef = useRef<ScrollView | null>(null);
+  /** Scroll offsets of the stops card and of each stop card inside it, for scrolling to the next stop */
+  const stopsCardYRef = useRef(0);
+  const stopOffsetsRef = useRef<Record<string, number>>({});
+  const speedSamplesRef = useRef<number[]>([]);
   const prevNextStopIdRef = useRef<string | null>(null);
   const [stopReassignedModalVisible, setStopReassignedModalVisible] = useState(false);
   const isFocused = useIsFocused();
-
-  /** Singapore fallback when driverLocation is null */
-  const SINGAPORE_REGION = {
-    latitude: 1.3521,
-    longitude: 103.8198,
-    latitudeDelta: 0.01,
-    longitudeDelta: 0.01,
-  };
+  const { pending: pendingActions, failed: failedActions, retry: retryAction, discard: discardAction } =
+    useDriverOutbox(tripId);
+  const prevPendingCountRef = useRef(pendingActions.length);
+  const [arrivalPrompts, setArrivalPrompts] = useState<ArrivalPrompt[]>(() => getArrivalPrompts(tripId));
 
   const hasToken = Boolean(getToken());
   const {
@@ -120,6 +161,19 @@ export default function TripExecutionScreen({ route, navigation }: Props) {
     }, [hasToken, tripId, refetch])
   );
 
+  const { data: driverSettings } = useQuery({
+    queryKey: ['driverSettings'],
+    queryFn: getDriverSettings,
+    enabled: hasToken,
+    staleTime: 60 * 60 * 1000,
+  });
+
+  // Queued actions were synced (or rejected): reload the trip so server state replaces the overlay
+  useEffect(() => {
+    if (pendingActions.length < prevPendingCountRef.current) refetch();
+    prevPendingCountRef.current = pendingActions.length;
+  }, [pendingActions.length, refetch]);
+
   // If the current (next) stop was reassigned away from this trip, show modal and offer to go back to Trip Details
   useEffect(() => {
     if (!trip?.stops) return;
@@ -142,11 +196,11 @@ export default function TripExecutionScreen({ route, navigation }: Props) {
   });
 
   const startTripMutation = useMutation({
-    mutationFn: () => startTrip(tripId),
+    mutationFn: () => submitDriverAction({ kind: 'startTrip', tripId }),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['driverTrip', tripId] });
       queryClient.invalidateQueries({ queryKey: ['driverTrips'] });
-      startBackgroundTracking().catch((e) => console.error('Failed to start background tracking:', e));
+      startBackgroundTracking().catch((e) => log.error('Failed to start background tracking:', e));
     },
   });
 
@@ -158,12 +212,33 @@ export default function TripExecutionScreen({ route, navigation }: Props) {
     const active = normalized === 'dispatched' || normalized === 'intransit';
     const ended = normalized === 'completed' || normalized === 'cancelled' || normalized === 'closed' || normalized === 'delivered';
     if (active) {
-      startBackgroundTracking().catch((e) => console.error('Failed to start background tracking:', e));
+      startBackgroundTracking().catch((e) => log.error('Failed to start background tracking:', e));
     } else if (ended) {
-      stopBackgroundTracking().catch((e) => console.warn('stopBackgroundTracking:', e));
+      stopBackgroundTracking().catch((e) => log.warn('stopBackgroundTracking:', e));
     }
   }, [trip?.status]);
 
+  // Tenant tracking knobs are read by the background task on its next fixes
+  useEffect(() => {
+    if (driverSettings) setTrackingPolicy(driverSettings.tracking);
+  }, [driverSettings]);
+
+  // Geofences around the pending stops follow the trip's stops; the background task checks them
+  useEffect(() => {
+    if (!trip?.status || !driverSettings) return;
+    const normalized = normalizeTripStatus(trip.status);
+    if (normalized === 'dispatched' || normalized === 'intransit') {
+      syncStopGeofences(trip, driverSettings).catch((e) => log.warn('syncStopGeofences:', e));
+    } else if (normalized === 'completed' || normalized === 'cancelled' || normalized === 'closed' || normalized === 'delivered') {
+      clearStopGeofences();
+    }
+  }, [trip, driverSettings]);
+
+  useEffect(() => {
+    setArrivalPrompts(getArrivalPrompts(tripId));
+    return subscribeArrivalPrompts((prompts) => setArrivalPrompts(prompts.filter((p) => p.tripId === tripId)));
+  }, [tripId]);
+
   // Foreground location watch for map display (only when trip is active)
   useEffect(() => {
     if (!trip?.status) return;
@@ -198,6 +273,9 @@ export default function TripExecutionScreen({ route, navigation }: Props) {
         (loc) => {
           if (cancelled) return;
           const coords = { lat: loc.coords.latitude, lng: loc.coords.longitude };
+          if (loc.coords.speed != null && loc.coords.speed >= 0) {
+            speedSamplesRef.current = [...speedSamplesRef.current, loc.coords.speed * 3.6].slice(-SPEED_SAMPLE_COUNT);
+          }
           setDriverLocation(coords);
           // Animate map to new region instead of controlled region to avoid snapping
           mapRef.current?.animateToRegion({
@@ -242,45 +320,105 @@ export default function TripExecutionScreen({ route, navigation }: Props) {
     setProcessingTrip(true);
     startTripMutation
       .mutateAsync()
-      .then(() => Alert.alert('Success', 'Trip started.'))
+      .then(({ queued }) =>
+        queued ? Alert.alert('Saved offline', OFFLINE_SAVED_MESSAGE) : Alert.alert('Success', 'Trip started.')
+      )
       .catch((err: Error) => Alert.alert('Error', err.message || 'Failed to start trip.'))
       .finally(() => setProcessingTrip(false));
   };
 
-  const handleStartStop = async (stopId: string) => {
-    setProcessingStop(stopId);
-    try {
-      await startStop(stopId);
-      Alert.alert('Success', 'Stop started.');
-      refetch();
-    } catch (err: any) {
-      Alert.alert('Error', err.message || 'Failed to start stop.');
-    } finally {
-      setProcessingStop(null);
-    }
-  };
+  /** occurredAt: arrival time detected by the stop's geofence, when started from the arrival prompt */
+  const handleStartStop = useCallback(
+    async (stopId: string, occurredAt?: string) => {
+      setProcessingStop(stopId);
+      try {
+        const { queued } = await submitDriverAction({ kind: 'startStop', tripId, stopId, occurredAt });
+        if (queued) {
+          Alert.alert('Saved offline', OFFLINE_SAVED_MESSAGE);
+        } else {
+          Alert.alert('Success', 'Stop started.');
+          refetch();
+        }
+      } catch (err: any) {
+        Alert.alert('Error', err.message || 'Failed to start stop.');
+      } finally {
+        setProcessingStop(null);
+      }
+    },
+    [tripId, refetch]
+  );
 
-  const handleNavigate = (address: string) => {
-    const url = `https://www.google.com/maps/dir/?api=1&destination=${encodeURIComponent(address)}`;
-    Linking.openURL(url).catch(() =>
-      Alert.alert('Error', 'Could not open maps app. Please check your device settings.')
-    );
-  };
+  // Geofence arrival in prompt mode: ask once, recording the detected arrival time if confirmed
+  const arrivalPrompt = isFocused ? arrivalPrompts[0] : undefined;
+  useEffect(() => {
+    if (!arrivalPrompt) return;
+    dismissArrivalPrompt(arrivalPrompt.stopId);
+    const arrivedAt = new Date(arrivalPrompt.arrivedAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+    Alert.alert('Arrived at stop?', `You reached ${arrivalPrompt.label} at ${arrivedAt}. Start this stop now?`, [
+      { text: 'Not yet', style: 'cancel' },
+      { text: 'Start stop', onPress: () => handleStartStop(arrivalPrompt.stopId, arrivalPrompt.arrivedAt) },
+    ]);
+  }, [arrivalPrompt, handleStartStop]);
+
+  /** Sends the stops to the navigation app in order; the first one is where the driver heads next */
+  const handleNavigate = useCallback(
+    (targets: Stop[]) => {
+      if (!targets.length) return;
+      launchNavigation(targets.map(toNavigationTarget), { tripId, stopId: targets[0].id }).catch(() =>
+        Alert.alert('Error', 'Could not open maps app. Please check your device settings.')
+      );
+    },
+    [tripId]
+  );
+
+  // Back from the navigation app: reload, scroll to the stop that is now next, and offer to navigate
+  // there when the stop the driver was sent to has been finished meanwhile
+  useEffect(() => {
+    const subscription = AppState.addEventListener('change', async (next) => {
+      if (next !== 'active') return;
+      const handoff = consumeNavigationHandoff(tripId);
+      if (!handoff) return;
+      const { data } = await refetch();
+      if (!data) return;
+      const queued = getOutboxEntries().filter((e) => e.tripId === tripId && e.status !== 'failed');
+      const remaining = [...applyPendingToStops(data.stops ?? [], queued)]
+        .sort((a, b) => a.sequence - b.sequence)
+        .filter((s) => s.status !== 'Completed' && s.status !== 'Failed');
+      const nextStop = remaining[0];
+      if (!nextStop) return;
+      const offset = stopOffsetsRef.current[nextStop.id];
+      if (offset != null) scrollRef.current?.scrollTo({ y: stopsCardYRef.current + offset, animated: true });
+      if (nextStop.id === handoff.stopId) return;
+      Alert.alert('Next stop', `Stop ${nextStop.sequence}: ${getStopAddress(nextStop)}`, [
+        { text: 'Later', style: 'cancel' },
+        { text: 'Navigate', onPress: () => handleNavigate(remaining) },
+      ]);
+    });
+    return () => subscription.remove();
+  }, [tripId, refetch, handleNavigate]);
 
   const handleCompleteWithPOD = (stopId: string, stopType: string) => {
-    if (stopType === 'DELIVERY' || stopType === 'Delivery') {
-      navigation.navigate('PODCapture', { stopId });
+    if (stopType === 'DELIVERY') {
+      navigation.navigate('PODCapture', { stopId, tripId });
     } else {
       Alert.alert('Info', 'POD is only for delivery stops. Use Complete to finish this stop.');
     }
   };
 
+  const handleCannotDeliver = (stopId: string) => {
+    navigation.navigate('FailStop', { stopId, tripId });
+  };
+
   const handleCompleteStopNoPOD = async (stopId: string) => {
     setProcessingStop(stopId);
     try {
-      await completeStop(stopId, {});
-      Alert.alert('Success', 'Stop completed.');
-      refetch();
+      const { queued } = await submitDriverAction({ kind: 'completeStop', tripId, stopId, payload: {} });
+      if (queued) {
+        Alert.alert('Saved offline', OFFLINE_SAVED_MESSAGE);
+      } else {
+        Alert.alert('Success', 'Stop completed.');
+        refetch();
+      }
     } catch (err: any) {
       Alert.alert('Error', err.message || 'Failed to complete stop.');
     } finally {
@@ -318,12 +456,16 @@ export default function TripExecutionScreen({ route, navigation }: Props) {
     );
   }
 
-  const stops = trip.stops ?? [];
+  const stops = applyPendingToStops(trip.stops ?? [], pendingActions);
   const sortedStops = [...stops].sort((a, b) => a.sequence - b.sequence);
   const nextStop = getNextStop(stops);
+  const remainingStops = sortedStops.filter((s) => s.status !== 'Completed' && s.status !== 'Failed');
+  const pendingStopIds = new Set(pendingActions.map((e) => e.stopId).filter(Boolean));
+  const tripStartPending = pendingActions.some((e) => e.kind === 'startTrip');
   const isScheduled = trip.status === 'Scheduled';
   const accepted = Boolean(trip.vehicleId);
   const canStartTrip =
+    !tripStartPending &&
     trip.status !== 'In Transit' &&
     trip.status !== 'Completed' &&
     trip.status !== 'Cancelled' &&
@@ -333,18 +475,21 @@ export default function TripExecutionScreen({ route, navigation }: Props) {
   const normalizedStatus = normalizeTripStatus(trip.status);
   const isTripActive = normalizedStatus === 'dispatched' || normalizedStatus === 'intransit';
 
-  const initialMapRegion = driverLocation
-    ? {
-        latitude: driverLocation.lat,
-        longitude: driverLocation.lng,
-        latitudeDelta: 0.01,
-        longitudeDelta: 0.01,
-      }
-    : SINGAPORE_REGION;
+  const mappedStops = getMappedStops(sortedStops);
+  const stopEtas = isTripActive
+    ? estimateStopEtas(sortedStops, driverLocation, { speedKmh: averageMovingSpeedKmh(speedSamplesRef.current) })
+    : {};
+  // Fit the driver and the stops; null until there is something to show
+  const initialMapRegion = regionForLocations([...(driverLocation ? [driverLocation] : []), ...mappedStops]);
+
+  const scrollToStop = (stopId: string) => {
+    const offset = stopOffsetsRef.current[stopId];
+    if (offset != null) scrollRef.current?.scrollTo({ y: stopsCardYRef.current + offset, animated: true });
+  };
 
   return (
     <Screen scrollable>
-      <ScrollView contentContainerStyle={styles.container} showsVerticalScrollIndicator={false}>
+      <ScrollView ref={scrollRef} contentContainerStyle={styles.container} showsVerticalScrollIndicator={false}>
         <Card style={styles.headerCard}>
           <View style={styles.headerRow}>
             <AppText variant="h2" weight="bold" color="text">
@@ -395,6 +540,59 @@ export default function TripExecutionScreen({ route, navigation }: Props) {
           </Card>
         )}
 
+        {(pendingActions.length > 0 || failedActions.length > 0) && (
+          <Card style={styles.syncCard}>
+            <AppText variant="h3" weight="bold" color="text" style={styles.sectionTitle}>
+              Sync status
+            </AppText>
+            {pendingActions.length > 0 && (
+              <View style={styles.syncRow}>
+                <Badge label="Pending sync" variant="warning" />
+                <AppText variant="bodySmall" color="textSecondary" style={styles.syncText}>
+                  {pendingActions.length} action{pendingActions.length === 1 ? '' : 's'} saved on this device
+                  and will sync when back online.
+                </AppText>
+              </View>
+            )}
+            {failedActions.map((entry) => (
+              <View key={entry.id} style={styles.syncFailedItem}>
+                <AppText variant="body" weight="semibold" color="error">
+                  {OUTBOX_ACTION_LABELS[entry.kind]} failed to sync
+                </AppText>
+                <AppText variant="caption" color="textSecondary">
+                  Recorded {new Date(entry.occurredAt).toLocaleTimeString()}
+                </AppText>
+                {entry.error ? (
+                  <AppText variant="bodySmall" color="text" style={styles.syncText}>
+                    {entry.error}
+                  </AppText>
+                ) : null}
+                <View style={styles.actionsRow}>
+                  <Button title="Retry" size="sm" onPress={() => retryAction(entry.id)} style={styles.actionButton} />
+                  <Button
+                    title="Dismiss"
+                    size="sm"
+                    variant="outline"
+                    onPress={() => discardAction(entry.id)}
+                    style={styles.actionButton}
+                  />
+                </View>
+              </View>
+            ))}
+          </Card>
+        )}
+
+        {tripStartPending && (
+          <Card style={styles.actionCard}>
+            <View style={styles.syncRow}>
+              <Badge label="Pending sync" variant="warning" />
+              <AppText variant="bodySmall" color="textSecondary" style={styles.syncText}>
+                Trip start saved offline.
+              </AppText>
+            </View>
+          </Card>
+        )}
+
         {canStartTrip && !isScheduled && (
           <Card style={styles.actionCard}>
             <Button
@@ -425,7 +623,7 @@ export default function TripExecutionScreen({ route, navigation }: Props) {
                     style={styles.mapSettingsButton}
                   />
                 </View>
-              ) : driverLocation ? (
+              ) : initialMapRegion ? (
                 <MapView
                   ref={mapRef}
                   provider={PROVIDER_GOOGLE}
@@ -434,14 +632,17 @@ export default function TripExecutionScreen({ route, navigation }: Props) {
                   showsUserLocation={true}
                   showsMyLocationButton={true}
                   followsUserLocation={false}>
-                  <Marker
-                    coordinate={{
-                      latitude: driverLocation.lat,
-                      longitude: driverLocation.lng,
-                    }}
-                    title="My Location"
-                    pinColor={theme.colors.primary}
-                  />
+                  <TripStopMarkers stops={mappedStops} onStopPress={(stop) => scrollToStop(stop.id)} />
+                  {driverLocation && (
+                    <Marker
+                      coordinate={{
+                        latitude: driverLocation.lat,
+                        longitude: driverLocation.lng,
+                      }}
+                      title="My Location"
+                      pinColor={theme.colors.primary}
+                    />
+                  )}
                 </MapView>
               ) : (
                 <View style={styles.mapPlaceholder}>
@@ -455,10 +656,18 @@ export default function TripExecutionScreen({ route, navigation }: Props) {
           </Card>
         )}
 
-        <Card style={styles.stopsCard}>
+        <Card style={styles.stopsCard} onLayout={(e) => (stopsCardYRef.current = e.nativeEvent.layout.y)}>
           <AppText variant="h3" weight="bold" color="text" style={styles.sectionTitle}>
             Stops
           </AppText>
+          {remainingStops.length > 1 && (
+            <Button
+              title={`Navigate all remaining stops (${remainingStops.length})`}
+              onPress={() => handleNavigate(remainingStops)}
+              variant="outline"
+              style={styles.routeAllButton}
+            />
+          )}
           {sortedStops.length === 0 ? (
             <AppText variant="body" color="textSecondary" style={styles.emptyText}>
               No stops for this trip.
@@ -470,9 +679,14 @@ export default function TripExecutionScreen({ route, navigation }: Props) {
               const isCompleted = stop.status === 'Completed' || stop.status === 'Failed';
               const isStarted = stop.status === 'Arrived' || stop.status === 'In Transit' || isCompleted;
               const canStartThisStop = isNext && !isStarted;
+              const slot = formatStopWindow(stop);
+              const eta = stopEtas[stop.id];
 
               return (
-                <Card key={stop.id} style={styles.stopCard}>
+                <Card
+                  key={stop.id}
+                  style={styles.stopCard}
+                  onLayout={(e) => (stopOffsetsRef.current[stop.id] = e.nativeEvent.layout.y)}>
                   <View style={styles.stopHeader}>
                     <View style={styles.stopNumber}>
                       <AppText variant="h3" weight="bold" color="primary">
@@ -483,7 +697,7 @@ export default function TripExecutionScreen({ route, navigation }: Props) {
                       <View style={styles.stopTypeRow}>
                         <Badge
                           label={stop.type}
-                          variant={stop.type === 'PICKUP' || stop.type === 'Pickup' ? 'info' : 'success'}
+                          variant={stop.type === 'PICKUP' ? 'info' : 'success'}
                         />
                         <Badge
                           label={stop.status ?? 'Scheduled'}
@@ -491,27 +705,48 @@ export default function TripExecutionScreen({ route, navigation }: Props) {
                             stop.status === 'Completed'
                               ? 'success'
                               : stop.status === 'Failed'
-                                ? 'default'
+                                ? 'error'
                                 : stop.status === 'Arrived' || stop.status === 'In Transit'
                                   ? 'warning'
                                   : 'default'
                           }
                         />
+                        {pendingStopIds.has(stop.id) && <Badge label="Pending sync" variant="info" />}
                       </View>
                       <AppText variant="body" weight="semibold" color="text" style={styles.stopAddress}>
                         {address}
                       </AppText>
+                      {(slot || eta) && (
+                        <View style={styles.etaRow}>
+                          {slot && (
+                            <AppText variant="bodySmall" color="textSecondary">
+                              Window {slot}
+                            </AppText>
+                          )}
+                          {eta && (
+                            <AppText variant="bodySmall" color={eta.late ? 'error' : 'textSecondary'}>
+                              ETA {formatClock(eta.eta)}
+                            </AppText>
+                          )}
+                          {eta?.late && <Badge label={`Likely late · ${eta.lateMinutes} min`} variant="error" />}
+                        </View>
+                      )}
+                      {stop.status === 'Failed' && (stop.failureReason || stop.failureReasonCode) ? (
+                        <AppText variant="bodySmall" color="error">
+                          {stop.failureReason ?? stop.failureReasonCode}
+                        </AppText>
+                      ) : null}
                     </View>
                   </View>
 
                   <View style={styles.actionsRow}>
                     <Button
                       title="Navigate"
-                      onPress={() => handleNavigate(address)}
+                      onPress={() => handleNavigate([stop])}
                       variant="outline"
                       style={styles.actionButton}
                     />
-                    {/* Driver only: Start stop, Mark Delivered, Complete. Admin/Ops never see these. */}
+                    {/* Driver only: Start stop, Mark Delivered, Cannot deliver, Complete. Admin/Ops never see these. */}
                     {isDriverExecution && !isCompleted && (
                       <>
                         {canStartThisStop && (
@@ -524,13 +759,22 @@ export default function TripExecutionScreen({ route, navigation }: Props) {
                         )}
                         {isStarted && !isCompleted && (
                           <>
-                            {(stop.type === 'DELIVERY' || stop.type === 'Delivery') ? (
-                              <Button
-                                title="Mark Delivered"
-                                onPress={() => handleCompleteWithPOD(stop.id, stop.type)}
-                                loading={processingStop === stop.id}
-                                style={styles.actionButton}
-                              />
+                            {stop.type === 'DELIVERY' ? (
+                              <>
+                                <Button
+                                  title="Mark Delivered"
+                                  onPress={() => handleCompleteWithPOD(stop.id, stop.type)}
+                                  loading={processingStop === stop.id}
+                                  style={styles.actionButton}
+                                />
+                                <Button
+                                  title="Cannot deliver"
+                                  onPress={() => handleCannotDeliver(stop.id)}
+                                  variant="outline"
+                                  disabled={processingStop === stop.id}
+                                  style={styles.actionButton}
+                                />
+                              </>
                             ) : (
                               <Button
                                 title="Complete"
@@ -591,6 +835,29 @@ const styles = StyleSheet.create({
   actionCard: {
     marginBottom: theme.spacing.md,
   },
+  routeAllButton: {
+    marginBottom: theme.spacing.sm,
+  },
+  syncCard: {
+    marginBottom: theme.spacing.md,
+    backgroundColor: theme.colors.warningLight,
+  },
+  syncRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: theme.spacing.sm,
+  },
+  syncText: {
+    flex: 1,
+    marginTop: theme.spacing.xs,
+    marginBottom: theme.spacing.xs,
+  },
+  syncFailedItem: {
+    marginTop: theme.spacing.md,
+    paddingTop: theme.spacing.sm,
+    borderTopWidth: 1,
+    borderTopColor: theme.colors.border,
+  },
   sectionTitle: {
     marginBottom: theme.spacing.md,
   },
@@ -637,6 +904,13 @@ const styles = StyleSheet.create({
     marginTop: theme.spacing.xs,
     marginBottom: theme.spacing.xs,
   },
+  etaRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    alignItems: 'center',
+    gap: theme.spacing.sm,
+    marginBottom: theme.spacing.xs,
+  },
   actionsRow: {
     flexDirection: 'row',
     flexWrap: 'wrap',
@@ -0,0 +1,200 @@
+import React, { createContext, useCallback, useContext, useEffect, useRef, useState, ReactNode } from 'react';
+import { AppState } from 'react-native';
+import * as Keychain from 'react-native-keychain';
+import { useQueryClient } from '@tanstack/react-query';
+import { logout } from '../../api/auth';
+import { startSession } from '../../api/session';
+import { getOutboxEntries } from '../../offline/driverOutbox';
+import { stopBackgroundTracking } from '../../location/locationService';
+import {
+  disableAppLock,
+  enableAppLock,
+  getAppLockTimeoutMinutes,
+  isAppLockEnabled,
+  lockRefreshToken,
+  setAppLockTimeoutMinutes,
+  unlockRefreshToken,
+} from '../utils/authStorage';
+import { useAuth } from './AuthContext';
+
+// ---------------------------------------------------------------------------
+// App lock (opt-in): biometric / device-passcode unlock for returning users.
+// - Locks on cold start and after the app spent `timeoutMinutes` in the background.
+// - Unlocking releases the refresh token from its protected keychain entry (authStorage).
+// - Signing in with a password never requires unlocking afterwards.
+// - switchUser hands a shared device over: full clearAuth(), query cache and tracking stopped.
+// ---------------------------------------------------------------------------
+
+/** Idle timeouts offered in Settings (minutes in background; 0 = lock on every reopen) */
+export const APP_LOCK_TIMEOUT_OPTIONS = [0, 1, 5, 15, 30];
+
+interface AppLockContextType {
+  /** Opted in for this user */
+  enabled: boolean;
+  /** Lock screen is showing */
+  locked: boolean;
+  /** Device has biometrics or a passcode to unlock with */
+  available: boolean;
+  /** e.g. "Face ID", "fingerprint", "device passcode" */
+  methodLabel: string;
+  timeoutMinutes: number;
+  unlock: () => Promise<boolean>;
+  setEnabled: (enabled: boolean) => Promise<void>;
+  setTimeoutMinutes: (minutes: number) => void;
+  /** Sign out completely so another user can sign in (throws while driver actions are queued) */
+  switchUser: () => Promise<void>;
+}
+
+const AppLockContext = createContext<AppLockContextType | undefined>(undefined);
+
+/** Auth storage is only readable once AuthContext has initialised it */
+function readAppLockEnabled(): boolean {
+  try {
+    return isAppLockEnabled();
+  } catch {
+    return false;
+  }
+}
+
+function describeBiometry(type: Keychain.BIOMETRY_TYPE | null): string {
+  switch (type) {
+    case Keychain.BIOMETRY_TYPE.FACE_ID:
+      return 'Face ID';
+    case Keychain.BIOMETRY_TYPE.TOUCH_ID:
+      return 'Touch ID';
+    case Keychain.BIOMETRY_TYPE.OPTIC_ID:
+      return 'Optic ID';
+    case Keychain.BIOMETRY_TYPE.FINGERPRINT:
+      return 'fingerprint';
+    case Keychain.BIOMETRY_TYPE.FACE:
+      return 'face unlock';
+    case Keychain.BIOMETRY_TYPE.IRIS:
+      return 'iris unlock';
+    default:
+      return 'device passcode';
+  }
+}
+
+export function AppLockProvider({ children }: { children: ReactNode }) {
+  const queryClient = useQueryClient();
+  const { isAuthenticated, loading, setUser } = useAuth();
+  // Starts locked so a cold start with app lock enabled never shows content first
+  const [lockedState, setLockedState] = useState(true);
+  // null until read from storage (or changed here)
+  const [enabledState, setEnabledState] = useState<boolean | null>(null);
+  const [timeoutMinutes, setTimeoutState] = useState(5);
+  const [available, setAvailable] = useState(false);
+  const [methodLabel, setMethodLabel] = useState('device passcode');
+  const backgroundedAt = useRef<number | null>(null);
+
+  // Auth storage is ready once AuthContext has finished loading
+  useEffect(() => {
+    if (loading) return;
+    setEnabledState(readAppLockEnabled());
+    setTimeoutState(getAppLockTimeoutMinutes());
+  }, [loading, isAuthenticated]);
+
+  // Signed out (or password sign-in next): nothing to unlock
+  useEffect(() => {
+    if (!loading && !isAuthenticated) setLockedState(false);
+  }, [loading, isAuthenticated]);
+
+  useEffect(() => {
+    Promise.all([Keychain.getSupportedBiometryType(), Keychain.isPasscodeAuthAvailable()])
+      .then(([biometry, passcode]) => {
+        setAvailable(biometry != null || passcode);
+        setMethodLabel(describeBiometry(biometry));
+      })
+      .catch(() => setAvailable(false));
+  }, []);
+
+  // Read synchronously once auth has loaded so a locked cold start never renders app content first
+  const enabled = enabledState ?? (!loading && readAppLockEnabled());
+
+  const lock = useCallback(() => {
+    lockRefreshToken();
+    setLockedState(true);
+  }, []);
+
+  // Only 'background' counts: the biometric prompt itself makes iOS report 'inactive'
+  useEffect(() => {
+    const subscription = AppState.addEventListener('change', (next) => {
+      if (next === 'background') {
+        backgroundedAt.current = Date.now();
+      } else if (next === 'active' && backgroundedAt.current != null) {
+        const idleMs = Date.now() - backgroundedAt.current;
+        backgroundedAt.current = null;
+        if (enabled && isAuthenticated && idleMs >= timeoutMinutes * 60 * 1000) lock();
+      }
+    });
+    return () => subscription.remove();
+  }, [enabled, isAuthenticated, timeoutMinutes, lock]);
+
+  const unlock = useCallback(async () => {
+    const ok = await unlockRefreshToken({ title: 'Unlock OpsFlow', cancel: 'Cancel' });
+    if (ok) {
+      setLockedState(false);
+      // Refresh token is available again: resume scheduled refreshes
+      startSession();
+    }
+    return ok;
+  }, []);
+
+  const setEnabled = useCallback(async (on: boolean) => {
+    if (on) {
+      await enableAppLock();
+    } else {
+      await disableAppLock();
+    }
+    setLockedState(false);
+    setEnabledState(on);
+  }, []);
+
+  const setTimeoutMinutes = useCallback((minutes: number) => {
+    setAppLockTimeoutMinutes(minutes);
+    setTimeoutState(minutes);
+  }, []);
+
+  const switchUser = useCallback(async () => {
+    // Queued actions would otherwise be sent with the next user's token
+    const pending = getOutboxEntries().length;
+    if (pending > 0) {
+      throw new Error(
+        `${pending} driver action${pending !== 1 ? 's are' : ' is'} still waiting to sync. Sync or discard them before switching user.`
+      );
+    }
+    await stopBackgroundTracking();
+    await logout();
+    queryClient.clear();
+    setLockedState(false);
+    setEnabledState(false);
+    setUser(null);
+  }, [queryClient, setUser]);
+
+  const locked = enabled && isAuthenticated && lockedState;
+
+  return (
+    <AppLockContext.Provider
+      value={{
+        enabled,
+        locked,
+        available,
+        methodLabel,
+        timeoutMinutes,
+        unlock,
+        setEnabled,
+        setTimeoutMinutes,
+        switchUser,
+      }}>
+      {children}
+    </AppLockContext.Provider>
+  );
+}
+
+export function useAppLock() {
+  const context = useContext(AppLockContext);
+  if (context === undefined) {
+    throw new Error('useAppLock must be used within an AppLockProvider');
+  }
+  return context;
+}
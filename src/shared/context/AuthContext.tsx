@@ -1,8 +1,12 @@
 import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
 import { User, TenantMembership } from '../../api/types';
 import { getCurrentUser } from '../../api/auth';
+import { getSessionState, subscribeSession, SessionState } from '../../api/session';
 import { getUser, storeUser } from '../utils/authStorage';
-import { getToken, getCurrentTenantId, setCurrentTenantId, clearCurrentTenantId } from '../utils/authStorage';
+import { getToken, getCurrentTenantId, setCurrentTenantId, clearCurrentTenantId, initAuthStorage } from '../utils/authStorage';
+import { createLogger } from '../utils/logger';
+
+const log = createLogger('auth');
 
 // ---------------------------------------------------------------------------
 // Auth + tenant: profile (profiles table), memberships (tenant_memberships + tenants)
@@ -85,6 +89,8 @@ interface AuthContextType {
   noAccess: boolean;
   /** Display name for mode badge: "SuperAdmin" or selected tenant name. */
   selectedTenantName: string | null;
+  /** Token session (see api/session.ts); 'expired' after the refresh token was rejected. */
+  sessionState: SessionState;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
@@ -95,6 +101,17 @@ export function AuthProvider({ children }: { children: ReactNode }) {
   const [needsTenantSelection, setNeedsTenantSelection] = useState(false);
   const [noAccess, setNoAccess] = useState(false);
   const [loading, setLoading] = useState(true);
+  const [sessionState, setSessionState] = useState<SessionState>(getSessionState());
+
+  // Refresh failures end the session; send the user back to sign-in (queued driver actions are kept)
+  useEffect(
+    () =>
+      subscribeSession((state) => {
+        setSessionState(state);
+        if (state === 'expired') setUser(null);
+      }),
+    []
+  );
 
   const refreshUser = async () => {
     try {
@@ -118,7 +135,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
         const raw = await getCurrentUser();
         userData = raw.user ?? raw;
       } catch (e) {
-        console.warn('Auth refresh: getCurrentUser failed', e);
+        log.warn('Auth refresh: getCurrentUser failed', e);
         userData = storedUser;
       }
 
@@ -134,7 +151,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
       const memberships = getMemberships(userData);
       const superadmin = isSuperAdminFromUser(userData);
 
-      console.log('🔍 Auth refresh:', {
+      log.debug('🔍 Auth refresh:', {
         hasTenantMemberships: Array.isArray(userData?.tenantMemberships),
         tenantMembershipsCount: userData?.tenantMemberships?.length ?? 0,
         membershipsCount: memberships.length,
@@ -226,7 +243,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
         tenantRole,
       } as any);
       setUser({ ...normalized, tenants: normalized.tenants, currentTenantId: finalTenantId || undefined, tenantRole } as User);
-      console.log("✅ AuthContext setUser payload:", {
+      log.debug("✅ AuthContext setUser payload:", {
         email: normalized.email,
         globalRole: normalized.role,
         finalTenantId,
@@ -235,7 +252,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
       });
       setLoading(false);
     } catch (error) {
-      console.error('Refresh user error:', error);
+      log.error('Refresh user error:', error);
       const fallback = getUser();
       if (fallback) {
         setUser(fallback as User);
@@ -269,6 +286,13 @@ export function AuthProvider({ children }: { children: ReactNode }) {
 
   useEffect(() => {
     const init = async () => {
+      try {
+        await initAuthStorage();
+      } catch {
+        // Keychain unavailable: continue signed out
+        setLoading(false);
+        return;
+      }
       const token = getToken();
       if (token) {
         const stored = getCurrentTenantId();
@@ -305,6 +329,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
         needsTenantSelection,
         noAccess,
         selectedTenantName: isSuperAdmin && !hasTenantContext ? 'SuperAdmin' : selectedTenantName,
+        sessionState,
       }}>
       {children}
     </AuthContext.Provider>
@@ -1,2 +1,3 @@
 export { useAuthRole } from './useAuthRole';
 export type { AuthRole } from './useAuthRole';
+export { useDriverOutbox } from './useDriverOutbox';
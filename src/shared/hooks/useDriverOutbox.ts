@@ -0,0 +1,38 @@
+import { useEffect, useState } from 'react';
+import {
+  getOutboxEntries,
+  subscribeOutbox,
+  retryOutboxEntry,
+  discardOutboxEntry,
+  replayOutbox,
+  OutboxEntry,
+} from '../../offline/driverOutbox';
+
+/**
+ * Live view of the driver action outbox, optionally scoped to one trip.
+ * - pending: queued / syncing actions (shown as "pending sync")
+ * - failed: actions rejected by the API (conflicts), with a per-action error
+ */
+export function useDriverOutbox(tripId?: string): {
+  pending: OutboxEntry[];
+  failed: OutboxEntry[];
+  retry: (id: string) => Promise<void>;
+  discard: (id: string) => void;
+  syncNow: () => Promise<void>;
+} {
+  const [entries, setEntries] = useState<OutboxEntry[]>(() => getOutboxEntries());
+
+  useEffect(() => {
+    setEntries(getOutboxEntries());
+    return subscribeOutbox(setEntries);
+  }, []);
+
+  const scoped = tripId ? entries.filter((e) => e.tripId === tripId) : entries;
+  return {
+    pending: scoped.filter((e) => e.status !== 'failed'),
+    failed: scoped.filter((e) => e.status === 'failed'),
+    retry: retryOutboxEntry,
+    discard: discardOutboxEntry,
+    syncNow: replayOutbox,
+  };
+}
@@ -0,0 +1,174 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { View, StyleSheet, PanResponder, GestureResponderEvent, LayoutChangeEvent, TouchableOpacity } from 'react-native';
+import Svg, { Path } from 'react-native-svg';
+import { theme } from '../theme/theme';
+import AppText from './AppText';
+
+interface SignaturePadProps {
+  /** Called with serialized SVG markup after each stroke, or null when cleared */
+  onChange: (svg: string | null) => void;
+  /** True while a stroke is in progress (e.g. to disable parent ScrollView scrolling) */
+  onDrawingChange?: (drawing: boolean) => void;
+  height?: number;
+  strokeColor?: string;
+  strokeWidth?: number;
+}
+
+function round(n: number): number {
+  return Math.round(n * 10) / 10;
+}
+
+/**
+ * Serialize strokes to a standalone SVG document (viewBox = pad size).
+ */
+export function buildSignatureSvg(
+  paths: string[],
+  width: number,
+  height: number,
+  strokeColor: string = theme.colors.black,
+  strokeWidth: number = 3
+): string {
+  const w = Math.round(width);
+  const h = Math.round(height);
+  const body = paths
+    .map(
+      (d) =>
+        `<path d="${d}" fill="none" stroke="${strokeColor}" stroke-width="${strokeWidth}" stroke-linecap="round" stroke-linejoin="round"/>`
+    )
+    .join('');
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${w}" height="${h}" viewBox="0 0 ${w} ${h}">${body}</svg>`;
+}
+
+export default function SignaturePad({
+  onChange,
+  onDrawingChange,
+  height = 180,
+  strokeColor = theme.colors.black,
+  strokeWidth = 3,
+}: SignaturePadProps) {
+  const [paths, setPaths] = useState<string[]>([]);
+  const [currentPath, setCurrentPath] = useState('');
+  const pathsRef = useRef<string[]>([]);
+  const currentRef = useRef('');
+  const sizeRef = useRef({ width: 0, height });
+  // Latest callbacks for the (memoized) responder
+  const callbacksRef = useRef({ onChange, onDrawingChange });
+  callbacksRef.current = { onChange, onDrawingChange };
+
+  const panResponder = useMemo(() => {
+    const point = (e: GestureResponderEvent) => `${round(e.nativeEvent.locationX)},${round(e.nativeEvent.locationY)}`;
+    const finishStroke = () => {
+      if (currentRef.current) {
+        pathsRef.current = [...pathsRef.current, currentRef.current];
+        setPaths(pathsRef.current);
+      }
+      currentRef.current = '';
+      setCurrentPath('');
+      callbacksRef.current.onDrawingChange?.(false);
+      const { width, height: h } = sizeRef.current;
+      callbacksRef.current.onChange(
+        pathsRef.current.length ? buildSignatureSvg(pathsRef.current, width, h, strokeColor, strokeWidth) : null
+      );
+    };
+    return PanResponder.create({
+      onStartShouldSetPanResponder: () => true,
+      onMoveShouldSetPanResponder: () => true,
+      onPanResponderTerminationRequest: () => false,
+      onPanResponderGrant: (e) => {
+        // Tiny segment so a single tap still leaves a visible dot
+        currentRef.current = `M${point(e)} l0.1,0`;
+        setCurrentPath(currentRef.current);
+        callbacksRef.current.onDrawingChange?.(true);
+      },
+      onPanResponderMove: (e) => {
+        currentRef.current = `${currentRef.current} L${point(e)}`;
+        setCurrentPath(currentRef.current);
+      },
+      onPanResponderRelease: finishStroke,
+      onPanResponderTerminate: finishStroke,
+    });
+  }, [strokeColor, strokeWidth]);
+
+  const handleLayout = (e: LayoutChangeEvent) => {
+    sizeRef.current = { width: e.nativeEvent.layout.width, height: e.nativeEvent.layout.height };
+  };
+
+  const handleClear = () => {
+    pathsRef.current = [];
+    currentRef.current = '';
+    setPaths([]);
+    setCurrentPath('');
+    onChange(null);
+  };
+
+  return (
+    <View>
+      <View style={[styles.pad, { height }]} onLayout={handleLayout} {...panResponder.panHandlers}>
+        <Svg width="100%" height="100%">
+          {paths.map((d, i) => (
+            <Path
+              key={i}
+              d={d}
+              fill="none"
+              stroke={strokeColor}
+              strokeWidth={strokeWidth}
+              strokeLinecap="round"
+              strokeLinejoin="round"
+            />
+          ))}
+          {currentPath ? (
+            <Path
+              d={currentPath}
+              fill="none"
+              stroke={strokeColor}
+              strokeWidth={strokeWidth}
+              strokeLinecap="round"
+              strokeLinejoin="round"
+            />
+          ) : null}
+        </Svg>
+        {paths.length === 0 && !currentPath && (
+          <View style={styles.placeholder} pointerEvents="none">
+            <AppText variant="bodySmall" color="textSecondary">
+              Sign here
+            </AppText>
+          </View>
+        )}
+      </View>
+      <View style={styles.footer}>
+        <View style={styles.baseline} />
+        <TouchableOpacity onPress={handleClear} disabled={paths.length === 0} hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}>
+          <AppText variant="body" weight="semibold" color={paths.length === 0 ? 'gray400' : 'primary'}>
+            Clear
+          </AppText>
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  pad: {
+    borderWidth: 1,
+    borderColor: theme.colors.border,
+    borderRadius: theme.radius.md,
+    backgroundColor: theme.colors.white,
+    overflow: 'hidden',
+  },
+  placeholder: {
+    ...StyleSheet.absoluteFillObject,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  footer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: theme.spacing.sm,
+  },
+  baseline: {
+    flex: 1,
+    height: 1,
+    backgroundColor: theme.colors.gray300,
+    marginRight: theme.spacing.md,
+  },
+});
@@ -0,0 +1,48 @@
+import React from 'react';
+import { View, Image, StyleSheet } from 'react-native';
+import { SvgXml } from 'react-native-svg';
+import { theme } from '../theme/theme';
+import AppText from './AppText';
+
+interface SignatureViewProps {
+  /** SVG markup captured by SignaturePad */
+  svg?: string | null;
+  /** PNG / hosted image URL (used when no SVG markup is available) */
+  uri?: string | null;
+  height?: number;
+}
+
+/**
+ * Read-only display of a captured POD signature (SVG markup or image URL).
+ */
+export default function SignatureView({ svg, uri, height = 140 }: SignatureViewProps) {
+  return (
+    <View style={[styles.container, { height }]}>
+      {svg ? (
+        <SvgXml xml={svg} width="100%" height="100%" />
+      ) : uri ? (
+        <Image source={{ uri }} style={styles.image} resizeMode="contain" />
+      ) : (
+        <AppText variant="bodySmall" color="textSecondary">
+          No signature captured
+        </AppText>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    borderWidth: 1,
+    borderColor: theme.colors.border,
+    borderRadius: theme.radius.md,
+    backgroundColor: theme.colors.white,
+    justifyContent: 'center',
+    alignItems: 'center',
+    overflow: 'hidden',
+  },
+  image: {
+    width: '100%',
+    height: '100%',
+  },
+});
@@ -7,3 +7,5 @@ export { default as Card } from './Card';
 export { default as Badge } from './Badge';
 export { default as CargoLogo } from './CargoLogo';
 export { default as ModeBadge } from './ModeBadge';
+export { default as SignaturePad } from './SignaturePad';
+export { default as SignatureView } from './SignatureView';
@@ -1,4 +1,19 @@
-import { createMMKV } from 'react-native-mmkv';
+/**
+ * Auth storage.
+ * - Access and refresh tokens live in the platform keychain / keystore (react-native-keychain).
+ *   They are loaded once into memory by initAuthStorage(), so getToken() stays synchronous for the
+ *   request interceptor; writes update memory immediately and are persisted in the background.
+ * - Everything else (user, tenant, mode, expiry) is in MMKV, encrypted with a per-install random key
+ *   that is itself stored in the keychain.
+ * - initAuthStorage() migrates installs that used the old MMKV store with the shipped encryption key.
+ * - With app lock enabled, the refresh token is kept in a separate keychain entry that the OS only
+ *   releases after biometric / device-passcode authentication (unlockRefreshToken). Locking drops it
+ *   from memory; the access token stays so background location keeps working until it expires.
+ */
+import { getRandomBytes } from 'expo-crypto';
+import * as Keychain from 'react-native-keychain';
+import { createMMKV, deleteMMKV, existsMMKV, type MMKV } from 'react-native-mmkv';
+import { createLogger } from './logger';
 
 const TOKEN_KEY = 'opsflow_jwt_token';
 const REFRESH_TOKEN_KEY = 'opsflow_refresh_token';
@@ -6,12 +21,163 @@ const EXPIRES_AT_KEY = 'opsflow_token_expires_at';
 const USER_KEY = 'opsflow_user';
 const DRIVER_MODE_KEY = 'opsflow_driver_mode';
 const CURRENT_TENANT_ID_KEY = 'opsflow_current_tenant_id';
+const APP_LOCK_ENABLED_KEY = 'opsflow_app_lock_enabled';
+const APP_LOCK_TIMEOUT_KEY = 'opsflow_app_lock_timeout_minutes';
+
+const STORAGE_ID = 'opsflow-auth-storage-v2';
+/** Pre-keychain store; only opened to migrate existing installs */
+const LEGACY_STORAGE_ID = 'opsflow-auth-storage';
+const LEGACY_ENCRYPTION_KEY = 'opsflow-auth-encryption-key';
+
+const KEYCHAIN_TOKENS_SERVICE = 'com.opsflow.auth.tokens';
+const KEYCHAIN_STORAGE_KEY_SERVICE = 'com.opsflow.auth.storage-key';
+/** Refresh token behind local authentication (app lock) */
+const KEYCHAIN_LOCKED_REFRESH_SERVICE = 'com.opsflow.auth.refresh-locked';
+const KEYCHAIN_LOCK_ACCESS_CONTROL = Keychain.ACCESS_CONTROL.BIOMETRY_ANY_OR_DEVICE_PASSCODE;
+const KEYCHAIN_USERNAME = 'opsflow';
+/** Readable after the first unlock so the background location task can authenticate while locked */
+const KEYCHAIN_ACCESSIBLE = Keychain.ACCESSIBLE.AFTER_FIRST_UNLOCK_THIS_DEVICE_ONLY;
+
+/** MMKV encryption keys are at most 16 bytes */
+const ENCRYPTION_KEY_LENGTH = 16;
+const KEY_CHARS = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789';
+
+const log = createLogger('authStorage');
+
+interface StoredTokens {
+  accessToken?: string;
+  refreshToken?: string;
+}
+
+let storage: MMKV | null = null;
+let tokens: StoredTokens = {};
+let initPromise: Promise<void> | null = null;
+/** Keychain writes are chained so they land in call order */
+let keychainWrite: Promise<void> = Promise.resolve();
+
+function getStorage(): MMKV {
+  if (!storage) throw new Error('Auth storage used before initAuthStorage() completed');
+  return storage;
+}
+
+/** Bytes come from the platform CSPRNG (expo-crypto); throws rather than settle for a predictable key */
+function generateEncryptionKey(): string {
+  // Bytes from the largest multiple of the alphabet size up are discarded, so every character is equally likely
+  const limit = 256 - (256 % KEY_CHARS.length);
+  let key = '';
+  while (key.length < ENCRYPTION_KEY_LENGTH) {
+    for (const b of getRandomBytes(ENCRYPTION_KEY_LENGTH)) {
+      if (b < limit && key.length < ENCRYPTION_KEY_LENGTH) key += KEY_CHARS[b % KEY_CHARS.length];
+    }
+  }
+  return key;
+}
+
+async function readKeychain(service: string): Promise<string | null> {
+  const credentials = await Keychain.getGenericPassword({ service });
+  return credentials ? credentials.password : null;
+}
+
+async function writeKeychain(service: string, value: string): Promise<void> {
+  await Keychain.setGenericPassword(KEYCHAIN_USERNAME, value, { service, accessible: KEYCHAIN_ACCESSIBLE });
+}
 
-// Create MMKV storage instance
-const storage = createMMKV({
-  id: 'opsflow-auth-storage',
-  encryptionKey: 'opsflow-auth-encryption-key',
-});
+async function writeLockedRefreshToken(refreshToken: string): Promise<void> {
+  await Keychain.setGenericPassword(KEYCHAIN_USERNAME, refreshToken, {
+    service: KEYCHAIN_LOCKED_REFRESH_SERVICE,
+    accessible: Keychain.ACCESSIBLE.WHEN_PASSCODE_SET_THIS_DEVICE_ONLY,
+    accessControl: KEYCHAIN_LOCK_ACCESS_CONTROL,
+  });
+}
+
+function isAppLockEnabledSafe(): boolean {
+  try {
+    return isAppLockEnabled();
+  } catch {
+    return false;
+  }
+}
+
+function persistTokens(): void {
+  const snapshot = { ...tokens };
+  const locked = isAppLockEnabledSafe();
+  keychainWrite = keychainWrite
+    .then(async () => {
+      if (!snapshot.accessToken && !snapshot.refreshToken) {
+        await Keychain.resetGenericPassword({ service: KEYCHAIN_TOKENS_SERVICE });
+        await Keychain.resetGenericPassword({ service: KEYCHAIN_LOCKED_REFRESH_SERVICE });
+      } else if (locked) {
+        // Refresh token only in the protected entry (and only when it is in memory, i.e. unlocked)
+        await writeKeychain(KEYCHAIN_TOKENS_SERVICE, JSON.stringify({ accessToken: snapshot.accessToken }));
+        if (snapshot.refreshToken) await writeLockedRefreshToken(snapshot.refreshToken);
+      } else {
+        await writeKeychain(KEYCHAIN_TOKENS_SERVICE, JSON.stringify(snapshot));
+      }
+    })
+    .catch((error) => log.error('❌ Failed to persist tokens to keychain', error));
+}
+
+async function loadTokens(): Promise<StoredTokens> {
+  const raw = await readKeychain(KEYCHAIN_TOKENS_SERVICE);
+  if (!raw) return {};
+  try {
+    const parsed = JSON.parse(raw) as StoredTokens;
+    return { accessToken: parsed.accessToken || undefined, refreshToken: parsed.refreshToken || undefined };
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Move tokens from the legacy MMKV store into the keychain and the remaining values into the new
+ * store, then delete the legacy store. Safe to re-run if interrupted: the legacy store is only
+ * deleted once everything has been copied.
+ */
+async function migrateLegacyStorage(target: MMKV): Promise<void> {
+  if (!existsMMKV(LEGACY_STORAGE_ID)) return;
+  const legacy = createMMKV({ id: LEGACY_STORAGE_ID, encryptionKey: LEGACY_ENCRYPTION_KEY });
+  const legacyTokens: StoredTokens = {
+    accessToken: legacy.getString(TOKEN_KEY) || undefined,
+    refreshToken: legacy.getString(REFRESH_TOKEN_KEY) || undefined,
+  };
+  if (!tokens.accessToken && !tokens.refreshToken && (legacyTokens.accessToken || legacyTokens.refreshToken)) {
+    tokens = legacyTokens;
+    await writeKeychain(KEYCHAIN_TOKENS_SERVICE, JSON.stringify(tokens));
+  }
+  legacy.remove(TOKEN_KEY);
+  legacy.remove(REFRESH_TOKEN_KEY);
+  target.importAllFrom(legacy);
+  deleteMMKV(LEGACY_STORAGE_ID);
+  log.info('✅ Migrated auth storage to keychain');
+}
+
+async function initialize(): Promise<void> {
+  let encryptionKey = await readKeychain(KEYCHAIN_STORAGE_KEY_SERVICE);
+  if (!encryptionKey) {
+    encryptionKey = generateEncryptionKey();
+    await writeKeychain(KEYCHAIN_STORAGE_KEY_SERVICE, encryptionKey);
+  }
+  const store = createMMKV({ id: STORAGE_ID, encryptionKey });
+  tokens = await loadTokens();
+  await migrateLegacyStorage(store);
+  storage = store;
+}
+
+/**
+ * Load tokens from the keychain and open the encrypted store (migrating old installs).
+ * Idempotent; must complete before any other function here is used. apiClient awaits it before
+ * every request and AuthProvider awaits it before reading the session.
+ */
+export function initAuthStorage(): Promise<void> {
+  if (!initPromise) {
+    initPromise = initialize().catch((error) => {
+      initPromise = null;
+      log.error('❌ Failed to initialize auth storage', error);
+      throw error;
+    });
+  }
+  return initPromise;
+}
 
 export interface StoredUser {
   id: string;
@@ -23,46 +189,30 @@ export interface StoredUser {
 }
 
 /**
- * Store JWT token using MMKV (synchronous)
+ * Store JWT token (synchronous; persisted to the keychain in the background)
  */
 export function setToken(token: string): boolean {
   try {
     if (!token || typeof token !== 'string') {
-      console.error('❌ setToken: Invalid token provided', { tokenType: typeof token });
+      log.error('❌ setToken: Invalid token provided', { tokenType: typeof token });
       return false;
     }
 
-    storage.set(TOKEN_KEY, token);
-    console.log('✅ Token saved successfully to MMKV');
+    tokens = { ...tokens, accessToken: token };
+    persistTokens();
+    log.debug('✅ Token saved');
     return true;
   } catch (error) {
-    console.error('❌ Failed to store token:', error);
-    console.error('   Error details:', {
-      message: error instanceof Error ? error.message : String(error),
-      stack: error instanceof Error ? error.stack : undefined,
-    });
+    log.error('❌ Failed to store token', error);
     return false;
   }
 }
 
 /**
- * Retrieve JWT token from MMKV (synchronous)
+ * Retrieve JWT token (synchronous, from memory; null until initAuthStorage() has completed)
  */
 export function getToken(): string | null {
-  try {
-    const token = storage.getString(TOKEN_KEY);
-    if (token) {
-      return token;
-    }
-    return null;
-  } catch (error) {
-    console.error('❌ Failed to get token:', error);
-    console.error('   Error details:', {
-      message: error instanceof Error ? error.message : String(error),
-      stack: error instanceof Error ? error.stack : undefined,
-    });
-    return null;
-  }
+  return tokens.accessToken ?? null;
 }
 
 /**
@@ -71,10 +221,11 @@ export function getToken(): string | null {
 export function setRefreshToken(refreshToken: string): boolean {
   try {
     if (!refreshToken || typeof refreshToken !== 'string') return false;
-    storage.set(REFRESH_TOKEN_KEY, refreshToken);
+    tokens = { ...tokens, refreshToken };
+    persistTokens();
     return true;
   } catch (error) {
-    console.error('❌ Failed to store refresh token:', error);
+    log.error('❌ Failed to store refresh token', error);
     return false;
   }
 }
@@ -83,12 +234,7 @@ export function setRefreshToken(refreshToken: string): boolean {
  * Get stored refresh token (synchronous)
  */
 export function getRefreshToken(): string | null {
-  try {
-    return storage.getString(REFRESH_TOKEN_KEY) ?? null;
-  } catch (error) {
-    console.error('❌ Failed to get refresh token:', error);
-    return null;
-  }
+  return tokens.refreshToken ?? null;
 }
 
 /**
@@ -98,12 +244,12 @@ export function getRefreshToken(): string | null {
 export function setExpiresAt(expiresAt: number | string | null): void {
   try {
     if (expiresAt == null) {
-      storage.remove(EXPIRES_AT_KEY);
+      getStorage().remove(EXPIRES_AT_KEY);
       return;
     }
-    storage.set(EXPIRES_AT_KEY, typeof expiresAt === 'number' ? String(expiresAt) : expiresAt);
+    getStorage().set(EXPIRES_AT_KEY, typeof expiresAt === 'number' ? String(expiresAt) : expiresAt);
   } catch (error) {
-    console.error('❌ Failed to store expiresAt:', error);
+    log.error('❌ Failed to store expiresAt', error);
   }
 }
 
@@ -112,33 +258,29 @@ export function setExpiresAt(expiresAt: number | string | null): void {
  */
 export function getExpiresAt(): number | null {
   try {
-    const raw = storage.getString(EXPIRES_AT_KEY);
+    const raw = getStorage().getString(EXPIRES_AT_KEY);
     if (raw == null || raw === '') return null;
     const n = Number(raw);
     if (Number.isFinite(n)) return n <= 1e12 ? n : Math.floor(n / 1000); // assume ms if large
     const parsed = Date.parse(raw);
     return Number.isFinite(parsed) ? Math.floor(parsed / 1000) : null;
   } catch (error) {
-    console.error('❌ Failed to get expiresAt:', error);
+    log.error('❌ Failed to get expiresAt', error);
     return null;
   }
 }
 
 /**
- * Remove JWT and refresh tokens from MMKV (synchronous)
+ * Remove JWT and refresh tokens (synchronous; keychain entry removed in the background)
  */
 export function clearToken(): void {
   try {
-    storage.remove(TOKEN_KEY);
-    storage.remove(REFRESH_TOKEN_KEY);
-    storage.remove(EXPIRES_AT_KEY);
-    console.log('✅ Tokens cleared from MMKV');
+    tokens = {};
+    persistTokens();
+    getStorage().remove(EXPIRES_AT_KEY);
+    log.debug('✅ Tokens cleared');
   } catch (error) {
-    console.error('❌ Failed to clear token:', error);
-    console.error('   Error details:', {
-      message: error instanceof Error ? error.message : String(error),
-      stack: error instanceof Error ? error.stack : undefined,
-    });
+    log.error('❌ Failed to clear token', error);
   }
 }
 
@@ -148,19 +290,15 @@ export function clearToken(): void {
 export function storeUser(user: StoredUser): boolean {
   try {
     if (!user || !user.id) {
-      console.error('❌ storeUser: Invalid user data provided', { user });
+      log.error('❌ storeUser: Invalid user data provided', { hasId: !!user?.id });
       return false;
     }
 
-    storage.set(USER_KEY, JSON.stringify(user));
-    console.log('✅ User data saved successfully to MMKV', { userId: user.id });
+    getStorage().set(USER_KEY, JSON.stringify(user));
+    log.debug('✅ User data saved');
     return true;
   } catch (error) {
-    console.error('❌ Failed to store user:', error);
-    console.error('   Error details:', {
-      message: error instanceof Error ? error.message : String(error),
-      stack: error instanceof Error ? error.stack : undefined,
-    });
+    log.error('❌ Failed to store user', error);
     return false;
   }
 }
@@ -170,18 +308,14 @@ export function storeUser(user: StoredUser): boolean {
  */
 export function getUser(): StoredUser | null {
   try {
-    const userStr = storage.getString(USER_KEY);
+    const userStr = getStorage().getString(USER_KEY);
     if (userStr) {
       const user = JSON.parse(userStr) as StoredUser;
       return user;
     }
     return null;
   } catch (error) {
-    console.error('❌ Failed to get user:', error);
-    console.error('   Error details:', {
-      message: error instanceof Error ? error.message : String(error),
-      stack: error instanceof Error ? error.stack : undefined,
-    });
+    log.error('❌ Failed to get user', error);
     return null;
   }
 }
@@ -192,16 +326,14 @@ export function getUser(): StoredUser | null {
 export function clearAuth(): void {
   try {
     clearToken();
-    storage.remove(USER_KEY);
+    getStorage().remove(USER_KEY);
+    // App lock is a per-user choice; the next user opts in again
+    getStorage().remove(APP_LOCK_ENABLED_KEY);
     clearCurrentTenantId();
     clearSelectedMode();
-    console.log('✅ All auth data cleared from MMKV');
+    log.debug('✅ All auth data cleared');
   } catch (error) {
-    console.error('❌ Failed to clear auth data:', error);
-    console.error('   Error details:', {
-      message: error instanceof Error ? error.message : String(error),
-      stack: error instanceof Error ? error.stack : undefined,
-    });
+    log.error('❌ Failed to clear auth data', error);
   }
 }
 
@@ -223,10 +355,10 @@ export type SelectedMode = 'admin' | 'driver';
 
 export function setSelectedMode(mode: SelectedMode): void {
   try {
-    storage.set(DRIVER_MODE_KEY, mode);
-    console.log(`✅ Selected mode set to: ${mode}`);
+    getStorage().set(DRIVER_MODE_KEY, mode);
+    log.debug(`✅ Selected mode set to: ${mode}`);
   } catch (error) {
-    console.error('❌ Failed to set selected mode:', error);
+    log.error('❌ Failed to set selected mode', error);
   }
 }
 
@@ -236,13 +368,13 @@ export function setSelectedMode(mode: SelectedMode): void {
  */
 export function getSelectedMode(): SelectedMode {
   try {
-    const mode = storage.getString(DRIVER_MODE_KEY);
+    const mode = getStorage().getString(DRIVER_MODE_KEY);
     if (mode === 'admin' || mode === 'driver') {
       return mode;
     }
     return 'admin'; // Default to admin
   } catch (error) {
-    console.error('❌ Failed to get selected mode:', error);
+    log.error('❌ Failed to get selected mode', error);
     return 'admin';
   }
 }
@@ -252,9 +384,9 @@ export function getSelectedMode(): SelectedMode {
  */
 export function clearSelectedMode(): void {
   try {
-    storage.remove(DRIVER_MODE_KEY);
+    getStorage().remove(DRIVER_MODE_KEY);
   } catch (error) {
-    console.error('❌ Failed to clear selected mode:', error);
+    log.error('❌ Failed to clear selected mode', error);
   }
 }
 
@@ -272,10 +404,10 @@ export function getDriverMode(): boolean {
  */
 export function setCurrentTenantId(tenantId: string): void {
   try {
-    storage.set(CURRENT_TENANT_ID_KEY, tenantId);
-    console.log(`✅ Current tenant ID saved: ${tenantId}`);
+    getStorage().set(CURRENT_TENANT_ID_KEY, tenantId);
+    log.debug('✅ Current tenant ID saved');
   } catch (error) {
-    console.error('❌ Failed to set current tenant ID:', error);
+    log.error('❌ Failed to set current tenant ID', error);
   }
 }
 
@@ -284,10 +416,10 @@ export function setCurrentTenantId(tenantId: string): void {
  */
 export function getCurrentTenantId(): string | null {
   try {
-    const tenantId = storage.getString(CURRENT_TENANT_ID_KEY);
+    const tenantId = getStorage().getString(CURRENT_TENANT_ID_KEY);
     return tenantId || null;
   } catch (error) {
-    console.error('❌ Failed to get current tenant ID:', error);
+    log.error('❌ Failed to get current tenant ID', error);
     return null;
   }
 }
@@ -297,9 +429,83 @@ export function getCurrentTenantId(): string | null {
  */
 export function clearCurrentTenantId(): void {
   try {
-    storage.remove(CURRENT_TENANT_ID_KEY);
+    getStorage().remove(CURRENT_TENANT_ID_KEY);
   } catch (error) {
-    console.error('❌ Failed to clear current tenant ID:', error);
+    log.error('❌ Failed to clear current tenant ID', error);
+  }
+}
+
+
+/**
+ * App lock (biometric / device passcode) preference
+ */
+export function isAppLockEnabled(): boolean {
+  return getStorage().getBoolean(APP_LOCK_ENABLED_KEY) ?? false;
+}
+
+/** Minutes in the background before the app locks again (0 = every time it is reopened) */
+export function getAppLockTimeoutMinutes(): number {
+  try {
+    return getStorage().getNumber(APP_LOCK_TIMEOUT_KEY) ?? 5;
+  } catch {
+    return 5;
   }
 }
 
+export function setAppLockTimeoutMinutes(minutes: number): void {
+  try {
+    getStorage().set(APP_LOCK_TIMEOUT_KEY, minutes);
+  } catch (error) {
+    log.error('❌ Failed to set app lock timeout', error);
+  }
+}
+
+/**
+ * Turn app lock on: move the refresh token into the protected keychain entry.
+ * Requires a signed-in session with the refresh token in memory.
+ */
+export async function enableAppLock(): Promise<void> {
+  const refreshToken = tokens.refreshToken;
+  if (!refreshToken) throw new Error('Sign in again to enable app lock.');
+  await keychainWrite;
+  await writeLockedRefreshToken(refreshToken);
+  await writeKeychain(KEYCHAIN_TOKENS_SERVICE, JSON.stringify({ accessToken: tokens.accessToken }));
+  getStorage().set(APP_LOCK_ENABLED_KEY, true);
+  log.info('🔒 App lock enabled');
+}
+
+/**
+ * Turn app lock off (app must be unlocked): the refresh token goes back to the regular entry.
+ */
+export async function disableAppLock(): Promise<void> {
+  getStorage().remove(APP_LOCK_ENABLED_KEY);
+  await keychainWrite;
+  await writeKeychain(KEYCHAIN_TOKENS_SERVICE, JSON.stringify(tokens));
+  await Keychain.resetGenericPassword({ service: KEYCHAIN_LOCKED_REFRESH_SERVICE });
+  log.info('🔓 App lock disabled');
+}
+
+/**
+ * Prompt for biometrics / device passcode and load the protected refresh token into memory.
+ * Resolves false when the user cancels or authentication fails.
+ */
+export async function unlockRefreshToken(prompt: Keychain.AuthenticationPrompt): Promise<boolean> {
+  try {
+    const credentials = await Keychain.getGenericPassword({
+      service: KEYCHAIN_LOCKED_REFRESH_SERVICE,
+      accessControl: KEYCHAIN_LOCK_ACCESS_CONTROL,
+      authenticationPrompt: prompt,
+    });
+    if (!credentials) return false;
+    tokens = { ...tokens, refreshToken: credentials.password };
+    return true;
+  } catch (error) {
+    log.warn('Unlock failed or cancelled', error);
+    return false;
+  }
+}
+
+/** Drop the refresh token from memory (it stays in the protected keychain entry) */
+export function lockRefreshToken(): void {
+  tokens = { ...tokens, refreshToken: undefined };
+}
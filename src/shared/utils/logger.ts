@@ -0,0 +1,162 @@
+/**
+ * Leveled, redacting logger.
+ * - Level follows the build type: debug in development (__DEV__), warn in release builds; override with setLogLevel.
+ * - Tokens (Bearer / JWT / token-like keys), emails and coordinates are redacted from messages and data
+ *   before anything reaches the console (logcat / Xcode) or the ring buffer.
+ * - The last MAX_ENTRIES entries (all levels, already redacted) are kept in memory on the device
+ *   for diagnostics, even when the console level filters them out.
+ */
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+export interface LogEntry {
+  level: LogLevel;
+  /** Module tag, e.g. "api", "auth" */
+  tag: string;
+  message: string;
+  data?: unknown;
+  timestamp: number;
+}
+
+export interface Logger {
+  debug: (message: string, data?: unknown) => void;
+  info: (message: string, data?: unknown) => void;
+  warn: (message: string, data?: unknown) => void;
+  error: (message: string, data?: unknown) => void;
+}
+
+const LEVEL_ORDER: Record<LogLevel, number> = { debug: 0, info: 1, warn: 2, error: 3 };
+const MAX_ENTRIES = 200;
+const MAX_DEPTH = 5;
+const REDACTED = '[redacted]';
+
+/** Keys whose values are never logged */
+const SECRET_KEYS = new Set([
+  'token',
+  'accesstoken',
+  'refreshtoken',
+  'idtoken',
+  'authorization',
+  'password',
+  'secret',
+  'apikey',
+  'cookie',
+  'setcookie',
+]);
+/** Keys holding coordinates */
+const COORDINATE_KEYS = new Set(['lat', 'lng', 'lon', 'latitude', 'longitude']);
+/** Keys holding emails / tenant identifiers (also any key ending in tenantId): masked, keeping a short prefix for correlation */
+const MASKED_KEYS = new Set(['email', 'tenantid', 'xtenantid']);
+
+const BEARER_PATTERN = /Bearer\s+[A-Za-z0-9._~+/=-]+/gi;
+const JWT_PATTERN = /eyJ[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+/g;
+const EMAIL_PATTERN = /[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/g;
+/** "1.3521, 103.8198"-style pairs with at least 3 decimals */
+const COORDINATE_PAIR_PATTERN = /-?\d{1,3}\.\d{3,}\s*,\s*-?\d{1,3}\.\d{3,}/g;
+
+let currentLevel: LogLevel = typeof __DEV__ !== 'undefined' && __DEV__ ? 'debug' : 'warn';
+const entries: LogEntry[] = [];
+
+function normalizeKey(key: string): string {
+  return key.toLowerCase().replace(/[\s_-]/g, '');
+}
+
+function mask(value: unknown): string {
+  const text = String(value);
+  return text.length <= 4 ? REDACTED : `${text.slice(0, 4)}…`;
+}
+
+/**
+ * Remove tokens, emails and coordinates from a string.
+ */
+export function redactString(text: string): string {
+  return text
+    .replace(BEARER_PATTERN, `Bearer ${REDACTED}`)
+    .replace(JWT_PATTERN, REDACTED)
+    .replace(EMAIL_PATTERN, '[email]')
+    .replace(COORDINATE_PAIR_PATTERN, '[coords]');
+}
+
+/**
+ * Deep-copy a value with sensitive fields redacted (see module comment).
+ */
+export function redact(value: unknown, depth = 0): unknown {
+  if (typeof value === 'string') return redactString(value);
+  if (value == null || typeof value !== 'object') return value;
+  if (depth >= MAX_DEPTH) return '[…]';
+  if (value instanceof Error) {
+    return { name: value.name, message: redactString(value.message) };
+  }
+  if (Array.isArray(value)) return value.map((item) => redact(item, depth + 1));
+
+  const result: Record<string, unknown> = {};
+  for (const [key, item] of Object.entries(value as Record<string, unknown>)) {
+    const normalized = normalizeKey(key);
+    if (SECRET_KEYS.has(normalized) || normalized.endsWith('token')) {
+      // Flags such as hasToken: true are safe to keep
+      result[key] = item == null || typeof item === 'boolean' ? item : REDACTED;
+    } else if (COORDINATE_KEYS.has(normalized)) {
+      result[key] = item == null ? item : REDACTED;
+    } else if (MASKED_KEYS.has(normalized) || normalized.endsWith('tenantid')) {
+      result[key] = item == null ? item : mask(item);
+    } else {
+      result[key] = redact(item, depth + 1);
+    }
+  }
+  return result;
+}
+
+function record(entry: LogEntry): void {
+  entries.push(entry);
+  if (entries.length > MAX_ENTRIES) entries.shift();
+}
+
+function write(level: LogLevel, tag: string, message: string, data?: unknown): void {
+  const entry: LogEntry = {
+    level,
+    tag,
+    message: redactString(message),
+    data: data === undefined ? undefined : redact(data),
+    timestamp: Date.now(),
+  };
+  record(entry);
+
+  if (LEVEL_ORDER[level] < LEVEL_ORDER[currentLevel]) return;
+  const line = `[${tag}] ${entry.message}`;
+  const args = entry.data === undefined ? [line] : [line, entry.data];
+  if (level === 'error') console.error(...args);
+  else if (level === 'warn') console.warn(...args);
+  else console.log(...args);
+}
+
+/**
+ * Create a logger for a module, e.g. `const log = createLogger('api');`
+ */
+export function createLogger(tag: string): Logger {
+  return {
+    debug: (message, data) => write('debug', tag, message, data),
+    info: (message, data) => write('info', tag, message, data),
+    warn: (message, data) => write('warn', tag, message, data),
+    error: (message, data) => write('error', tag, message, data),
+  };
+}
+
+/** Minimum level written to the console (the ring buffer keeps every level) */
+export function setLogLevel(level: LogLevel): void {
+  currentLevel = level;
+}
+
+export function getLogLevel(): LogLevel {
+  return currentLevel;
+}
+
+/**
+ * Recent log entries (oldest first), already redacted.
+ */
+export function getLogEntries(): LogEntry[] {
+  return [...entries];
+}
+
+export function clearLogEntries(): void {
+  entries.length = 0;
+}
@@ -0,0 +1,214 @@
+/**
+ * Persistent network diagnostics log.
+ * The API client records one entry per request (keyed by request id, also sent as x-request-id),
+ * then completes that same entry with status, latency, size and error, so concurrent requests never
+ * overwrite each other. Entries are persisted in MMKV and survive restarts; the number kept is
+ * configurable. Writes are batched (PERSIST_DELAY_MS), so a burst of requests serialises the log once.
+ * URLs and errors go through the logger's redaction before they are stored.
+ * Export as plain JSON or as a HAR 1.2 document for support tickets.
+ */
+import { createMMKV } from 'react-native-mmkv';
+import { createLogger, redactString } from './logger';
+
+const ENTRIES_KEY = 'opsflow_network_log';
+const LIMIT_KEY = 'opsflow_network_log_limit';
+
+export const NETWORK_LOG_LIMITS = [50, 200, 500, 1000] as const;
+const DEFAULT_LIMIT = 200;
+/** Changes within this period are written to MMKV together */
+const PERSIST_DELAY_MS = 1000;
+
+const storage = createMMKV({
+  id: 'opsflow-network-log',
+});
+
+const log = createLogger('networkLog');
+
+export interface NetworkLogEntry {
+  /** Request id, also sent to the API as x-request-id */
+  id: string;
+  method: string;
+  url: string;
+  /** Request start (epoch ms) */
+  startedAt: number;
+  status?: number;
+  /** Time until response or error (ms); undefined while in flight */
+  durationMs?: number;
+  /** Request body size (bytes, approximate for JSON bodies) */
+  requestSize?: number;
+  /** Response body size (bytes; content-length when provided) */
+  responseSize?: number;
+  error?: string;
+}
+
+type NetworkLogListener = (entries: NetworkLogEntry[]) => void;
+
+let listeners: NetworkLogListener[] = [];
+let cache: NetworkLogEntry[] | null = null;
+let persistTimer: ReturnType<typeof setTimeout> | null = null;
+
+function readEntries(): NetworkLogEntry[] {
+  if (cache) return cache;
+  try {
+    const raw = storage.getString(ENTRIES_KEY);
+    const parsed = raw ? JSON.parse(raw) : [];
+    cache = Array.isArray(parsed) ? parsed : [];
+  } catch (e) {
+    log.warn('Failed to read network log', e);
+    cache = [];
+  }
+  return cache;
+}
+
+function persistEntries(): void {
+  persistTimer = null;
+  try {
+    storage.set(ENTRIES_KEY, JSON.stringify(cache ?? []));
+  } catch (e) {
+    log.warn('Failed to persist network log', e);
+  }
+}
+
+function writeEntries(entries: NetworkLogEntry[]): void {
+  cache = entries;
+  if (!persistTimer) persistTimer = setTimeout(persistEntries, PERSIST_DELAY_MS);
+  const snapshot = [...entries];
+  listeners.forEach((listener) => listener(snapshot));
+}
+
+/** Request id: unique enough to correlate client and server logs */
+export function createRequestId(): string {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+}
+
+/** Number of entries kept (oldest are dropped first) */
+export function getNetworkLogLimit(): number {
+  const stored = Number(storage.getString(LIMIT_KEY));
+  return Number.isFinite(stored) && stored > 0 ? stored : DEFAULT_LIMIT;
+}
+
+export function setNetworkLogLimit(limit: number): void {
+  storage.set(LIMIT_KEY, String(limit));
+  const entries = readEntries();
+  if (entries.length > limit) writeEntries(entries.slice(0, limit));
+}
+
+/**
+ * Record a request that is about to be sent. Newest entries come first.
+ */
+export function startNetworkLogEntry(entry: NetworkLogEntry): void {
+  const next = [{ ...entry, url: redactString(entry.url) }, ...readEntries()];
+  writeEntries(next.slice(0, getNetworkLogLimit()));
+}
+
+/**
+ * Complete the entry with the given request id. No-op if it was already dropped or cleared.
+ */
+export function completeNetworkLogEntry(
+  id: string,
+  result: Pick<NetworkLogEntry, 'status' | 'responseSize' | 'error'>
+): void {
+  const entries = readEntries();
+  const index = entries.findIndex((e) => e.id === id);
+  if (index === -1) return;
+  const entry = entries[index];
+  const next = [...entries];
+  next[index] = {
+    ...entry,
+    ...result,
+    error: result.error ? redactString(result.error) : undefined,
+    durationMs: Date.now() - entry.startedAt,
+  };
+  writeEntries(next);
+}
+
+/** Entries, newest first */
+export function getNetworkLog(): NetworkLogEntry[] {
+  return [...readEntries()];
+}
+
+export function clearNetworkLog(): void {
+  writeEntries([]);
+}
+
+export function subscribeNetworkLog(listener: NetworkLogListener): () => void {
+  listeners.push(listener);
+  return () => {
+    listeners = listeners.filter((l) => l !== listener);
+  };
+}
+
+/** Approximate byte size of a request/response body; undefined when it cannot be measured (e.g. FormData) */
+export function estimateBodySize(body: unknown): number | undefined {
+  if (body == null) return 0;
+  if (typeof body === 'string') return body.length;
+  if (typeof FormData !== 'undefined' && body instanceof FormData) return undefined;
+  try {
+    return JSON.stringify(body).length;
+  } catch {
+    return undefined;
+  }
+}
+
+function safeDecode(value: string): string {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+}
+
+/**
+ * HAR 1.2 document (http://www.softwareishard.com/blog/har-12-spec/). Headers and bodies are not
+ * recorded, so only the timing / status / size fields are filled; the request id and error are
+ * kept as custom `_requestId` / `_error` fields.
+ */
+export function toHar(entries: NetworkLogEntry[], creatorVersion: string) {
+  return {
+    log: {
+      version: '1.2',
+      creator: { name: 'OpsFlow', version: creatorVersion },
+      entries: [...entries].reverse().map((entry) => {
+        const url = entry.url;
+        const queryString = (() => {
+          const query = url.split('?')[1];
+          if (!query) return [];
+          return query.split('&').map((pair) => {
+            const [name, value = ''] = pair.split('=');
+            return { name: safeDecode(name), value: safeDecode(value) };
+          });
+        })();
+        return {
+          startedDateTime: new Date(entry.startedAt).toISOString(),
+          time: entry.durationMs ?? -1,
+          request: {
+            method: entry.method,
+            url,
+            httpVersion: 'HTTP/1.1',
+            cookies: [],
+            headers: [{ name: 'x-request-id', value: entry.id }],
+            queryString,
+            headersSize: -1,
+            bodySize: entry.requestSize ?? -1,
+          },
+          response: {
+            // HAR uses status 0 for requests without a response (network errors / in flight)
+            status: entry.status ?? 0,
+            statusText: '',
+            httpVersion: 'HTTP/1.1',
+            cookies: [],
+            headers: [],
+            content: { size: entry.responseSize ?? -1, mimeType: 'application/json' },
+            redirectURL: '',
+            headersSize: -1,
+            bodySize: entry.responseSize ?? -1,
+          },
+          cache: {},
+          timings: { send: 0, wait: entry.durationMs ?? -1, receive: 0 },
+          _requestId: entry.id,
+          _error: entry.error,
+        };
+      }),
+    },
+  };
+}
@@ -0,0 +1,94 @@
+/**
+ * POD photo capture helpers: camera / gallery via expo-image-picker, then resize + JPEG compression
+ * via expo-image-manipulator. Results are moved into the app's document directory so they survive
+ * cache eviction and app restarts until the upload (possibly replayed from the outbox) completes.
+ */
+import * as ImagePicker from 'expo-image-picker';
+import { ImageManipulator, SaveFormat } from 'expo-image-manipulator';
+import { Directory, File, Paths } from 'expo-file-system';
+import { createLogger } from './logger';
+
+/** Longest edge after resize (px) */
+const MAX_EDGE = 1600;
+const JPEG_QUALITY = 0.6;
+const POD_PHOTO_DIR = 'pod-photos';
+
+const log = createLogger('podPhotos');
+
+export interface PodPhoto {
+  uri: string;
+  width: number;
+  height: number;
+}
+
+function getPhotoDirectory(): Directory {
+  const dir = new Directory(Paths.document, POD_PHOTO_DIR);
+  dir.create({ idempotent: true, intermediates: true });
+  return dir;
+}
+
+async function compressAndPersist(asset: ImagePicker.ImagePickerAsset): Promise<PodPhoto> {
+  const context = ImageManipulator.manipulate(asset.uri);
+  const longest = Math.max(asset.width, asset.height);
+  if (longest > MAX_EDGE) {
+    context.resize(asset.width >= asset.height ? { width: MAX_EDGE } : { height: MAX_EDGE });
+  }
+  const image = await context.renderAsync();
+  const result = await image.saveAsync({ compress: JPEG_QUALITY, format: SaveFormat.JPEG });
+
+  const target = new File(getPhotoDirectory(), `pod-${Date.now()}-${Math.random().toString(36).slice(2, 8)}.jpg`);
+  new File(result.uri).move(target);
+  return { uri: target.uri, width: result.width, height: result.height };
+}
+
+/**
+ * Open the camera and return a compressed photo, or null if the driver cancelled.
+ * Throws if camera permission is denied.
+ */
+export async function capturePodPhoto(): Promise<PodPhoto | null> {
+  const { granted } = await ImagePicker.requestCameraPermissionsAsync();
+  if (!granted) {
+    throw new Error('Camera permission is required to take POD photos. Enable it in Settings.');
+  }
+  const result = await ImagePicker.launchCameraAsync({ mediaTypes: ['images'], quality: 1 });
+  if (result.canceled || !result.assets?.length) return null;
+  return compressAndPersist(result.assets[0]);
+}
+
+/**
+ * Pick up to `limit` photos from the gallery and return them compressed.
+ * Throws if media library permission is denied.
+ */
+export async function pickPodPhotos(limit: number): Promise<PodPhoto[]> {
+  if (limit <= 0) return [];
+  const { granted } = await ImagePicker.requestMediaLibraryPermissionsAsync();
+  if (!granted) {
+    throw new Error('Photo library permission is required to attach POD photos. Enable it in Settings.');
+  }
+  const result = await ImagePicker.launchImageLibraryAsync({
+    mediaTypes: ['images'],
+    allowsMultipleSelection: true,
+    selectionLimit: limit,
+    quality: 1,
+  });
+  if (result.canceled || !result.assets?.length) return [];
+  const photos: PodPhoto[] = [];
+  for (const asset of result.assets.slice(0, limit)) {
+    photos.push(await compressAndPersist(asset));
+  }
+  return photos;
+}
+
+/**
+ * Delete local POD photo files (after upload completed or the driver removed them).
+ */
+export function deletePodPhotoFiles(uris: string[]): void {
+  uris.forEach((uri) => {
+    try {
+      const file = new File(uri);
+      if (file.exists) file.delete();
+    } catch (e) {
+      log.warn('Failed to delete POD photo file:', e);
+    }
+  });
+}